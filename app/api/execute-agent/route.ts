@@ -8,7 +8,7 @@ export const dynamic = 'force-dynamic';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { instructions, model, context, jsonSchema, mcpTools = [] } = body;
+    const { instructions, model, fallbackModels, context, jsonSchema, mcpTools = [] } = body;
 
     // Get API keys from server
     const apiKeys = getServerAPIKeys();
@@ -37,6 +37,7 @@ export async function POST(request: NextRequest) {
         label: 'Agent',
         instructions: instructions || 'Process the input',
         model: model || 'anthropic/claude-sonnet-4-20250514',
+        fallbackModels: Array.isArray(fallbackModels) ? fallbackModels : undefined,
         outputFormat: jsonSchema ? 'JSON' : 'Text',
         jsonOutputSchema: jsonSchema,
         mcpTools: mcpTools,
@@ -55,6 +56,7 @@ export async function POST(request: NextRequest) {
       success: true,
       text: typeof responseText === 'string' ? responseText : JSON.stringify(responseText),
       mcpToolsUsed: toolCalls,
+      model: result.__agentModel,
       // Include any additional metadata if needed
       stopReason: result.stopReason,
     });
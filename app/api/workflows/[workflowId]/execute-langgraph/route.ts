@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { LangGraphExecutor } from '@/lib/workflow/langgraph';
+import { createLogger } from '@/lib/workflow/logger';
 import { getWorkflow } from '@/lib/workflow/storage';
 import { getServerAPIKeys } from '@/lib/api/config';
 import { validateApiKey } from '@/lib/api/auth';
@@ -50,7 +51,9 @@ export async function POST(
     };
 
     // Create LangGraph executor
-    const executor = new LangGraphExecutor(workflow, undefined, apiKeys || undefined);
+    const executor = new LangGraphExecutor(workflow, undefined, apiKeys, {
+      logger: createLogger({ secrets: Object.values(apiKeys) }),
+    });
 
     // Execute workflow
     const result = await executor.execute(input, { threadId });
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedConvexClient, api, isConvexConfigured } from '@/lib/convex/client';
+import { validateApiKey, createUnauthorizedResponse } from '@/lib/api/auth';
+import { cancelExecution } from '@/lib/workflow/cancellation';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/workflows/[workflowId]/executions/[executionId]/cancel
+ * Cancel a running execution.
+ *
+ * Aborts the execution immediately when it runs in this process and marks
+ * the Convex execution record as cancelled so the instance running it
+ * stops at its next cancellation check.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ workflowId: string; executionId: string }> }
+) {
+  // Validate API key
+  const authResult = await validateApiKey(request);
+  if (!authResult.authenticated) {
+    return createUnauthorizedResponse(authResult.error || 'Authentication required');
+  }
+
+  try {
+    const { workflowId, executionId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body?.reason === 'string' && body.reason ? body.reason : 'Cancelled by user';
+
+    const abortedLocally = cancelExecution(executionId, reason);
+
+    let status: string | undefined = abortedLocally ? 'cancelled' : undefined;
+    let found = abortedLocally;
+
+    if (isConvexConfigured()) {
+      try {
+        const convex = await getAuthenticatedConvexClient();
+        const record = await convex.mutation(api.executions.cancelExecution, {
+          id: executionId as any,
+          reason,
+        });
+        found = true;
+        status = abortedLocally ? 'cancelled' : record.status;
+      } catch (e) {
+        // Not a persisted execution (or not a valid Convex ID)
+      }
+    }
+
+    if (!found) {
+      return NextResponse.json(
+        { error: `Execution ${executionId} not found or no longer running` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      workflowId,
+      executionId,
+      status,
+      cancelled: status === 'cancelled',
+    });
+  } catch (error) {
+    console.error('Error cancelling execution:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to cancel execution',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
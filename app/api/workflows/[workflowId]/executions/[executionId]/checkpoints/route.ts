@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedConvexClient, api, isConvexConfigured } from '@/lib/convex/client';
+import { LangGraphExecutor } from '@/lib/workflow/langgraph';
+import { validateApiKey, createUnauthorizedResponse } from '@/lib/api/auth';
+import {
+  createEventStreamResponse,
+  createExecutionRecord,
+  findWorkflow,
+  readRunParams,
+  runExecutionStream,
+} from '@/lib/workflow/execution-stream';
+
+export const dynamic = 'force-dynamic';
+
+type ConvexClient = Awaited<ReturnType<typeof getAuthenticatedConvexClient>>;
+
+/**
+ * Thread of a run, from its execution record. The record has to belong to the
+ * workflow in the URL, so a run's state is only reachable through its workflow.
+ */
+async function resolveThreadId(convex: ConvexClient, executionId: string, workflowDocId: string) {
+  try {
+    const execution = await convex.query(api.executions.getExecution, { id: executionId as any });
+    return execution && execution.workflowId === workflowDocId ? execution.threadId ?? null : null;
+  } catch (e) {
+    // Not a persisted execution
+    return null;
+  }
+}
+
+/**
+ * GET /api/workflows/[workflowId]/executions/[executionId]/checkpoints
+ * List the run's checkpoints (oldest first) with the full graph state at each step.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workflowId: string; executionId: string }> }
+) {
+  const authResult = await validateApiKey(request);
+  if (!authResult.authenticated) {
+    return createUnauthorizedResponse(authResult.error || 'Authentication required');
+  }
+
+  try {
+    const { workflowId, executionId } = await params;
+
+    if (!isConvexConfigured()) {
+      return NextResponse.json(
+        { error: 'Convex not configured' },
+        { status: 500 }
+      );
+    }
+
+    const convex = await getAuthenticatedConvexClient();
+    const workflowDoc = await findWorkflow(convex, workflowId);
+    if (!workflowDoc) {
+      return NextResponse.json(
+        { error: `Workflow ${workflowId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const threadId = await resolveThreadId(convex, executionId, workflowDoc._id);
+    if (!threadId) {
+      return NextResponse.json(
+        { error: `No checkpoints found for execution ${executionId}` },
+        { status: 404 }
+      );
+    }
+
+    const workflow = {
+      ...workflowDoc,
+      id: workflowDoc.customId || workflowDoc._id,
+    } as any;
+
+    const executor = new LangGraphExecutor(workflow);
+    const checkpoints = await executor.getCheckpoints(threadId);
+
+    return NextResponse.json({
+      workflowId,
+      executionId,
+      threadId,
+      checkpoints,
+      total: checkpoints.length,
+    });
+  } catch (error) {
+    console.error('Error fetching checkpoints:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch checkpoints',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/workflows/[workflowId]/executions/[executionId]/checkpoints
+ * Fork a new run from a checkpoint, optionally with edited variables.
+ * Body: { checkpointId, variables? }. Streams the new run as SSE, same events
+ * and query options as execute-stream (?testMode, ?cassette, ?streamTokens).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ workflowId: string; executionId: string }> }
+) {
+  const authResult = await validateApiKey(request);
+  if (!authResult.authenticated) {
+    return createUnauthorizedResponse(authResult.error || 'Authentication required');
+  }
+
+  const { workflowId, executionId: sourceExecutionId } = await params;
+
+  return createEventStreamResponse(async (sendEvent) => {
+    const body = await request.json().catch(() => ({}));
+    const { checkpointId, variables } = body || {};
+    const runParams = readRunParams(request.nextUrl.searchParams);
+    if ('error' in runParams) {
+      sendEvent('error', { error: runParams.error });
+      return;
+    }
+
+    if (!checkpointId) {
+      sendEvent('error', { error: 'checkpointId is required to fork a run' });
+      return;
+    }
+
+    if (!isConvexConfigured()) {
+      sendEvent('error', { error: 'Convex not configured' });
+      return;
+    }
+
+    const convex = await getAuthenticatedConvexClient();
+    const workflowDoc = await findWorkflow(convex, workflowId);
+    if (!workflowDoc) {
+      sendEvent('error', { error: `Workflow ${workflowId} not found` });
+      return;
+    }
+
+    const sourceThreadId = await resolveThreadId(convex, sourceExecutionId, workflowDoc._id);
+    if (!sourceThreadId) {
+      sendEvent('error', { error: `No checkpoints found for execution ${sourceExecutionId}` });
+      return;
+    }
+
+    const workflow = {
+      ...workflowDoc,
+      id: workflowDoc.customId || workflowDoc._id,
+    } as any;
+
+    const forkedFrom = { executionId: sourceExecutionId, threadId: sourceThreadId, checkpointId };
+
+    // The fork is a run of its own, with its own record and history
+    const threadId = `thread_${workflowId}_${Date.now()}`;
+    const { executionId, executionRecordId } = await createExecutionRecord(convex, workflowDoc._id, { forkedFrom }, threadId);
+
+    await runExecutionStream({
+      convex,
+      workflow,
+      workflowId,
+      threadId,
+      executionId,
+      executionRecordId,
+      userId: authResult.userId,
+      sendEvent,
+      signal: request.signal,
+      params: runParams,
+      startEvent: {
+        event: 'workflow_started',
+        data: {
+          forkedFrom,
+          workflowName: workflow.name,
+          totalNodes: workflow.nodes.length,
+        },
+      },
+      start: (executor, run) => executor.forkFromCheckpoint(sourceThreadId, checkpointId, {
+        threadId,
+        executionId,
+        variables: variables && typeof variables === 'object' ? variables : undefined,
+        // Without ?testMode the fork keeps the source run's mode
+        ...run,
+        testMode: run.testMode || undefined,
+      }),
+    });
+  });
+}
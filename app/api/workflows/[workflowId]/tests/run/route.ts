@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedConvexClient, api, isConvexConfigured } from '@/lib/convex/client';
+import { validateApiKey } from '@/lib/api/auth';
+import { runWorkflowTest } from '@/lib/workflow/test-runner';
+import type { Workflow, WorkflowTestCase, WorkflowTestRunResult } from '@/lib/workflow/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/workflows/:workflowId/tests/run - Run the workflow's test cases
+ * Runs every test case, or only those listed in `testIds`, one after another
+ * and records each result in the test's history.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    const authResult = await validateApiKey(request);
+    if (!authResult.authenticated) {
+      return NextResponse.json(
+        { error: authResult.error || 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!isConvexConfigured()) {
+      return NextResponse.json(
+        { error: 'Convex not configured' },
+        { status: 500 }
+      );
+    }
+
+    const { workflowId } = await params;
+    const body = await request.text();
+    const { testIds } = body.trim() ? JSON.parse(body) : {};
+    if (testIds !== undefined && !Array.isArray(testIds)) {
+      return NextResponse.json(
+        { error: 'testIds must be an array of test case IDs' },
+        { status: 400 }
+      );
+    }
+
+    const convex = await getAuthenticatedConvexClient();
+
+    // Look up by customId first, then try as Convex ID
+    let workflowDoc = await convex.query(api.workflows.getWorkflowByCustomId, {
+      customId: workflowId,
+    });
+
+    if (!workflowDoc && workflowId.startsWith('j')) {
+      try {
+        workflowDoc = await convex.query(api.workflows.getWorkflow, {
+          id: workflowId as any,
+        });
+      } catch (e) {
+        // Not a valid Convex ID
+      }
+    }
+
+    if (!workflowDoc) {
+      return NextResponse.json(
+        { error: `Workflow ${workflowId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const workflow = {
+      ...workflowDoc,
+      id: workflowDoc.customId || workflowDoc._id,
+    } as unknown as Workflow;
+
+    const testDocs = await convex.query(api.workflowTests.list, { workflowId: workflowDoc._id });
+    const selected = testIds ? testDocs.filter(test => testIds.includes(test._id)) : testDocs;
+
+    if (selected.length === 0) {
+      return NextResponse.json(
+        { error: testIds ? 'None of the requested test cases belong to this workflow' : 'This workflow has no test cases' },
+        { status: 404 }
+      );
+    }
+
+    // Get API keys - check user keys first, then fall back to environment
+    const { getLLMApiKey } = await import('@/lib/api/llm-keys');
+    const userId = authResult.userId;
+
+    const apiKeys = {
+      anthropic: (userId ? await getLLMApiKey('anthropic', userId) : null) || process.env.ANTHROPIC_API_KEY,
+      groq: (userId ? await getLLMApiKey('groq', userId) : null) || process.env.GROQ_API_KEY,
+      openai: (userId ? await getLLMApiKey('openai', userId) : null) || process.env.OPENAI_API_KEY,
+      firecrawl: process.env.FIRECRAWL_API_KEY, // Firecrawl keys are still environment-only for now
+      arcade: process.env.ARCADE_API_KEY,
+    };
+
+    const results: WorkflowTestRunResult[] = [];
+    for (const testDoc of selected) {
+      const testCase: WorkflowTestCase = {
+        id: testDoc._id,
+        workflowId: workflow.id,
+        name: testDoc.name,
+        inputs: testDoc.inputs || {},
+        pinnedOutputs: testDoc.pinnedOutputs,
+        assertions: testDoc.assertions || [],
+      };
+
+      const result = await runWorkflowTest(workflow, testCase, apiKeys, { signal: request.signal });
+      results.push(result);
+
+      // Round-trip through JSON so the history only stores plain values (no undefined)
+      await convex.mutation(api.workflowTests.recordRun, {
+        testId: testDoc._id,
+        status: result.status,
+        assertions: JSON.parse(JSON.stringify(result.assertions)),
+        output: result.output === undefined ? undefined : JSON.parse(JSON.stringify(result.output)),
+        error: result.error,
+        durationMs: result.durationMs,
+        startedAt: result.startedAt,
+      }).catch((e) => console.warn('Failed to record test run:', e));
+    }
+
+    const passed = results.filter(result => result.status === 'passed').length;
+
+    return NextResponse.json({
+      workflowId: workflow.id,
+      success: passed === results.length,
+      total: results.length,
+      passed,
+      failed: results.filter(result => result.status === 'failed').length,
+      errors: results.filter(result => result.status === 'error').length,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Workflow test run error:', error);
+    return NextResponse.json(
+      {
+        error: 'Workflow test run failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
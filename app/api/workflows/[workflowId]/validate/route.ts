@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthenticatedConvexClient, api, isConvexConfigured } from '@/lib/convex/client';
+import { analyzeWorkflow } from '@/lib/workflow/analyzer';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/workflows/:workflowId/validate - Statically analyze a workflow
+ * Analyzes the workflow in the request body (e.g. unsaved canvas state) when
+ * one is sent, otherwise the saved workflow.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ workflowId: string }> }
+) {
+  try {
+    const { workflowId } = await params;
+
+    const body = await request.text();
+    let workflow = body.trim() ? JSON.parse(body) : null;
+
+    if (!workflow?.nodes) {
+      if (!isConvexConfigured()) {
+        return NextResponse.json(
+          { error: 'Convex not configured. Send the workflow in the request body instead.' },
+          { status: 500 }
+        );
+      }
+
+      const convex = await getAuthenticatedConvexClient();
+
+      // Look up by customId first, then try as Convex ID
+      workflow = await convex.query(api.workflows.getWorkflowByCustomId, {
+        customId: workflowId,
+      });
+
+      if (!workflow && workflowId.startsWith('j')) {
+        try {
+          workflow = await convex.query(api.workflows.getWorkflow, {
+            id: workflowId as any,
+          });
+        } catch (e) {
+          // Not a valid Convex ID
+        }
+      }
+
+      if (!workflow) {
+        return NextResponse.json(
+          { error: `Workflow ${workflowId} not found` },
+          { status: 404 }
+        );
+      }
+    }
+
+    if (!Array.isArray(workflow.nodes) || !Array.isArray(workflow.edges || [])) {
+      return NextResponse.json(
+        { error: 'Workflow must have nodes and edges arrays' },
+        { status: 400 }
+      );
+    }
+
+    const issues = analyzeWorkflow({ nodes: workflow.nodes, edges: workflow.edges || [] });
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+    return NextResponse.json({
+      valid: errorCount === 0,
+      errorCount,
+      warningCount: issues.length - errorCount,
+      issues,
+    });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Workflow validation error:', error);
+    return NextResponse.json(
+      {
+        error: 'Workflow validation failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
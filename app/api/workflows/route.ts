@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getConvexClient, getAuthenticatedConvexClient, api, isConvexConfigured } from '@/lib/convex/client';
+import { validateWorkflowExpressions } from '@/lib/workflow/validation';
 
 export const dynamic = 'force-dynamic';
 
@@ -119,15 +120,23 @@ export async function POST(request: NextRequest) {
       estimatedTime: workflow.estimatedTime,
       nodes: workflow.nodes,
       edges: workflow.edges,
+      settings: workflow.settings,
       version: workflow.version,
       isTemplate: workflow.isTemplate,
     });
 
+    // Still saved (auto-save mustn't drop edits), but invalid conditions are reported now
+    // rather than failing at run time
+    const expressionErrors = validateWorkflowExpressions(workflow);
+
     return NextResponse.json({
       success: true,
       workflowId: savedId,
       source: 'convex',
-      message: 'Workflow saved successfully',
+      message: expressionErrors.length > 0
+        ? `Workflow saved with ${expressionErrors.length} invalid expression${expressionErrors.length === 1 ? '' : 's'}`
+        : 'Workflow saved successfully',
+      ...(expressionErrors.length > 0 && { expressionErrors }),
     });
   } catch (error) {
     console.error('Error saving workflow:', error);
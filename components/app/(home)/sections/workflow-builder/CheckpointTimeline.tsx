@@ -0,0 +1,221 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import type { Workflow, WorkflowCheckpoint, WorkflowForkRequest } from "@/lib/workflow/types";
+
+interface CheckpointTimelineProps {
+  workflow: Workflow | null;
+  executionId: string;
+  disabled?: boolean;
+  onFork: (fork: WorkflowForkRequest) => void;
+}
+
+// LangGraph's internal entry node shows up in checkpoint history
+const GRAPH_START = "__start__";
+
+export default function CheckpointTimeline({ workflow, executionId, disabled, onFork }: CheckpointTimelineProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [checkpoints, setCheckpoints] = useState<WorkflowCheckpoint[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [variablesText, setVariablesText] = useState("");
+  const [variablesError, setVariablesError] = useState<string | null>(null);
+
+  const selected = checkpoints.find((c) => c.checkpointId === selectedId) || null;
+
+  const getNodeName = (nodeId: string) => {
+    if (nodeId === GRAPH_START) return "Input";
+    const node = workflow?.nodes.find((n) => n.id === nodeId);
+    const data = node?.data as any;
+    return data?.nodeName || data?.label || nodeId;
+  };
+
+  const loadCheckpoints = async () => {
+    if (!workflow) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/workflows/${workflow.id}/executions/${executionId}/checkpoints`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load checkpoints");
+      }
+      setCheckpoints(data.checkpoints || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load checkpoints");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleExpanded = () => {
+    const next = !expanded;
+    setExpanded(next);
+    if (next && checkpoints.length === 0) {
+      loadCheckpoints();
+    }
+  };
+
+  const selectCheckpoint = (checkpoint: WorkflowCheckpoint) => {
+    if (checkpoint.checkpointId === selectedId) {
+      setSelectedId(null);
+      return;
+    }
+    setSelectedId(checkpoint.checkpointId);
+    setVariablesText(JSON.stringify(checkpoint.state.variables, null, 2));
+    setVariablesError(null);
+  };
+
+  const handleFork = () => {
+    if (!selected) return;
+
+    let variables: Record<string, any> | undefined;
+    const original = JSON.stringify(selected.state.variables, null, 2);
+    if (variablesText !== original) {
+      try {
+        const parsed = JSON.parse(variablesText);
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+          throw new Error("Variables must be a JSON object");
+        }
+        variables = parsed;
+      } catch (err) {
+        setVariablesError(err instanceof Error ? err.message : "Invalid JSON");
+        return;
+      }
+    }
+
+    onFork({
+      executionId,
+      checkpointId: selected.checkpointId,
+      variables,
+    });
+  };
+
+  return (
+    <div className="mt-24 rounded-12 border border-border-faint bg-accent-white">
+      <button
+        onClick={toggleExpanded}
+        className="w-full flex items-center justify-between p-16 text-left"
+      >
+        <div>
+          <h3 className="text-label-medium font-medium text-accent-black">Timeline</h3>
+          <p className="text-body-small text-black-alpha-48">
+            Inspect the state after each step and fork a new run from it
+          </p>
+        </div>
+        <svg
+          className={`w-16 h-16 text-black-alpha-48 transition-transform ${expanded ? "rotate-180" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {expanded && (
+        <div className="px-16 pb-16 space-y-12 border-t border-border-faint pt-12">
+          <div className="flex items-center justify-between">
+            <span className="text-body-small text-black-alpha-48">
+              {loading ? "Loading checkpoints..." : `${checkpoints.length} checkpoints`}
+            </span>
+            <button
+              onClick={loadCheckpoints}
+              disabled={loading}
+              className="px-8 py-4 bg-background-base hover:bg-black-alpha-4 border border-border-faint rounded-6 text-body-small text-accent-black transition-colors disabled:opacity-50"
+            >
+              Refresh
+            </button>
+          </div>
+
+          {error && (
+            <p className="text-body-small text-accent-black bg-black-alpha-4 rounded-8 p-8">{error}</p>
+          )}
+
+          <div className="space-y-6">
+            {checkpoints.map((checkpoint) => {
+              const isSelected = checkpoint.checkpointId === selectedId;
+              const ran = checkpoint.writes.map(getNodeName).join(", ");
+              const next = checkpoint.next.map(getNodeName).join(", ");
+
+              return (
+                <div key={checkpoint.checkpointId}>
+                  <button
+                    onClick={() => selectCheckpoint(checkpoint)}
+                    className={`w-full text-left px-12 py-8 rounded-8 border transition-colors ${
+                      isSelected
+                        ? "border-heat-100 bg-heat-4"
+                        : "border-border-faint bg-background-base hover:bg-black-alpha-4"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-8">
+                      <span className="text-body-small font-medium text-accent-black">
+                        Step {checkpoint.step}
+                        {ran && <span className="font-normal text-black-alpha-64"> · {ran}</span>}
+                      </span>
+                      {checkpoint.createdAt && (
+                        <span className="text-body-small text-black-alpha-48 flex-shrink-0">
+                          {new Date(checkpoint.createdAt).toLocaleTimeString()}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-body-small text-black-alpha-48">
+                      {next ? `Next: ${next}` : "End of run"}
+                    </p>
+                  </button>
+
+                  {isSelected && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: "auto" }}
+                      className="mt-8 p-12 rounded-8 border border-border-faint space-y-12"
+                    >
+                      <div>
+                        <label className="block text-label-small text-black-alpha-48 mb-6">
+                          Variables
+                        </label>
+                        <textarea
+                          value={variablesText}
+                          onChange={(e) => {
+                            setVariablesText(e.target.value);
+                            setVariablesError(null);
+                          }}
+                          rows={8}
+                          spellCheck={false}
+                          className="w-full px-12 py-8 bg-background-base border border-border-faint rounded-8 text-body-small text-accent-black font-mono focus:outline-none focus:border-heat-100 transition-colors"
+                        />
+                        {variablesError && (
+                          <p className="text-body-small text-accent-black mt-4">{variablesError}</p>
+                        )}
+                      </div>
+
+                      <details>
+                        <summary className="cursor-pointer text-label-small text-black-alpha-48">
+                          Full state
+                        </summary>
+                        <pre className="mt-8 bg-black-alpha-8 rounded-8 p-12 border border-border-faint text-body-small text-accent-black whitespace-pre-wrap overflow-auto max-h-300 font-mono">
+                          {JSON.stringify(checkpoint.state, null, 2)}
+                        </pre>
+                      </details>
+
+                      <button
+                        onClick={handleFork}
+                        disabled={disabled || checkpoint.next.length === 0}
+                        className="w-full px-16 py-10 bg-accent-black hover:bg-black-alpha-80 text-white rounded-8 text-body-small font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Fork Run From Here
+                      </button>
+                    </motion.div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import type { ContextStrategy } from "@/lib/workflow/types";
+
+export interface ContextBudgetSettings {
+  contextStrategy?: ContextStrategy;
+  contextTokenLimit?: string;
+}
+
+interface ContextBudgetFieldsProps {
+  value: { contextStrategy?: ContextStrategy; contextTokenLimit?: number | string };
+  onChange: (settings: ContextBudgetSettings) => void;
+}
+
+const STRATEGY_OPTIONS: Array<{ value: ContextStrategy; label: string }> = [
+  { value: "truncate-tail", label: "Keep the beginning" },
+  { value: "truncate-head", label: "Keep the end" },
+  { value: "map-reduce", label: "Extract relevant parts of each chunk" },
+  { value: "summarize", label: "Summarize the overflow" },
+];
+
+/**
+ * How an LLM node fits variables too large for the model's context window
+ */
+export default function ContextBudgetFields({ value, onChange }: ContextBudgetFieldsProps) {
+  const contextTokenLimit = value.contextTokenLimit === undefined ? undefined : String(value.contextTokenLimit);
+
+  return (
+    <div className="space-y-8">
+      <select
+        value={value.contextStrategy || "truncate-tail"}
+        onChange={(e) => onChange({ contextStrategy: e.target.value as ContextStrategy, contextTokenLimit })}
+        className="w-full px-12 py-8 bg-background-base border border-border-faint rounded-8 text-body-small text-accent-black focus:outline-none focus:border-heat-100 transition-colors appearance-none cursor-pointer"
+      >
+        {STRATEGY_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <input
+        type="number"
+        min={1}
+        step={1000}
+        value={contextTokenLimit ?? ""}
+        onChange={(e) => onChange({ contextStrategy: value.contextStrategy, contextTokenLimit: e.target.value || undefined })}
+        placeholder="Token limit (defaults to the model's context window)"
+        className="w-full px-12 py-8 bg-background-base border border-border-faint rounded-8 text-body-small text-accent-black focus:outline-none focus:border-heat-100 transition-colors"
+      />
+      <p className="text-body-small text-black-alpha-48">
+        Applies when substituted variables don&apos;t fit the model&apos;s context. Extracting and summarizing make extra calls to the same model. The node result shows a warning whenever content was reduced.
+      </p>
+    </div>
+  );
+}
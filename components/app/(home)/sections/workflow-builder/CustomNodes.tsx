@@ -4,12 +4,22 @@ import * as React from "react";
 import { Handle, Position } from "@xyflow/react";
 import type { NodeProps } from "@xyflow/react";
 import type { ReactNode } from "react";
+import { parseTimeoutMinutes, TIMEOUT_HANDLE } from "@/lib/workflow/timeouts";
+import { getPinnedOutput } from "@/lib/workflow/pinned-outputs";
+import { FOR_EACH_DONE_HANDLE, FOR_EACH_ITEM_HANDLE } from "@/lib/workflow/for-each";
+import { getSwitchCases, SWITCH_DEFAULT_HANDLE } from "@/lib/workflow/switch";
+import { ERROR_HANDLE } from "@/lib/workflow/error-branches";
 
 // Custom node component with handles for connections
 export function CustomNode({ data, selected }: NodeProps) {
   const nodeType = data.nodeType;
   const isRunning = data.isRunning;
   const executionStatus = data.executionStatus;
+  const hasTimeout = parseTimeoutMinutes((data as any).timeoutMinutes) !== undefined;
+  const isPinned = !!getPinnedOutput(data as any);
+  const switchCases = nodeType === 'switch' ? getSwitchCases(data as any) : [];
+  const validationIssues: Array<{ severity: 'error' | 'warning'; message: string }> = (data as any).validationIssues || [];
+  const hasValidationError = validationIssues.some(issue => issue.severity === 'error');
 
   // Note node state - MUST be declared before any conditional returns
   // This ensures hooks are called in the same order every render
@@ -24,7 +34,7 @@ export function CustomNode({ data, selected }: NodeProps) {
     if (nodeType === 'note') return 'none';
     if (isRunning) return '1px solid #FA5D19';
     if (executionStatus === 'completed') return '1px solid #9ca3af';
-    if (executionStatus === 'failed') return '1px solid #eb3424';
+    if (executionStatus === 'failed' || executionStatus === 'timeout') return '1px solid #eb3424';
     if (selected) return '1px solid #FA5D19';
     return '1px solid #e5e7eb';
   };
@@ -48,7 +58,7 @@ export function CustomNode({ data, selected }: NodeProps) {
   // Determine text color based on background
   const getTextColor = () => {
     if (isNoteNode) return '#854d0e'; // Dark yellow text for note nodes
-    if (nodeType === 'if-else' || nodeType === 'while') {
+    if (nodeType === 'if-else' || nodeType === 'while' || nodeType === 'for-each' || nodeType === 'merge' || nodeType === 'switch') {
       return '#18181b'; // Dark text for orange background nodes
     }
     return '#18181b'; // Default dark text
@@ -184,6 +194,8 @@ export function CustomNode({ data, selected }: NodeProps) {
         minWidth: '140px',
         maxWidth: '240px',
         width: 'fit-content',
+        // Room for one output handle per switch case plus default
+        minHeight: nodeType === 'switch' ? `${(switchCases.length + 1) * 20 + 20}px` : undefined,
       }}
     >
       {/* Input handle (left) - all nodes except 'start' and 'note' */}
@@ -209,6 +221,50 @@ export function CustomNode({ data, selected }: NodeProps) {
         {data.label as ReactNode}
       </div>
 
+      {/* Pinned output badge - test-mode runs use the pinned output */}
+      {isPinned && (
+        <div
+          title="Pinned output (used in test mode)"
+          style={{
+            position: 'absolute',
+            top: -8,
+            right: 10,
+            padding: '0 6px',
+            borderRadius: '6px',
+            background: '#FA5D19',
+            color: 'white',
+            fontSize: '10px',
+            fontWeight: 600,
+            lineHeight: '16px',
+          }}
+        >
+          Pinned
+        </div>
+      )}
+
+      {/* Static analysis badge - hover for the messages */}
+      {validationIssues.length > 0 && (
+        <div
+          title={validationIssues.map(issue => issue.message).join('\n')}
+          style={{
+            position: 'absolute',
+            top: -8,
+            left: 10,
+            padding: '0 6px',
+            borderRadius: '6px',
+            background: hasValidationError ? '#eb3424' : '#f59e0b',
+            color: 'white',
+            fontSize: '10px',
+            fontWeight: 600,
+            lineHeight: '16px',
+            cursor: 'help',
+          }}
+        >
+          {hasValidationError ? 'Error' : 'Warning'}
+          {validationIssues.length > 1 ? ` ×${validationIssues.length}` : ''}
+        </div>
+      )}
+
       {/* Output handles - special cases for branching nodes */}
       {nodeType === 'if-else' ? (
         <>
@@ -314,6 +370,94 @@ export function CustomNode({ data, selected }: NodeProps) {
             fontWeight: 600,
           }}>Reject</div>
         </>
+      ) : nodeType === 'switch' ? (
+        <>
+          {/* One branch per case, then default - spaced evenly down the right edge */}
+          {[...switchCases.map(c => ({ id: c.id, label: c.label, color: '#FA5D19' })), { id: SWITCH_DEFAULT_HANDLE, label: 'Default', color: '#18181b' }].map((branch, index, branches) => {
+            const top = `${((index + 1) / (branches.length + 1)) * 100}%`;
+            return (
+              <React.Fragment key={branch.id}>
+                <Handle
+                  type="source"
+                  position={Position.Right}
+                  id={branch.id}
+                  style={{
+                    width: 10,
+                    height: 10,
+                    background: branch.color,
+                    border: '2px solid white',
+                    right: -5,
+                    top,
+                    transform: 'translateY(-50%)',
+                  }}
+                />
+                <div style={{
+                  position: 'absolute',
+                  top,
+                  left: '100%',
+                  marginLeft: 10,
+                  transform: 'translateY(-50%)',
+                  fontSize: '10px',
+                  color: branch.color,
+                  fontWeight: 600,
+                  whiteSpace: 'nowrap',
+                }}>{branch.label}</div>
+              </React.Fragment>
+            );
+          })}
+        </>
+      ) : nodeType === 'for-each' ? (
+        <>
+          {/* Body branch (top) - runs once per item and loops back */}
+          <Handle
+            type="source"
+            position={Position.Right}
+            id={FOR_EACH_ITEM_HANDLE}
+            style={{
+              width: 10,
+              height: 10,
+              background: '#FA5D19',
+              border: '2px solid white',
+              right: -5,
+              top: '35%',
+              transform: 'translateY(-50%)',
+            }}
+          />
+          {/* Done branch (bottom) - continues with the collected results */}
+          <Handle
+            type="source"
+            position={Position.Right}
+            id={FOR_EACH_DONE_HANDLE}
+            style={{
+              width: 10,
+              height: 10,
+              background: '#18181b',
+              border: '2px solid white',
+              right: -5,
+              top: '65%',
+              transform: 'translateY(-50%)',
+            }}
+          />
+          {/* Branch labels */}
+          <div style={{
+            position: 'absolute',
+            top: '35%',
+            right: -70,
+            transform: 'translateY(-50%)',
+            fontSize: '10px',
+            color: '#FA5D19',
+            fontWeight: 600,
+          }}>Each item</div>
+          <div style={{
+            position: 'absolute',
+            top: '65%',
+            right: -50,
+            transform: 'translateY(-50%)',
+            fontSize: '10px',
+            color: '#18181b',
+            fontWeight: 600,
+          }}>Done</div>
+        </>
       ) : nodeType === 'while' ? (
         <>
           {/* Continue branch (top) */}
@@ -367,21 +511,80 @@ export function CustomNode({ data, selected }: NodeProps) {
           }}>Break</div>
         </>
       ) : nodeType !== 'end' && nodeType !== 'note' ? (
-        <Handle
-          type="source"
-          position={Position.Right}
-          id="output"
-          style={{
-            width: 10,
-            height: 10,
-            background: '#9ca3af',
-            border: '2px solid white',
-            right: -5,
-            top: '50%',
-            transform: 'translateY(-50%)',
-          }}
-        />
+        <>
+          <Handle
+            type="source"
+            position={Position.Right}
+            id="output"
+            style={{
+              width: 10,
+              height: 10,
+              background: '#9ca3af',
+              border: '2px solid white',
+              right: -5,
+              top: '50%',
+              transform: 'translateY(-50%)',
+            }}
+          />
+          {/* Timeout branch (bottom) - only when the node has a time limit */}
+          {hasTimeout && nodeType !== 'start' && (
+            <>
+              <Handle
+                type="source"
+                position={Position.Bottom}
+                id={TIMEOUT_HANDLE}
+                style={{
+                  width: 10,
+                  height: 10,
+                  background: '#eb3424',
+                  border: '2px solid white',
+                  bottom: -5,
+                  left: '50%',
+                  transform: 'translateX(-50%)',
+                }}
+              />
+              <div style={{
+                position: 'absolute',
+                bottom: -22,
+                left: '50%',
+                transform: 'translateX(-50%)',
+                fontSize: '10px',
+                color: '#eb3424',
+                fontWeight: 600,
+              }}>Timeout</div>
+            </>
+          )}
+        </>
       ) : null}
+
+      {/* Error branch (bottom right) - failures route here instead of stopping the run */}
+      {nodeType !== 'start' && nodeType !== 'end' && nodeType !== 'note' && (
+        <>
+          <Handle
+            type="source"
+            position={Position.Bottom}
+            id={ERROR_HANDLE}
+            style={{
+              width: 10,
+              height: 10,
+              background: '#eb3424',
+              border: '2px solid white',
+              bottom: -5,
+              left: '80%',
+              transform: 'translateX(-50%)',
+            }}
+          />
+          <div style={{
+            position: 'absolute',
+            bottom: -22,
+            left: '80%',
+            transform: 'translateX(-50%)',
+            fontSize: '10px',
+            color: '#eb3424',
+            fontWeight: 600,
+          }}>Error</div>
+        </>
+      )}
     </div>
   );
 }
@@ -400,6 +603,10 @@ export const nodeTypes = {
   transform: CustomNode,
   'if-else': CustomNode,
   'while': CustomNode,
+  'for-each': CustomNode,
+  'merge': CustomNode,
+  'switch': CustomNode,
+  'sub-workflow': CustomNode,
   'user-approval': CustomNode,
   'set-state': CustomNode,
 };
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import type { Workflow, WorkflowLogEntry, WorkflowLogLevel } from "@/lib/workflow/types";
+
+interface ExecutionLogsProps {
+  workflow: Workflow | null;
+  logs: WorkflowLogEntry[];
+}
+
+const LEVELS: WorkflowLogLevel[] = ["debug", "info", "warn", "error"];
+
+const levelStyles: Record<WorkflowLogLevel, string> = {
+  debug: "bg-black-alpha-4 text-black-alpha-48",
+  info: "bg-black-alpha-8 text-accent-black",
+  warn: "bg-amber-100 text-amber-700",
+  error: "bg-heat-8 text-heat-100",
+};
+
+export default function ExecutionLogs({ workflow, logs }: ExecutionLogsProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [minLevel, setMinLevel] = useState<WorkflowLogLevel>("info");
+  const [nodeFilter, setNodeFilter] = useState<string>("");
+  const [copied, setCopied] = useState(false);
+
+  const getNodeName = (nodeId: string) => {
+    const node = workflow?.nodes.find((n) => n.id === nodeId);
+    const data = node?.data as any;
+    return data?.nodeName || data?.label || nodeId;
+  };
+
+  const nodeIds = Array.from(new Set(logs.map((entry) => entry.nodeId).filter((id): id is string => !!id)));
+  const visible = logs.filter((entry) =>
+    LEVELS.indexOf(entry.level) >= LEVELS.indexOf(minLevel) &&
+    (!nodeFilter || entry.nodeId === nodeFilter)
+  );
+  const problemCount = logs.filter((entry) => entry.level === "warn" || entry.level === "error").length;
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(visible.map((entry) => JSON.stringify(entry)).join("\n"));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="mt-24 rounded-12 border border-border-faint bg-accent-white">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between p-16 text-left"
+      >
+        <div>
+          <h3 className="text-label-medium font-medium text-accent-black">Logs</h3>
+          <p className="text-body-small text-black-alpha-48">
+            {logs.length} {logs.length === 1 ? "entry" : "entries"}
+            {problemCount > 0 && ` · ${problemCount} ${problemCount === 1 ? "warning or error" : "warnings or errors"}`}
+            {" · API keys and tokens are redacted"}
+          </p>
+        </div>
+        <svg
+          className={`w-16 h-16 text-black-alpha-48 transition-transform ${expanded ? "rotate-180" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {expanded && (
+        <div className="px-16 pb-16 space-y-12 border-t border-border-faint pt-12">
+          <div className="flex flex-wrap items-center gap-8">
+            <div className="flex rounded-6 border border-border-faint overflow-hidden">
+              {LEVELS.map((level) => (
+                <button
+                  key={level}
+                  onClick={() => setMinLevel(level)}
+                  className={`px-8 py-4 text-body-small transition-colors ${
+                    minLevel === level ? "bg-accent-black text-white" : "bg-background-base text-accent-black hover:bg-black-alpha-4"
+                  }`}
+                  title={`Show ${level} and above`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+            {nodeIds.length > 0 && (
+              <select
+                value={nodeFilter}
+                onChange={(e) => setNodeFilter(e.target.value)}
+                className="px-8 py-4 bg-background-base border border-border-faint rounded-6 text-body-small text-accent-black focus:outline-none focus:border-heat-100"
+              >
+                <option value="">All nodes</option>
+                {nodeIds.map((nodeId) => (
+                  <option key={nodeId} value={nodeId}>{getNodeName(nodeId)}</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={handleCopy}
+              disabled={visible.length === 0}
+              className="ml-auto px-8 py-4 bg-background-base hover:bg-black-alpha-4 border border-border-faint rounded-6 text-body-small text-accent-black transition-colors disabled:opacity-50"
+            >
+              {copied ? "Copied" : "Copy"}
+            </button>
+          </div>
+
+          {visible.length === 0 ? (
+            <p className="text-body-small text-black-alpha-48">
+              {logs.length === 0 ? "No log entries yet" : "No entries match the filters"}
+            </p>
+          ) : (
+            <div className="max-h-300 overflow-y-auto space-y-4 font-mono">
+              {visible.map((entry, index) => (
+                <div key={`${entry.timestamp}-${index}`} className="text-body-small">
+                  <div className="flex items-start gap-8">
+                    <span className="text-black-alpha-48 flex-shrink-0">
+                      {new Date(entry.timestamp).toLocaleTimeString()}
+                    </span>
+                    <span className={`px-4 rounded-4 uppercase flex-shrink-0 ${levelStyles[entry.level]}`}>
+                      {entry.level}
+                    </span>
+                    {entry.nodeId && (
+                      <span className="text-black-alpha-64 flex-shrink-0">{getNodeName(entry.nodeId)}</span>
+                    )}
+                    <span className="text-accent-black break-words min-w-0">{entry.message}</span>
+                  </div>
+                  {entry.data !== undefined && (
+                    <details className="ml-8 mt-2">
+                      <summary className="cursor-pointer text-black-alpha-48">data</summary>
+                      <pre className="mt-4 p-8 bg-background-base border border-border-faint rounded-6 whitespace-pre-wrap overflow-auto max-h-200">
+                        {typeof entry.data === "string" ? entry.data : JSON.stringify(entry.data, null, 2)}
+                      </pre>
+                    </details>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
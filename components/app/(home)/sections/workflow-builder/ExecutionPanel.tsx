@@ -2,7 +2,7 @@
 
 import { motion, AnimatePresence } from "framer-motion";
 import { useState, useEffect, useCallback } from "react";
-import { Workflow, WorkflowExecution, NodeExecutionResult, WorkflowPendingAuth } from "@/lib/workflow/types";
+import { Workflow, WorkflowExecution, NodeExecutionResult, WorkflowPendingAuth, WorkflowForkRequest, WorkflowLogEntry } from "@/lib/workflow/types";
 import { toast } from "sonner";
 import {
   Bot,
@@ -17,8 +17,16 @@ import {
   StopCircle,
   Zap,
   FileText,
+  ListOrdered,
+  GitMerge,
+  Split,
+  Workflow as WorkflowIcon,
 } from "lucide-react";
 import Button from "@/components/shared/button/Button";
+import CheckpointTimeline from "./CheckpointTimeline";
+import ExecutionLogs from "./ExecutionLogs";
+import StreamingOutput from "./StreamingOutput";
+import { getPinnedOutput } from "@/lib/workflow/pinned-outputs";
 
 interface ExecutionPanelProps {
   workflow: Workflow | null;
@@ -31,6 +39,11 @@ interface ExecutionPanelProps {
   onClose: () => void;
   environment: 'draft' | 'production';
   pendingAuth: WorkflowPendingAuth | null;
+  logs?: WorkflowLogEntry[];
+  streamingOutputs?: Record<string, string>; // Node ID -> agent output generated so far
+  onFork?: (fork: WorkflowForkRequest) => void;
+  testMode?: boolean;
+  onTestModeChange?: (testMode: boolean) => void;
 }
 
 const getNodeIcon = (nodeType: string) => {
@@ -40,6 +53,10 @@ const getNodeIcon = (nodeType: string) => {
     'firecrawl': Zap,
     'if-else': GitBranch,
     'while': Repeat,
+    'for-each': ListOrdered,
+    'merge': GitMerge,
+    'switch': Split,
+    'sub-workflow': WorkflowIcon,
     'user-approval': CheckCircle,
     'transform': Braces,
     'file-search': Search,
@@ -57,6 +74,10 @@ const getNodeColor = (nodeType: string) => {
     'firecrawl': 'bg-black-alpha-12',
     'if-else': 'bg-amber-500',
     'while': 'bg-cyan-500',
+    'for-each': 'bg-cyan-500',
+    'merge': 'bg-amber-500',
+    'switch': 'bg-amber-500',
+    'sub-workflow': 'bg-blue-500',
     'user-approval': 'bg-gray-400',
     'transform': 'bg-violet-500',
     'file-search': 'bg-indigo-500',
@@ -78,6 +99,11 @@ export default function ExecutionPanel({
   onClose,
   environment,
   pendingAuth,
+  logs = [],
+  streamingOutputs = {},
+  onFork,
+  testMode = false,
+  onTestModeChange,
 }: ExecutionPanelProps) {
   
   // Track Google Doc creation for toast notifications
@@ -268,6 +294,8 @@ export default function ExecutionPanel({
     setTimeout(() => setCopiedAll(false), 2000);
   };
 
+  const pinnedNodeCount = workflow?.nodes.filter((node) => getPinnedOutput(node.data)).length ?? 0;
+
   const handleRun = useCallback(() => {
     const input = inputVariables.length > 0
       ? JSON.stringify(inputValues)
@@ -641,6 +669,25 @@ export default function ExecutionPanel({
                 </div>
               )}
 
+              {onTestModeChange && (
+                <label className="mb-16 flex items-start gap-8 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={testMode}
+                    onChange={(e) => onTestModeChange(e.target.checked)}
+                    className="mt-2 w-16 h-16 rounded border-border-faint text-heat-100 focus:ring-heat-100"
+                  />
+                  <span>
+                    <span className="block text-label-small text-accent-black">Test mode</span>
+                    <span className="block text-body-small text-black-alpha-48">
+                      {pinnedNodeCount > 0
+                        ? `${pinnedNodeCount} pinned ${pinnedNodeCount === 1 ? 'node returns its' : 'nodes return their'} pinned output instead of calling the service`
+                        : 'No nodes have a pinned output yet. Pin one from its node panel.'}
+                    </span>
+                  </span>
+                </label>
+              )}
+
               <button
                 onClick={handleRun}
                 disabled={hasMissingRequiredInputs}
@@ -690,7 +737,7 @@ export default function ExecutionPanel({
               </div>
 
               {/* Node Execution Results */}
-              {isRunning && Object.keys(nodeResults).length === 0 ? (
+              {isRunning && Object.keys(nodeResults).length === 0 && !Object.values(streamingOutputs).some(Boolean) ? (
                 <div className="text-center py-32">
                   <div className="w-48 h-48 mx-auto mb-16 bg-black-alpha-4 border border-border-faint rounded-full flex items-center justify-center">
                     <svg className="w-24 h-24 text-black-alpha-48 animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -709,7 +756,17 @@ export default function ExecutionPanel({
                     const NodeIcon = getNodeIcon(nodeType);
                     const nodeColor = getNodeColor(nodeType);
                     const isActive = currentNodeId === nodeId && result.status === 'running';
-                    const statusLabel = result.status === 'pending-authorization' ? 'Awaiting authorization' : result.status;
+                    const statusLabel = result.status === 'pending-authorization'
+                      ? 'Awaiting authorization'
+                      : result.status === 'retrying'
+                      ? `Retrying (attempt ${(result.attempt ?? 1) + 1}/${result.maxAttempts ?? '?'})`
+                      : result.status === 'timeout'
+                      ? 'Timed out'
+                      : result.status === 'completed' && result.pinned
+                      ? 'completed (pinned)'
+                      : result.status === 'running' && (result.attempt ?? 1) > 1
+                      ? `running (attempt ${result.attempt}/${result.maxAttempts})`
+                      : result.status;
 
                     return (
                       <motion.div
@@ -749,7 +806,7 @@ export default function ExecutionPanel({
                                 </svg>
                               </div>
                             )}
-                            {result.status === 'failed' && (
+                            {(result.status === 'failed' || result.status === 'timeout') && (
                               <div className="w-16 h-16 bg-black-alpha-40 rounded-full flex items-center justify-center">
                                 <svg className="w-10 h-10 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -783,7 +840,7 @@ export default function ExecutionPanel({
                             {result.status !== 'completed' && (
                               <span className={`text-body-small px-8 py-4 rounded-6 border ${
                                 result.status === 'running' ? 'bg-accent-white text-black-alpha-64 border-border-faint' :
-                                result.status === 'failed' ? 'bg-accent-white text-accent-black border-border-faint' :
+                                result.status === 'failed' || result.status === 'timeout' ? 'bg-accent-white text-accent-black border-border-faint' :
                                 'bg-accent-white text-gray-600 border-gray-200'
                               }`}>
                                 {statusLabel}
@@ -914,7 +971,7 @@ export default function ExecutionPanel({
                                           <span className="text-body-small font-medium text-accent-black">
                                             {call.name || `Tool ${index + 1}`}
                                           </span>
-                                          <span className="text-xs text-black-alpha-32">#{index + 1}</span>
+                                          <span className="text-xs text-black-alpha-32">{call.step ? `Step ${call.step} · ` : ''}#{index + 1}</span>
                                         </div>
                                         {call.arguments && (
                                           <div className="mb-6">
@@ -1032,6 +1089,25 @@ export default function ExecutionPanel({
                           </div>
                         )}
 
+                        {/* Model that served an agent response */}
+                        {result.model && (
+                          <p className="mt-12 text-body-small text-black-alpha-48">
+                            Model: <span className="font-mono text-accent-black">{result.model}</span>
+                            {(nodeData?.fallbackModels || []).includes(result.model) && ' (fallback)'}
+                          </p>
+                        )}
+
+                        {/* Warnings, e.g. inputs reduced to fit the model's context */}
+                        {result.warnings && result.warnings.length > 0 && (
+                          <div className="mt-12 p-12 bg-heat-4 border border-heat-100 rounded-8 space-y-4">
+                            {result.warnings.map((warning, index) => (
+                              <p key={index} className="text-body-small text-accent-black">
+                                {warning}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+
                         {/* Node Output */}
                         {result.output && !result.error && (
                           <div className="mt-12">
@@ -1134,6 +1210,12 @@ export default function ExecutionPanel({
                             })()}
                           </div>
                         )}
+
+                        {/* Agent output so far */}
+                        {result.status === 'running' && streamingOutputs[nodeId] && (
+                          <StreamingOutput text={streamingOutputs[nodeId]} />
+                        )}
+
                         {/* MCP Tool Calls */}
                         {result.toolCalls && result.toolCalls.length > 0 && (
                           <div className="mt-12">
@@ -1150,7 +1232,7 @@ export default function ExecutionPanel({
                                     <span className="text-body-small font-medium text-accent-black">
                                       {call.name || `Tool ${index + 1}`}
                                     </span>
-                                    <span className="text-body-small text-black-alpha-32">#{index + 1}</span>
+                                    <span className="text-body-small text-black-alpha-32">{call.step ? `Step ${call.step} · ` : ''}#{index + 1}</span>
                                   </div>
                                   {call.arguments && (
                                     <div className="mb-8">
@@ -1198,8 +1280,38 @@ export default function ExecutionPanel({
                     );
                   })}
 
+                  {/* Agents generating output before their first result arrives */}
+                  {isRunning && Object.entries(streamingOutputs)
+                    .filter(([nodeId, text]) => text && !nodeResults[nodeId])
+                    .map(([nodeId, text]) => {
+                      const node = workflow?.nodes.find(n => n.id === nodeId);
+                      const nodeData = node?.data as any;
+                      const nodeName = nodeData?.nodeName || nodeData?.label || 'Node';
+                      const nodeType = nodeData?.nodeType || node?.type || 'agent';
+                      const NodeIcon = getNodeIcon(nodeType);
+
+                      return (
+                        <motion.div
+                          key={`streaming-${nodeId}`}
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          className="rounded-12 p-16 border border-border-faint bg-accent-white shadow-sm"
+                        >
+                          <div className="flex items-center gap-8">
+                            <div className={`w-20 h-20 rounded-3 ${getNodeColor(nodeType)} flex items-center justify-center flex-shrink-0`}>
+                              <NodeIcon className="w-12 h-12 text-white" strokeWidth={2.5} />
+                            </div>
+                            <h3 className="text-label-medium font-medium text-accent-black">
+                              {typeof nodeName === 'string' ? nodeName : 'Node'}
+                            </h3>
+                          </div>
+                          <StreamingOutput text={text} />
+                        </motion.div>
+                      );
+                    })}
+
                   {/* Workflow Error */}
-                  {execution?.status === 'failed' && execution?.error && (
+                  {(execution?.status === 'failed' || execution?.status === 'timeout') && execution?.error && (
                     <motion.div
                       initial={{ opacity: 0, scale: 0.95 }}
                       animate={{ opacity: 1, scale: 1 }}
@@ -1211,7 +1323,9 @@ export default function ExecutionPanel({
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                           </svg>
                         </div>
-                        <h3 className="text-label-large text-accent-black font-medium">Workflow Failed</h3>
+                        <h3 className="text-label-large text-accent-black font-medium">
+                          {execution.status === 'timeout' ? 'Workflow Timed Out' : 'Workflow Failed'}
+                        </h3>
                       </div>
                       <div className="mb-12">
                         <div className="flex items-center justify-between mb-6">
@@ -1252,6 +1366,33 @@ export default function ExecutionPanel({
                     </motion.div>
                   )}
 
+                  {/* Cancelled */}
+                  {execution?.status === 'cancelled' && (
+                    <motion.div
+                      initial={{ opacity: 0, scale: 0.95 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      className="mt-24 p-20 bg-accent-white rounded-12 border border-border-faint"
+                    >
+                      <div className="flex items-center gap-12 mb-12">
+                        <div className="w-32 h-32 bg-black-alpha-12 rounded-full flex items-center justify-center">
+                          <svg className="w-18 h-18 text-black-alpha-64" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                          </svg>
+                        </div>
+                        <h3 className="text-label-large text-accent-black font-medium">Workflow Cancelled</h3>
+                      </div>
+                      <p className="text-body-small text-black-alpha-64">
+                        {execution.error || 'Execution was stopped before it finished'}
+                      </p>
+                      <button
+                        onClick={handleReset}
+                        className="mt-16 w-full px-16 py-10 bg-accent-black hover:bg-black-alpha-80 text-white rounded-8 text-body-small font-medium transition-colors"
+                      >
+                        Run Again
+                      </button>
+                    </motion.div>
+                  )}
+
                   {/* Final Result */}
                   {execution?.status === 'completed' && (
                     <motion.div
@@ -1278,6 +1419,22 @@ export default function ExecutionPanel({
                       </button>
                     </motion.div>
                   )}
+
+                  {/* Server logs for this run */}
+                  {logs.length > 0 && (
+                    <ExecutionLogs workflow={workflow} logs={logs} />
+                  )}
+
+                  {/* Checkpoint Timeline */}
+                  {execution && !isRunning && onFork && (
+                    <CheckpointTimeline
+                      key={execution.id}
+                      workflow={workflow}
+                      executionId={execution.id}
+                      disabled={isRunning}
+                      onFork={onFork}
+                    />
+                  )}
                 </div>
               )}
             </div>
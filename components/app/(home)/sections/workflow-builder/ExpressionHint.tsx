@@ -0,0 +1,23 @@
+"use client";
+
+import { getExpressionError } from "@/lib/workflow/expressions";
+
+interface ExpressionHintProps {
+  expression?: string;
+  hint?: string;
+  className?: string;
+}
+
+/**
+ * Help text under an expression field, replaced by the parse error while the expression is invalid
+ */
+export default function ExpressionHint({ expression, hint, className = "mt-8" }: ExpressionHintProps) {
+  const error = expression?.trim() ? getExpressionError(expression) : null;
+  if (!error && !hint) return null;
+
+  return (
+    <p className={`text-body-small ${error ? "text-red-600" : "text-black-alpha-48"} ${className}`}>
+      {error || hint}
+    </p>
+  );
+}
@@ -2,6 +2,10 @@
 
 import { motion, AnimatePresence } from "framer-motion";
 import { useState, useEffect } from "react";
+import RetryPolicySection from "./RetryPolicySection";
+import NodeTimeoutField from "./NodeTimeoutField";
+import ContextBudgetFields, { type ContextBudgetSettings } from "./ContextBudgetFields";
+import PinnedOutputSection from "./PinnedOutputSection";
 
 interface ExtractNodePanelProps {
   nodeData: any;
@@ -30,6 +34,13 @@ export default function ExtractNodePanel({
     }, null, 2)
   );
   const [schemaError, setSchemaError] = useState('');
+  const [retry, setRetry] = useState(nodeData?.retry);
+  const [timeoutMinutes, setTimeoutMinutes] = useState<string | undefined>(nodeData?.timeoutMinutes);
+  const [contextBudget, setContextBudget] = useState<ContextBudgetSettings>({
+    contextStrategy: nodeData?.contextStrategy,
+    contextTokenLimit: nodeData?.contextTokenLimit,
+  });
+  const [pinned, setPinned] = useState({ pinOutput: !!nodeData?.pinOutput, pinnedOutput: nodeData?.pinnedOutput });
 
   // Validate JSON schema
   useEffect(() => {
@@ -47,8 +58,12 @@ export default function ExtractNodePanel({
       model,
       jsonSchema,
       nodeType: 'extract',
+      retry,
+      timeoutMinutes,
+      ...contextBudget,
+      ...pinned,
     });
-  }, [instructions, model, jsonSchema, nodeData?.id, onUpdate]);
+  }, [instructions, model, jsonSchema, retry, timeoutMinutes, contextBudget, pinned, nodeData?.id, onUpdate]);
 
   return (
     <AnimatePresence>
@@ -193,6 +208,38 @@ export default function ExtractNodePanel({
             )}
           </div>
 
+          {/* Context Budget */}
+          <div>
+            <label className="block text-label-small text-black-alpha-48 mb-8">
+              When input is too long
+            </label>
+            <ContextBudgetFields value={contextBudget} onChange={setContextBudget} />
+          </div>
+
+          {/* Timeout */}
+          <div>
+            <label className="block text-label-small text-black-alpha-48 mb-8">
+              Timeout (minutes)
+            </label>
+            <NodeTimeoutField value={timeoutMinutes} onChange={setTimeoutMinutes} />
+          </div>
+
+          {/* Retry Policy */}
+          <div>
+            <label className="block text-label-small text-black-alpha-48 mb-8">
+              Retry Policy
+            </label>
+            <RetryPolicySection value={retry} onChange={setRetry} />
+          </div>
+
+          {/* Pinned Output */}
+          <div>
+            <label className="block text-label-small text-black-alpha-48 mb-8">
+              Pinned Output
+            </label>
+            <PinnedOutputSection pinOutput={pinned.pinOutput} value={pinned.pinnedOutput} onChange={setPinned} />
+          </div>
+
           {/* Info Box */}
           <div className="p-16 bg-accent-white rounded-12 border border-border-faint">
             <p className="text-body-small text-accent-black">
@@ -0,0 +1,65 @@
+"use client";
+
+import { X } from "lucide-react";
+
+interface FallbackModelsFieldProps {
+  value?: string[];
+  onChange: (fallbackModels: string[] | undefined) => void;
+  modelOptions: Array<{ provider: string; models: Array<{ id: string; name: string }> }>;
+}
+
+/**
+ * Models an agent node moves to, in order, when its model's provider fails
+ */
+export default function FallbackModelsField({ value, onChange, modelOptions }: FallbackModelsFieldProps) {
+  const fallbackModels = value || [];
+
+  const update = (next: string[]) => onChange(next.length > 0 ? next : undefined);
+
+  return (
+    <div className="space-y-8">
+      {fallbackModels.map((fallbackModel, index) => (
+        <div key={index} className="flex items-center gap-8">
+          <span className="text-body-small text-black-alpha-48 w-16 text-right">{index + 1}.</span>
+          <input
+            type="text"
+            value={fallbackModel}
+            onChange={(e) => update(fallbackModels.map((m, i) => (i === index ? e.target.value : m)))}
+            placeholder="provider/model-name"
+            className="flex-1 px-12 py-8 bg-background-base border border-border-faint rounded-8 text-body-small text-accent-black placeholder-black-alpha-32 font-mono focus:outline-none focus:border-heat-100 transition-colors"
+          />
+          <button
+            type="button"
+            onClick={() => update(fallbackModels.filter((_, i) => i !== index))}
+            className="p-6 rounded-6 text-black-alpha-48 hover:text-accent-black hover:bg-black-alpha-4 transition-colors"
+            title="Remove fallback model"
+          >
+            <X className="w-14 h-14" />
+          </button>
+        </div>
+      ))}
+      <select
+        value=""
+        onChange={(e) => update([...fallbackModels, e.target.value === "custom" ? "" : e.target.value])}
+        className="w-full px-12 py-8 bg-background-base border border-border-faint rounded-8 text-body-small text-accent-black focus:outline-none focus:border-heat-100 transition-colors appearance-none cursor-pointer"
+      >
+        <option value="" disabled>
+          Add a fallback model...
+        </option>
+        {modelOptions.map((provider) => (
+          <optgroup key={provider.provider} label={provider.provider}>
+            {provider.models.map((modelOption) => (
+              <option key={modelOption.id} value={modelOption.id}>
+                {modelOption.name}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+        <option value="custom">Custom model...</option>
+      </select>
+      <p className="text-body-small text-black-alpha-48">
+        Tried in order when the model&apos;s provider fails (overloaded, rate limited, down). The node result shows which model answered.
+      </p>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import { motion, AnimatePresence } from "framer-motion";
 import { useState, useEffect } from "react";
 import type { Node } from "@xyflow/react";
 import VariableReferencePicker from "./VariableReferencePicker";
+import RetryPolicySection from "./RetryPolicySection";
+import NodeTimeoutField from "./NodeTimeoutField";
+import PinnedOutputSection from "./PinnedOutputSection";
 
 interface HTTPNodePanelProps {
   node: Node | null;
@@ -30,6 +33,9 @@ export default function HTTPNodePanel({ node, nodes, onClose, onDelete, onUpdate
   const [authType, setAuthType] = useState(nodeData?.httpAuthType || "none");
   const [authToken, setAuthToken] = useState(nodeData?.httpAuthToken || "");
   const [showAuthToken, setShowAuthToken] = useState(false);
+  const [retry, setRetry] = useState(nodeData?.retry);
+  const [timeoutMinutes, setTimeoutMinutes] = useState<string | undefined>(nodeData?.timeoutMinutes);
+  const [pinned, setPinned] = useState({ pinOutput: !!nodeData?.pinOutput, pinnedOutput: nodeData?.pinnedOutput });
 
   // Auto-save
   useEffect(() => {
@@ -43,11 +49,14 @@ export default function HTTPNodePanel({ node, nodes, onClose, onDelete, onUpdate
         httpBody: body,
         httpAuthType: authType,
         httpAuthToken: authToken,
+        retry,
+        timeoutMinutes,
+        ...pinned,
       });
     }, 500);
 
     return () => clearTimeout(timeoutId);
-  }, [url, method, headers, body, authType, authToken, node, onUpdate]);
+  }, [url, method, headers, body, authType, authToken, retry, timeoutMinutes, pinned, node, onUpdate]);
 
   const addHeader = () => {
     setHeaders([...headers, { key: "", value: "" }]);
@@ -285,6 +294,30 @@ export default function HTTPNodePanel({ node, nodes, onClose, onDelete, onUpdate
               </div>
             )}
 
+            {/* Timeout */}
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">
+                Timeout (minutes)
+              </label>
+              <NodeTimeoutField value={timeoutMinutes} onChange={setTimeoutMinutes} />
+            </div>
+
+            {/* Retry Policy */}
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">
+                Retry Policy
+              </label>
+              <RetryPolicySection value={retry} onChange={setRetry} />
+            </div>
+
+            {/* Pinned Output */}
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">
+                Pinned Output
+              </label>
+              <PinnedOutputSection pinOutput={pinned.pinOutput} value={pinned.pinnedOutput} onChange={setPinned} />
+            </div>
+
             {/* Quick Examples */}
             <details className="group">
               <summary className="cursor-pointer text-body-small text-heat-100 hover:text-heat-200 transition-colors">
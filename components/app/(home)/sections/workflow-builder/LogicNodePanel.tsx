@@ -3,6 +3,11 @@
 import { motion, AnimatePresence } from "framer-motion";
 import { useState, useEffect, useRef } from "react";
 import type { Node } from "@xyflow/react";
+import { DEFAULT_FOR_EACH_CONCURRENCY } from "@/lib/workflow/for-each";
+import { MERGE_STRATEGIES, normalizeMergeStrategy } from "@/lib/workflow/merge";
+import { createSwitchCase, getSwitchCases } from "@/lib/workflow/switch";
+import type { SwitchCase } from "@/lib/workflow/types";
+import ExpressionHint from "./ExpressionHint";
 
 interface LogicNodePanelProps {
   node: Node | null;
@@ -23,10 +28,23 @@ export default function LogicNodePanel({ node, nodes, onClose, onDelete, onUpdat
   // If/Else state
   const [condition, setCondition] = useState(nodeData?.condition || "input.score > 70");
 
+  // Switch state
+  const [switchCases, setSwitchCases] = useState<SwitchCase[]>(() => {
+    const cases = getSwitchCases(nodeData);
+    return cases.length > 0 ? cases : [createSwitchCase(0)];
+  });
+
   // While state
   const [whileCondition, setWhileCondition] = useState(nodeData?.whileCondition || "iteration < 10");
   const [maxIterations, setMaxIterations] = useState(nodeData?.maxIterations || "100");
 
+  // For-each state
+  const [forEachItems, setForEachItems] = useState(nodeData?.forEachItems || "lastOutput");
+  const [forEachConcurrency, setForEachConcurrency] = useState(nodeData?.forEachConcurrency ?? String(DEFAULT_FOR_EACH_CONCURRENCY));
+
+  // Merge state
+  const [mergeStrategy, setMergeStrategy] = useState(normalizeMergeStrategy(nodeData?.mergeStrategy));
+
   // User Approval state
   const [approvalMessage, setApprovalMessage] = useState(nodeData?.approvalMessage || "Please review and approve this step");
   const [timeoutMinutes, setTimeoutMinutes] = useState(nodeData?.timeoutMinutes || "30");
@@ -53,6 +71,8 @@ export default function LogicNodePanel({ node, nodes, onClose, onDelete, onUpdat
       special: [
         { name: 'lastOutput', path: 'lastOutput', description: 'Output from previous node' },
         { name: 'iteration', path: 'iteration', description: 'Current iteration count (while loops only)' },
+        { name: 'item', path: 'state.variables.item', description: 'Current item (inside a for-each body)' },
+        { name: 'index', path: 'state.variables.index', description: 'Current item index (inside a for-each body)' },
       ]
     };
   };
@@ -104,18 +124,26 @@ export default function LogicNodePanel({ node, nodes, onClose, onDelete, onUpdat
         name,
         nodeName: name,
         condition,
+        switchCases,
         whileCondition,
         maxIterations,
+        forEachItems,
+        forEachConcurrency,
+        mergeStrategy,
         approvalMessage,
         timeoutMinutes,
       });
     }, 500);
 
     return () => clearTimeout(timeoutId);
-  }, [name, condition, whileCondition, maxIterations, approvalMessage, timeoutMinutes]);
+  }, [name, condition, switchCases, whileCondition, maxIterations, forEachItems, forEachConcurrency, mergeStrategy, approvalMessage, timeoutMinutes]);
 
   const availableVars = getAvailableVariables();
 
+  const updateSwitchCase = (caseId: string, changes: Partial<SwitchCase>) => {
+    setSwitchCases(cases => cases.map(c => (c.id === caseId ? { ...c, ...changes } : c)));
+  };
+
   return (
     <AnimatePresence>
       {node && (
@@ -158,7 +186,10 @@ export default function LogicNodePanel({ node, nodes, onClose, onDelete, onUpdat
             </div>
             <p className="text-sm text-black-alpha-48">
               {nodeType.includes('if') ? 'Create conditions to branch your workflow' :
+               nodeType === 'switch' ? 'Route to the first case whose condition is true' :
                nodeType.includes('while') ? 'Loop while a condition is true' :
+               nodeType === 'for-each' ? 'Run a branch once for every item in a list' :
+               nodeType === 'merge' ? 'Combine parallel branches into one output' :
                nodeType.includes('approval') ? 'Pause for a human to approve or reject a step' :
                'Configure logic flow'}
             </p>
@@ -181,9 +212,7 @@ export default function LogicNodePanel({ node, nodes, onClose, onDelete, onUpdat
                     placeholder="e.g., input.score > 70"
                     className="w-full px-12 py-10 bg-background-base border border-border-faint rounded-8 text-body-medium text-accent-black font-mono focus:outline-none focus:border-heat-100 transition-colors resize-none"
                   />
-                  <p className="text-body-small text-black-alpha-48 mt-8">
-                    JavaScript expression that returns true/false
-                  </p>
+                  <ExpressionHint expression={condition} hint="Expression that returns true/false (comparisons, && || !, len(), contains(), ...)" />
                 </div>
 
                 {/* Quick Variable Selector */}
@@ -302,6 +331,132 @@ export default function LogicNodePanel({ node, nodes, onClose, onDelete, onUpdat
               </>
             )}
 
+            {/* For-Each Configuration */}
+            {nodeType === 'for-each' && (
+              <>
+                <div>
+                  <label className="block text-label-small text-black-alpha-48 mb-8">
+                    Items
+                  </label>
+                  <textarea
+                    value={forEachItems}
+                    onChange={(e) => setForEachItems(e.target.value)}
+                    rows={3}
+                    placeholder="e.g., lastOutput.companies"
+                    className="w-full px-12 py-10 bg-background-base border border-border-faint rounded-8 text-body-medium text-accent-black font-mono focus:outline-none focus:border-heat-100 transition-colors resize-none"
+                  />
+                  <ExpressionHint expression={forEachItems} hint="Expression that returns an array (input, lastOutput and state are available)" />
+                </div>
+
+                <div>
+                  <label className="block text-label-small text-black-alpha-48 mb-8">
+                    Concurrency
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={forEachConcurrency}
+                    onChange={(e) => setForEachConcurrency(e.target.value)}
+                    className="w-full px-12 py-10 bg-background-base border border-border-faint rounded-8 text-body-medium text-accent-black focus:outline-none focus:border-heat-100 transition-colors"
+                  />
+                  <p className="text-body-small text-black-alpha-48 mt-8">
+                    How many items run at the same time (max 20)
+                  </p>
+                </div>
+
+                <div className="p-16 bg-heat-4 rounded-12 border border-heat-100">
+                  <h3 className="text-label-small text-accent-black mb-8">How it works</h3>
+                  <p className="text-body-small text-heat-100">
+                    Connect the &quot;Each item&quot; handle to the nodes that process one item and loop the last of them back to this node. Inside that branch, {"{{item}}"} and {"{{index}}"} hold the current item. When every item is done, the &quot;Done&quot; branch receives an ordered list with each item&apos;s output or error.
+                  </p>
+                </div>
+              </>
+            )}
+
+            {/* Switch Configuration */}
+            {nodeType === 'switch' && (
+              <>
+                {switchCases.map((switchCase, index) => (
+                  <div key={switchCase.id} className="p-12 bg-background-base border border-border-faint rounded-8 space-y-8">
+                    <div className="flex items-center gap-8">
+                      <input
+                        type="text"
+                        value={switchCase.label}
+                        onChange={(e) => updateSwitchCase(switchCase.id, { label: e.target.value })}
+                        placeholder={`Case ${index + 1}`}
+                        className="flex-1 px-12 py-8 bg-accent-white border border-border-faint rounded-8 text-body-small text-accent-black focus:outline-none focus:border-heat-100 transition-colors"
+                      />
+                      <button
+                        onClick={() => setSwitchCases(cases => cases.filter(c => c.id !== switchCase.id))}
+                        disabled={switchCases.length === 1}
+                        className="w-32 h-32 rounded-6 hover:bg-black-alpha-4 transition-colors flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed"
+                        title="Remove case"
+                      >
+                        <svg className="w-14 h-14 text-black-alpha-48" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                    <textarea
+                      value={switchCase.expression}
+                      onChange={(e) => updateSwitchCase(switchCase.id, { expression: e.target.value })}
+                      rows={2}
+                      placeholder="e.g., lastOutput.category === 'finance'"
+                      className="w-full px-12 py-8 bg-accent-white border border-border-faint rounded-8 text-body-small text-accent-black font-mono focus:outline-none focus:border-heat-100 transition-colors resize-none"
+                    />
+                    <ExpressionHint expression={switchCase.expression} className="mt-4" />
+                  </div>
+                ))}
+
+                <button
+                  onClick={() => setSwitchCases(cases => [...cases, createSwitchCase(cases.length)])}
+                  className="w-full px-12 py-8 border border-dashed border-border-faint rounded-8 text-body-small text-black-alpha-64 hover:border-heat-100 hover:text-heat-100 transition-colors"
+                >
+                  + Add case
+                </button>
+
+                <div className="p-16 bg-heat-4 rounded-12 border border-heat-100">
+                  <h3 className="text-label-small text-accent-black mb-8">How it works</h3>
+                  <p className="text-body-small text-heat-100">
+                    Each case gets its own output handle. Conditions are expressions (input, lastOutput and state are available) checked from top to bottom, and the first one that is true wins. When none match, the &quot;Default&quot; handle is used.
+                  </p>
+                </div>
+              </>
+            )}
+
+            {/* Merge Configuration */}
+            {nodeType === 'merge' && (
+              <>
+                <div>
+                  <label className="block text-label-small text-black-alpha-48 mb-8">
+                    Strategy
+                  </label>
+                  <select
+                    value={mergeStrategy}
+                    onChange={(e) => setMergeStrategy(normalizeMergeStrategy(e.target.value))}
+                    className="w-full px-12 py-10 bg-accent-white border border-border-faint rounded-8 text-body-medium text-accent-black focus:outline-none focus:border-heat-100 transition-colors"
+                  >
+                    {MERGE_STRATEGIES.map((strategy) => (
+                      <option key={strategy.value} value={strategy.value}>
+                        {strategy.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-body-small text-black-alpha-48 mt-8">
+                    {MERGE_STRATEGIES.find((strategy) => strategy.value === mergeStrategy)?.description}
+                  </p>
+                </div>
+
+                <div className="p-16 bg-heat-4 rounded-12 border border-heat-100">
+                  <h3 className="text-label-small text-accent-black mb-8">How it works</h3>
+                  <p className="text-body-small text-heat-100">
+                    Connect every parallel branch to this node. It waits until the branches it needs have finished, then passes the combined output on as {"{{lastOutput}}"}. Branches are read in the order they were connected, so the result doesn&apos;t depend on which one finished last.
+                  </p>
+                </div>
+              </>
+            )}
+
             {/* While Configuration */}
             {nodeType.includes('while') && (
               <>
@@ -317,9 +472,7 @@ export default function LogicNodePanel({ node, nodes, onClose, onDelete, onUpdat
                     placeholder="e.g., iteration < 10"
                     className="w-full px-12 py-10 bg-background-base border border-border-faint rounded-8 text-body-medium text-accent-black font-mono focus:outline-none focus:border-heat-100 transition-colors resize-none"
                   />
-                  <p className="text-body-small text-black-alpha-48 mt-8">
-                    JavaScript expression that returns true/false
-                  </p>
+                  <ExpressionHint expression={whileCondition} hint="Expression that returns true/false (iteration is the current pass)" />
                 </div>
 
                 {/* Quick Variable Selector */}
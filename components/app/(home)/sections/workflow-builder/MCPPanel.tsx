@@ -8,6 +8,9 @@ import { toast } from "sonner";
 import { useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { useUser } from "@clerk/nextjs";
+import RetryPolicySection from "./RetryPolicySection";
+import NodeTimeoutField from "./NodeTimeoutField";
+import PinnedOutputSection from "./PinnedOutputSection";
 
 interface MCPPanelProps {
   node: Node | null;
@@ -40,6 +43,9 @@ export default function MCPPanel({
   });
 
   const [showDetails, setShowDetails] = useState(false);
+  const [retry, setRetry] = useState(nodeData?.retry);
+  const [timeoutMinutes, setTimeoutMinutes] = useState<string | undefined>(nodeData?.timeoutMinutes);
+  const [pinned, setPinned] = useState({ pinOutput: !!nodeData?.pinOutput, pinnedOutput: nodeData?.pinnedOutput });
   const selectedServer = mcpServers?.find(s => s._id === selectedServerId);
 
   // Auto-save selected server ID (only in configure mode)
@@ -50,6 +56,9 @@ export default function MCPPanel({
       try {
         onUpdate(node.id, {
           mcpServerId: selectedServerId,
+          retry,
+          timeoutMinutes,
+          ...pinned,
         });
       } catch (error) {
         console.error('Error saving MCP server selection:', error);
@@ -60,7 +69,7 @@ export default function MCPPanel({
     }, 500);
 
     return () => clearTimeout(timeoutId);
-  }, [selectedServerId, node, onUpdate, mode]);
+  }, [selectedServerId, retry, timeoutMinutes, pinned, node, onUpdate, mode]);
 
   const getCategoryIcon = (category: string) => {
     switch (category) {
@@ -247,6 +256,36 @@ export default function MCPPanel({
               )}
             </div>
 
+            {/* Timeout */}
+            {mode === 'configure' && (
+              <div className="pt-16 border-t border-border-faint">
+                <label className="block text-sm font-medium text-black-alpha-48 mb-8">
+                  Timeout (minutes)
+                </label>
+                <NodeTimeoutField value={timeoutMinutes} onChange={setTimeoutMinutes} />
+              </div>
+            )}
+
+            {/* Retry Policy */}
+            {mode === 'configure' && (
+              <div className="pt-16 border-t border-border-faint">
+                <label className="block text-sm font-medium text-black-alpha-48 mb-8">
+                  Retry Policy
+                </label>
+                <RetryPolicySection value={retry} onChange={setRetry} />
+              </div>
+            )}
+
+            {/* Pinned Output */}
+            {mode === 'configure' && (
+              <div className="pt-16 border-t border-border-faint">
+                <label className="block text-sm font-medium text-black-alpha-48 mb-8">
+                  Pinned Output
+                </label>
+                <PinnedOutputSection pinOutput={pinned.pinOutput} value={pinned.pinnedOutput} onChange={setPinned} />
+              </div>
+            )}
+
             {/* Add New Server Link */}
             <div className="pt-16 border-t border-border-faint">
               <p className="text-xs text-black-alpha-48 mb-8">
@@ -10,6 +10,12 @@ import { api } from "@/convex/_generated/api";
 import { useUser } from "@clerk/nextjs";
 import { Id } from "@/convex/_generated/dataModel";
 import FirecrawlLogo from "@/components/icons/FirecrawlLogo";
+import RetryPolicySection from "./RetryPolicySection";
+import PinnedOutputSection from "./PinnedOutputSection";
+import { isPinnableNodeType } from "@/lib/workflow/pinned-outputs";
+import NodeTimeoutField from "./NodeTimeoutField";
+import ContextBudgetFields from "./ContextBudgetFields";
+import FallbackModelsField from "./FallbackModelsField";
 
 interface NodePanelProps {
   nodeData: {
@@ -1076,7 +1082,73 @@ export default function NodePanel({
 
               {showAdvanced && (
                 <div className="space-y-16 pt-16 border-t border-border-faint">
-                  {/* Advanced settings section - reserved for future options */}
+                  <div>
+                    <label className="block text-sm font-medium text-black-alpha-48 mb-8">
+                      Fallback models
+                    </label>
+                    <FallbackModelsField
+                      value={nodes?.find((n) => n.id === nodeData?.id)?.data?.fallbackModels}
+                      onChange={(fallbackModels) => onUpdate(nodeData?.id || "", { fallbackModels })}
+                      modelOptions={getAvailableModels()}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-black-alpha-48 mb-8">
+                      Max steps
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={nodes?.find((n) => n.id === nodeData?.id)?.data?.maxSteps ?? ""}
+                      onChange={(e) => onUpdate(nodeData?.id || "", { maxSteps: e.target.value || undefined })}
+                      placeholder="5"
+                      className="w-full px-12 py-8 bg-background-base border border-border-faint rounded-8 text-body-small text-accent-black focus:outline-none focus:border-heat-100 transition-colors"
+                    />
+                    <p className="text-body-small text-black-alpha-48 mt-6">
+                      Model calls per run. Tool results go back to the model until it answers; the last step must answer. 1 disables tools.
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-black-alpha-48 mb-8">
+                      When input is too long
+                    </label>
+                    <ContextBudgetFields
+                      value={nodes?.find((n) => n.id === nodeData?.id)?.data || {}}
+                      onChange={(settings) => onUpdate(nodeData?.id || "", settings)}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-black-alpha-48 mb-8">
+                      Timeout (minutes)
+                    </label>
+                    <NodeTimeoutField
+                      value={nodes?.find((n) => n.id === nodeData?.id)?.data?.timeoutMinutes}
+                      onChange={(timeoutMinutes) => onUpdate(nodeData?.id || "", { timeoutMinutes })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-black-alpha-48 mb-8">
+                      Retry Policy
+                    </label>
+                    <RetryPolicySection
+                      value={nodes?.find((n) => n.id === nodeData?.id)?.data?.retry}
+                      onChange={(retry) => onUpdate(nodeData?.id || "", { retry })}
+                    />
+                  </div>
+                  {isPinnableNodeType(nodeData?.type) && (
+                    <div>
+                      <label className="block text-sm font-medium text-black-alpha-48 mb-8">
+                        Pinned Output
+                      </label>
+                      <PinnedOutputSection
+                        key={nodeData?.id}
+                        pinOutput={nodes?.find((n) => n.id === nodeData?.id)?.data?.pinOutput}
+                        value={nodes?.find((n) => n.id === nodeData?.id)?.data?.pinnedOutput}
+                        onChange={(pinned) => onUpdate(nodeData?.id || "", pinned)}
+                      />
+                    </div>
+                  )}
                 </div>
               )}
             </details>
@@ -0,0 +1,25 @@
+"use client";
+
+interface NodeTimeoutFieldProps {
+  value?: number | string;
+  onChange: (timeoutMinutes: string | undefined) => void;
+}
+
+export default function NodeTimeoutField({ value, onChange }: NodeTimeoutFieldProps) {
+  return (
+    <div>
+      <input
+        type="number"
+        min={0}
+        step={0.5}
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        placeholder="No limit"
+        className="w-full px-12 py-8 bg-background-base border border-border-faint rounded-8 text-body-small text-accent-black focus:outline-none focus:border-heat-100 transition-colors"
+      />
+      <p className="text-body-small text-black-alpha-48 mt-6">
+        Minutes per attempt. Connect the Timeout handle to continue on another branch instead of failing the run.
+      </p>
+    </div>
+  );
+}
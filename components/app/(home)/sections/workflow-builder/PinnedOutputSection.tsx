@@ -0,0 +1,47 @@
+"use client";
+
+import { useState } from "react";
+import { formatPinnedOutput, parsePinnedOutput } from "@/lib/workflow/pinned-outputs";
+
+interface PinnedOutputSectionProps {
+  pinOutput?: boolean;
+  value?: any;
+  onChange: (changes: { pinOutput: boolean; pinnedOutput: any }) => void;
+}
+
+export default function PinnedOutputSection({ pinOutput = false, value, onChange }: PinnedOutputSectionProps) {
+  const [text, setText] = useState(() => formatPinnedOutput(value));
+
+  return (
+    <div className="space-y-12">
+      <label className="flex items-center gap-8 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={pinOutput}
+          onChange={(e) => onChange({ pinOutput: e.target.checked, pinnedOutput: parsePinnedOutput(text) })}
+          className="w-16 h-16 rounded-4 border border-border-faint text-heat-100 focus:ring-heat-100"
+        />
+        <span className="text-body-small text-accent-black">Pin output for test runs</span>
+      </label>
+
+      {pinOutput && (
+        <div>
+          <textarea
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              onChange({ pinOutput, pinnedOutput: parsePinnedOutput(e.target.value) });
+            }}
+            rows={6}
+            spellCheck={false}
+            placeholder='{"result": "..."} or plain text'
+            className="w-full px-12 py-8 bg-background-base border border-border-faint rounded-8 text-body-small text-accent-black font-mono focus:outline-none focus:border-heat-100 transition-colors"
+          />
+          <p className="text-body-small text-black-alpha-48 mt-6">
+            Runs started in test mode return this instead of calling the service. JSON is parsed, anything else is used as text.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import type { NodeRetryPolicy } from "@/lib/workflow/types";
+import { DEFAULT_RETRY_POLICY, RETRYABLE_ERROR_CODES } from "@/lib/workflow/retry";
+
+interface RetryPolicySectionProps {
+  value?: NodeRetryPolicy;
+  onChange: (policy: NodeRetryPolicy | undefined) => void;
+}
+
+const inputClassName = "w-full px-12 py-8 bg-background-base border border-border-faint rounded-8 text-body-small text-accent-black focus:outline-none focus:border-heat-100 transition-colors";
+
+export default function RetryPolicySection({ value, onChange }: RetryPolicySectionProps) {
+  const enabled = !!value && value.maxAttempts > 1;
+  const policy = { ...DEFAULT_RETRY_POLICY, ...value };
+
+  const update = (changes: Partial<NodeRetryPolicy>) => {
+    onChange({ ...policy, ...changes });
+  };
+
+  const toggleRetryOn = (code: string, checked: boolean) => {
+    update({
+      retryOn: checked
+        ? [...policy.retryOn, code]
+        : policy.retryOn.filter((c) => c !== code),
+    });
+  };
+
+  return (
+    <div className="space-y-12">
+      <label className="flex items-center gap-8 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onChange(e.target.checked ? { ...policy, maxAttempts: 3 } : undefined)}
+          className="w-16 h-16 rounded-4 border border-border-faint text-heat-100 focus:ring-heat-100"
+        />
+        <span className="text-body-small text-accent-black">Retry on transient errors</span>
+      </label>
+
+      {enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-8">
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">
+                Max Attempts
+              </label>
+              <input
+                type="number"
+                min={2}
+                max={10}
+                value={policy.maxAttempts}
+                onChange={(e) => update({ maxAttempts: Math.max(2, Number(e.target.value) || 2) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">
+                Backoff
+              </label>
+              <select
+                value={policy.backoff}
+                onChange={(e) => update({ backoff: e.target.value as NodeRetryPolicy['backoff'] })}
+                className={inputClassName}
+              >
+                <option value="exponential">Exponential</option>
+                <option value="fixed">Fixed</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">
+                Initial Delay (ms)
+              </label>
+              <input
+                type="number"
+                min={0}
+                step={100}
+                value={policy.initialDelayMs}
+                onChange={(e) => update({ initialDelayMs: Math.max(0, Number(e.target.value) || 0) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">
+                Max Delay (ms)
+              </label>
+              <input
+                type="number"
+                min={0}
+                step={1000}
+                value={policy.maxDelayMs}
+                onChange={(e) => update({ maxDelayMs: Math.max(0, Number(e.target.value) || 0) })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-8 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={policy.jitter}
+              onChange={(e) => update({ jitter: e.target.checked })}
+              className="w-16 h-16 rounded-4 border border-border-faint text-heat-100 focus:ring-heat-100"
+            />
+            <span className="text-body-small text-accent-black">Add jitter</span>
+          </label>
+
+          <div>
+            <label className="block text-label-small text-black-alpha-48 mb-8">
+              Retry On
+            </label>
+            <div className="space-y-6">
+              {RETRYABLE_ERROR_CODES.map(({ code, label }) => (
+                <label key={code} className="flex items-center gap-8 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={policy.retryOn.includes(code)}
+                    onChange={(e) => toggleRetryOn(code, e.target.checked)}
+                    className="w-16 h-16 rounded-4 border border-border-faint text-heat-100 focus:ring-heat-100"
+                  />
+                  <span className="text-body-small text-accent-black">{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
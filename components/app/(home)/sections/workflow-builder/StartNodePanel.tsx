@@ -3,6 +3,7 @@
 import { motion, AnimatePresence } from "framer-motion";
 import { useState, useEffect } from "react";
 import type { Node } from "@xyflow/react";
+import type { WorkflowSettings } from "@/lib/workflow/types";
 
 interface InputVariable {
   name: string;
@@ -16,9 +17,11 @@ interface StartNodePanelProps {
   node: Node | null;
   onClose: () => void;
   onUpdate: (nodeId: string, data: any) => void;
+  settings?: WorkflowSettings;
+  onUpdateSettings?: (settings: WorkflowSettings) => void;
 }
 
-export default function StartNodePanel({ node, onClose, onUpdate }: StartNodePanelProps) {
+export default function StartNodePanel({ node, onClose, onUpdate, settings, onUpdateSettings }: StartNodePanelProps) {
   const nodeData = node?.data as any;
   const [inputVariables, setInputVariables] = useState<InputVariable[]>(
     nodeData?.inputVariables || [
@@ -211,6 +214,27 @@ export default function StartNodePanel({ node, onClose, onUpdate }: StartNodePan
               </div>
             </div>
 
+            {/* Run Settings */}
+            {onUpdateSettings && (
+              <div>
+                <h3 className="text-sm font-medium text-accent-black mb-12">
+                  Run timeout (minutes)
+                </h3>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={settings?.timeoutMinutes ?? ""}
+                  onChange={(e) => onUpdateSettings({ ...settings, timeoutMinutes: e.target.value || undefined })}
+                  placeholder="No limit"
+                  className="w-full px-12 py-8 bg-accent-white border border-border-faint rounded-8 text-sm text-accent-black focus:outline-none focus:border-heat-100 transition-colors"
+                />
+                <p className="text-xs text-black-alpha-48 mt-6">
+                  Stops the whole run once it exceeds this limit. Time spent waiting for approval doesn&apos;t count.
+                </p>
+              </div>
+            )}
+
             {/* Help Text */}
             <div className="p-16 bg-heat-4 border border-heat-100 rounded-12">
               <h4 className="text-sm font-medium text-accent-black mb-8">Input Variables</h4>
@@ -0,0 +1,35 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+interface StreamingOutputProps {
+  text: string;
+}
+
+/**
+ * Agent output while the node is still generating it (node_token events)
+ */
+export default function StreamingOutput({ text }: StreamingOutputProps) {
+  const scrollRef = useRef<HTMLPreElement>(null);
+
+  // Keep the newest tokens in view
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [text]);
+
+  return (
+    <div className="mt-12">
+      <p className="text-body-small text-black-alpha-48 mb-6 animate-pulse">Generating...</p>
+      <div className="bg-background-base rounded-8 p-12 border border-border-faint">
+        <pre
+          ref={scrollRef}
+          className="text-[11px] leading-relaxed text-accent-black whitespace-pre-wrap overflow-auto max-h-200 font-mono"
+        >
+          {text}
+        </pre>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { motion, AnimatePresence } from "framer-motion";
+import { useState, useEffect } from "react";
+import type { Node } from "@xyflow/react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import RetryPolicySection from "./RetryPolicySection";
+import NodeTimeoutField from "./NodeTimeoutField";
+import PinnedOutputSection from "./PinnedOutputSection";
+import ExpressionHint from "./ExpressionHint";
+
+interface SubWorkflowNodePanelProps {
+  node: Node | null;
+  workflowId?: string;
+  onClose: () => void;
+  onDelete: (nodeId: string) => void;
+  onUpdate: (nodeId: string, data: any) => void;
+}
+
+export default function SubWorkflowNodePanel({ node, workflowId, onClose, onDelete, onUpdate }: SubWorkflowNodePanelProps) {
+  const nodeData = node?.data as any;
+
+  const [name, setName] = useState(nodeData?.name || nodeData?.nodeName || "Sub-workflow");
+  const [subWorkflowId, setSubWorkflowId] = useState<string>(nodeData?.subWorkflowId || "");
+  const [inputMappings, setInputMappings] = useState<Record<string, string>>(nodeData?.subWorkflowInputs || {});
+  const [retry, setRetry] = useState(nodeData?.retry);
+  const [timeoutMinutes, setTimeoutMinutes] = useState<string | undefined>(nodeData?.timeoutMinutes);
+  const [pinned, setPinned] = useState({ pinOutput: !!nodeData?.pinOutput, pinnedOutput: nodeData?.pinnedOutput });
+
+  const workflows = useQuery(api.workflows.list, {});
+
+  // A workflow can't run itself
+  const availableWorkflows = (workflows || []).filter((w: any) => (w.customId || w._id) !== workflowId);
+  const selectedWorkflow = availableWorkflows.find((w: any) => (w.customId || w._id) === subWorkflowId);
+  const startNode = selectedWorkflow?.nodes?.find((n: any) => (n.data?.nodeType || n.type) === "start");
+  const inputVariables: any[] = startNode?.data?.inputVariables || [];
+
+  // Auto-save
+  useEffect(() => {
+    if (!node) return;
+
+    const timeoutId = setTimeout(() => {
+      onUpdate(node.id, {
+        name,
+        nodeName: name,
+        subWorkflowId,
+        subWorkflowInputs: inputMappings,
+        retry,
+        timeoutMinutes,
+        ...pinned,
+      });
+    }, 500);
+
+    return () => clearTimeout(timeoutId);
+  }, [name, subWorkflowId, inputMappings, retry, timeoutMinutes, pinned, node, onUpdate]);
+
+  return (
+    <AnimatePresence>
+      {node && (
+        <motion.aside
+          initial={{ x: 400, opacity: 0 }}
+          animate={{ x: 0, opacity: 1 }}
+          exit={{ x: 400, opacity: 0 }}
+          transition={{ duration: 0.3 }}
+          className="fixed right-20 top-80 h-[calc(100vh-100px)] w-[calc(100vw-240px)] max-w-480 bg-accent-white border border-border-faint shadow-lg overflow-y-auto z-50 rounded-16"
+        >
+          {/* Header */}
+          <div className="p-20 border-b border-border-faint">
+            <div className="flex items-center justify-between mb-8">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="text-label-large text-accent-black font-medium bg-transparent border-none outline-none focus:outline-none hover:bg-black-alpha-4 px-2 -ml-2 rounded-4 transition-colors"
+                placeholder="Enter node name..."
+              />
+              <div className="flex items-center gap-8">
+                <button
+                  onClick={() => onDelete(node?.id || '')}
+                  className="w-32 h-32 rounded-6 hover:bg-black-alpha-4 transition-colors flex items-center justify-center group"
+                  title="Delete node"
+                >
+                  <svg className="w-16 h-16 text-black-alpha-48 group-hover:text-black-alpha-64" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+                <button
+                  onClick={onClose}
+                  className="w-32 h-32 rounded-6 hover:bg-black-alpha-4 transition-colors flex items-center justify-center"
+                >
+                  <svg className="w-16 h-16 text-black-alpha-48" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+            <p className="text-sm text-black-alpha-48">
+              Run another saved workflow and use its End output
+            </p>
+          </div>
+
+          {/* Form Fields */}
+          <div className="p-16 space-y-16">
+            {/* Workflow */}
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">
+                Workflow
+              </label>
+              <select
+                value={subWorkflowId}
+                onChange={(e) => setSubWorkflowId(e.target.value)}
+                className="w-full px-12 py-10 bg-accent-white border border-border-faint rounded-8 text-body-medium text-accent-black focus:outline-none focus:border-heat-100 transition-colors"
+              >
+                <option value="">{workflows === undefined ? "Loading workflows..." : "Select a workflow"}</option>
+                {availableWorkflows.map((w: any) => (
+                  <option key={w._id} value={w.customId || w._id}>
+                    {w.name}
+                  </option>
+                ))}
+                {/* Keep a saved reference visible even if it isn't listed */}
+                {subWorkflowId && workflows !== undefined && !selectedWorkflow && (
+                  <option value={subWorkflowId}>{subWorkflowId} (not found)</option>
+                )}
+              </select>
+            </div>
+
+            {/* Input Mapping */}
+            {selectedWorkflow && (
+              <div>
+                <label className="block text-label-small text-black-alpha-48 mb-8">
+                  Inputs
+                </label>
+                {inputVariables.length === 0 ? (
+                  <p className="text-body-small text-black-alpha-48">
+                    This workflow has no input variables, so it receives this workflow&apos;s last output.
+                  </p>
+                ) : (
+                  <div className="space-y-8">
+                    {inputVariables.map((variable: any) => (
+                      <div key={variable.name}>
+                        <p className="text-body-small text-accent-black font-mono mb-4">
+                          {variable.name}
+                          {variable.required && <span className="text-heat-100"> *</span>}
+                        </p>
+                        <input
+                          type="text"
+                          value={inputMappings[variable.name] || ""}
+                          onChange={(e) => setInputMappings({ ...inputMappings, [variable.name]: e.target.value })}
+                          placeholder={`e.g., lastOutput.${variable.name}`}
+                          className="w-full px-12 py-8 bg-background-base border border-border-faint rounded-8 text-body-small text-accent-black font-mono focus:outline-none focus:border-heat-100 transition-colors"
+                        />
+                        <ExpressionHint expression={inputMappings[variable.name]} className="mt-4" />
+                      </div>
+                    ))}
+                    <p className="text-body-small text-black-alpha-48">
+                      Expressions (input, lastOutput and state are available). Empty inputs use input.&lt;name&gt;, then the variable&apos;s default.
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Timeout */}
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">
+                Timeout (minutes)
+              </label>
+              <NodeTimeoutField value={timeoutMinutes} onChange={setTimeoutMinutes} />
+            </div>
+
+            {/* Retry Policy */}
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">
+                Retry Policy
+              </label>
+              <RetryPolicySection value={retry} onChange={setRetry} />
+            </div>
+
+            {/* Pinned Output */}
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">
+                Pinned Output
+              </label>
+              <PinnedOutputSection pinOutput={pinned.pinOutput} value={pinned.pinnedOutput} onChange={setPinned} />
+            </div>
+
+            <div className="p-16 bg-heat-4 rounded-12 border border-heat-100">
+              <h3 className="text-label-small text-accent-black mb-8">How it works</h3>
+              <p className="text-body-small text-heat-100">
+                The selected workflow runs as part of this run and its End output becomes {"{{lastOutput}}"}. Approvals inside it pause this workflow until they are answered. Sub-workflows can be nested up to 5 levels and can&apos;t call themselves.
+              </p>
+            </div>
+          </div>
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+}
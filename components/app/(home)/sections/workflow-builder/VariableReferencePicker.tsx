@@ -104,12 +104,22 @@ export default function VariableReferencePicker({ nodes, currentNodeId, onSelect
       items: [
         { name: "input (full object)", path: "input", description: "All workflow inputs as object" },
         { name: "lastOutput", path: "lastOutput", description: "Output from previous node" },
+        { name: "error.message", path: "error.message", description: "Caught error message (on error branches)" },
+        { name: "error.code", path: "error.code", description: "Caught error code (on error branches)" },
       ],
     },
     {
       category: "Previous Nodes",
       items: nodeVariables,
     },
+    {
+      category: "Built-in",
+      items: [
+        { name: "now", path: "now", description: "Current time (ISO 8601)" },
+        { name: "uuid", path: "uuid", description: "A new random ID" },
+        { name: "env.NAME", path: "env.NAME", description: "Environment variable listed in WORKFLOW_TEMPLATE_ENV" },
+      ],
+    },
   ].filter(group => group.items.length > 0); // Remove empty groups
 
   const handleOpen = () => {
@@ -224,6 +234,9 @@ export default function VariableReferencePicker({ nodes, currentNodeId, onSelect
                 <p className="text-body-small text-black-alpha-48">
                   Click a variable to insert its reference
                 </p>
+                <p className="text-body-small text-black-alpha-48 mt-4">
+                  {'Add filters with |, e.g. {{lastOutput | json}} or {{x | default:"n/a"}}'}
+                </p>
               </div>
             </motion.div>
           </>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback, useRef, DragEvent, useState, useEffect } from "react";
+import { useCallback, useRef, DragEvent, useState, useEffect, useMemo } from "react";
 import { ErrorBoundary } from "@/components/shared/ErrorBoundary";
 import {
   ReactFlow,
@@ -23,6 +23,10 @@ import { motion } from "framer-motion";
 import {
   GitBranch,
   Repeat,
+  ListOrdered,
+  GitMerge,
+  Split,
+  Workflow as WorkflowIcon,
   CheckCircle,
   Braces,
   Search,
@@ -33,13 +37,16 @@ import {
   MoreHorizontal,
   Server,
   MousePointer2,
+  FlaskConical,
 } from "lucide-react";
 import NodePanel from "./NodePanel";
 import MCPPanel from "./MCPPanel";
 import PreviewPanel from "./PreviewPanel";
 import ExecutionPanel from "./ExecutionPanel";
 import TestEndpointPanel from "./TestEndpointPanel";
+import WorkflowTestsPanel from "./WorkflowTestsPanel";
 import LogicNodePanel from "./LogicNodePanel";
+import SubWorkflowNodePanel from "./SubWorkflowNodePanel";
 import DataNodePanel from "./DataNodePanel";
 import HTTPNodePanel from "./HTTPNodePanel";
 import ExtractNodePanel from "./ExtractNodePanel";
@@ -53,11 +60,12 @@ import ShareWorkflowModal from "./ShareWorkflowModal";
 import SaveAsTemplateModal from "./SaveAsTemplateModal";
 import { toast } from "sonner";
 import { useWorkflow } from "@/hooks/useWorkflow";
-import { useWorkflowExecution } from "@/hooks/useWorkflowExecution";
+import { useWorkflowExecution, type RunWorkflowOptions } from "@/hooks/useWorkflowExecution";
 import { getWorkflow } from "@/lib/workflow/storage";
 import type { WorkflowNode, WorkflowEdge } from "@/lib/workflow/types";
 import { nodeTypes } from "./CustomNodes";
 import { detectDuplicateCredentials } from "@/lib/workflow/duplicate-detection";
+import { analyzeWorkflow, groupIssuesByNode } from "@/lib/workflow/analyzer";
 import { cleanupInvalidEdges } from "@/lib/workflow/edge-cleanup";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
@@ -115,6 +123,12 @@ const nodeCategories = [
         color: "bg-blue-500",
         icon: MousePointer2,
       },
+      {
+        type: "sub-workflow",
+        label: "Sub-workflow",
+        color: "bg-blue-500",
+        icon: WorkflowIcon,
+      },
       { type: "end", label: "End", color: "bg-teal-500", icon: StopCircle },
       {
         type: "note",
@@ -144,12 +158,30 @@ const nodeCategories = [
         color: "bg-[#FEE7C2] dark:bg-[#FFAE2B]",
         icon: GitBranch,
       },
+      {
+        type: "switch",
+        label: "Switch",
+        color: "bg-[#FEE7C2] dark:bg-[#FFAE2B]",
+        icon: Split,
+      },
       {
         type: "while",
         label: "While",
         color: "bg-[#FEE7C2] dark:bg-[#FFAE2B]",
         icon: Repeat,
       },
+      {
+        type: "for-each",
+        label: "For each",
+        color: "bg-[#FEE7C2] dark:bg-[#FFAE2B]",
+        icon: ListOrdered,
+      },
+      {
+        type: "merge",
+        label: "Merge",
+        color: "bg-[#FEE7C2] dark:bg-[#FFAE2B]",
+        icon: GitMerge,
+      },
       {
         type: "user-approval",
         label: "User approval",
@@ -298,6 +330,8 @@ function WorkflowBuilderInner({
   const [showPreview, setShowPreview] = useState(false);
   const [showExecution, setShowExecution] = useState(false);
   const [showTestEndpoint, setShowTestEndpoint] = useState(false);
+  const [showTests, setShowTests] = useState(false);
+  const [testMode, setTestMode] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
   const [showComingSoonModal, setShowComingSoonModal] = useState(false);
@@ -360,6 +394,7 @@ function WorkflowBuilderInner({
   useEffect(() => {
     setEnvironment("draft");
     setShowTestEndpoint(false);
+    setShowTests(false);
   }, [workflow?.id]);
 
   const handleDuplicateWorkflow = useCallback(() => {
@@ -527,6 +562,9 @@ function WorkflowBuilderInner({
     execution,
     currentNodeId,
     pendingAuth,
+    threadId,
+    logs,
+    streamingOutputs,
     resumeWorkflow,
   } = useWorkflowExecution();
 
@@ -674,6 +712,9 @@ function WorkflowBuilderInner({
       if (
         nodeType === "if-else" ||
         nodeType === "while" ||
+        nodeType === "for-each" ||
+        nodeType === "merge" ||
+        nodeType === "switch" ||
         nodeType === "user-approval"
       ) {
         return "text-[#18181b]";
@@ -700,10 +741,14 @@ function WorkflowBuilderInner({
   const getNodeColor = (type: string): string => {
     const colorMap: Record<string, string> = {
       agent: "bg-blue-500",
+      "sub-workflow": "bg-blue-500",
       mcp: "bg-[#FFEFA4] dark:bg-[#FFDD40]",
       firecrawl: "bg-heat-100",
       "if-else": "bg-[#FEE7C2] dark:bg-[#FFAE2B]",
       while: "bg-[#FEE7C2] dark:bg-[#FFAE2B]",
+      "for-each": "bg-[#FEE7C2] dark:bg-[#FFAE2B]",
+      merge: "bg-[#FEE7C2] dark:bg-[#FFAE2B]",
+      switch: "bg-[#FEE7C2] dark:bg-[#FFAE2B]",
       "user-approval": "bg-[#E5E7EB] dark:bg-[#9CA3AF]",
       transform: "bg-[#ECE3FF] dark:bg-[#9665FF]",
       "set-state": "bg-[#ECE3FF] dark:bg-[#9665FF]",
@@ -733,6 +778,34 @@ function WorkflowBuilderInner({
     }
   }, [workflow?.nodes, workflow?.edges]);
 
+  // Static analysis issues, shown as badges on the canvas
+  const workflowNodes = workflow?.nodes;
+  const workflowEdges = workflow?.edges;
+  const issuesByNode = useMemo(
+    () => workflowNodes ? groupIssuesByNode(analyzeWorkflow({ nodes: workflowNodes, edges: workflowEdges || [] })) : {},
+    [workflowNodes, workflowEdges]
+  );
+
+  useEffect(() => {
+    setNodes((nds) =>
+      nds.map((node) => {
+        const issues = (issuesByNode[node.id] || []).map(({ severity, message }) => ({ severity, message }));
+        const current = (node.data as any)?.validationIssues || [];
+        if (JSON.stringify(current) === JSON.stringify(issues)) {
+          return node;
+        }
+
+        return {
+          ...node,
+          data: {
+            ...node.data,
+            validationIssues: issues,
+          },
+        };
+      })
+    );
+  }, [issuesByNode, setNodes]);
+
   useEffect(() => {
     setNodes((nds) =>
       nds.map((node) => {
@@ -943,6 +1016,7 @@ function WorkflowBuilderInner({
 
     setShowExecution(false);
     setShowTestEndpoint(false);
+    setShowTests(false);
     setShowPreview(false);
     setSelectedEdgeId(null);
     setSelectedNode(node);
@@ -1038,6 +1112,7 @@ function WorkflowBuilderInner({
   const handlePreview = useCallback(() => {
     setShowPreview(false);
     setShowTestEndpoint(false);
+    setShowTests(false);
     setSelectedNode(null);
     setShowExecution(true);
   }, []);
@@ -1163,7 +1238,7 @@ function WorkflowBuilderInner({
   ]);
 
   const handleRunWithInput = useCallback(
-    async (input: string) => {
+    async (input: string, options?: RunWorkflowOptions) => {
       if (!workflow) {
         console.error("No workflow to run");
         return;
@@ -1209,11 +1284,27 @@ function WorkflowBuilderInner({
         })) as any,
       };
 
-      await runWorkflow(currentWorkflow, input);
+      await runWorkflow(currentWorkflow, input, { testMode, streamTokens: true, ...options });
     },
-    [workflow, nodes, edges, runWorkflow, saveWorkflowImmediate]
+    [workflow, nodes, edges, runWorkflow, saveWorkflowImmediate, testMode]
   );
 
+  const handleContextMenuRunFromHere = useCallback(() => {
+    if (!contextMenu) return;
+    const nodeId = contextMenu.nodeId;
+    setContextMenu(null);
+
+    if (!threadId) {
+      toast.info("Run the workflow first", {
+        description: "Run from here reuses upstream outputs from the last run",
+      });
+      return;
+    }
+
+    handlePreview();
+    handleRunWithInput("", { fromNode: { nodeId, threadId } });
+  }, [contextMenu, threadId, handlePreview, handleRunWithInput]);
+
   const handleShowTestAPI = useCallback(() => {
     if (workflow) {
       saveWorkflow({
@@ -1230,10 +1321,36 @@ function WorkflowBuilderInner({
     }
     setShowPreview(false);
     setShowExecution(false);
+    setShowTests(false);
     setSelectedNode(null);
     setShowTestEndpoint(true);
   }, [workflow, nodes, edges, saveWorkflow]);
 
+  // Tests run the saved workflow, so canvas changes are saved first
+  const saveBeforeTests = useCallback(async () => {
+    if (!workflow) return false;
+    return !!(await saveWorkflowImmediate({
+      nodes: nodes.map((n) => ({
+        ...n,
+        type: n.type || "default",
+        data: {
+          ...n.data,
+          label: typeof n.data.label === "string" ? n.data.label : "Node",
+          nodeType: n.data.nodeType || n.type,
+        },
+      })) as any,
+      edges: edges as any,
+    }));
+  }, [workflow, nodes, edges, saveWorkflowImmediate]);
+
+  const handleShowTests = useCallback(() => {
+    setShowPreview(false);
+    setShowExecution(false);
+    setShowTestEndpoint(false);
+    setSelectedNode(null);
+    setShowTests(true);
+  }, []);
+
   const handleSaveWorkflow = useCallback(() => {
     if (!workflow) {
       toast.error("No workflow to save");
@@ -1554,6 +1671,18 @@ function WorkflowBuilderInner({
           </svg>
           Settings
         </button>
+        <button
+          onClick={handleShowTests}
+          className={`px-16 py-8 border rounded-8 text-body-medium transition-colors flex items-center gap-8 ${
+            showTests
+              ? "bg-heat-100 text-white border-heat-100"
+              : "bg-accent-white text-accent-black border-border-faint hover:bg-black-alpha-4"
+          }`}
+          title="Workflow tests"
+        >
+          <FlaskConical className="w-16 h-16" strokeWidth={2} />
+          Tests
+        </button>
         {environment === "production" && (
           <button
             onClick={handleShowTestAPI}
@@ -1756,7 +1885,23 @@ function WorkflowBuilderInner({
           />
         </motion.main>
 
-        {showTestEndpoint && workflow ? (
+        {showTests && workflow ? (
+          <WorkflowTestsPanel
+            key={workflow.id}
+            workflowId={workflow.id}
+            workflow={{
+              ...workflow,
+              nodes: nodes.map((n) => ({
+                id: n.id,
+                type: n.type,
+                position: n.position,
+                data: n.data,
+              })) as any,
+            }}
+            onSaveWorkflow={saveBeforeTests}
+            onClose={() => setShowTests(false)}
+          />
+        ) : showTestEndpoint && workflow ? (
           <TestEndpointPanel
             key={workflow.id}
             workflowId={workflow.id}
@@ -1796,6 +1941,11 @@ function WorkflowBuilderInner({
             onClose={() => setShowExecution(false)}
             environment={environment}
             pendingAuth={pendingAuth}
+            logs={logs}
+            streamingOutputs={streamingOutputs}
+            onFork={(fork) => handleRunWithInput("", { fork })}
+            testMode={testMode}
+            onTestModeChange={setTestMode}
           />
         ) : showPreview ? (
           <PreviewPanel
@@ -1811,8 +1961,19 @@ function WorkflowBuilderInner({
             onClose={() => setSelectedNode(null)}
             onUpdate={handleUpdateNodeData}
           />
+        ) : (selectedNode?.data as any)?.nodeType === "sub-workflow" ? (
+          <SubWorkflowNodePanel
+            node={selectedNode}
+            workflowId={workflow?.id}
+            onClose={() => setSelectedNode(null)}
+            onDelete={handleDeleteNode}
+            onUpdate={handleUpdateNodeData}
+          />
         ) : (selectedNode?.data as any)?.nodeType?.includes("if") ||
             (selectedNode?.data as any)?.nodeType?.includes("while") ||
+            (selectedNode?.data as any)?.nodeType === "for-each" ||
+            (selectedNode?.data as any)?.nodeType === "merge" ||
+            (selectedNode?.data as any)?.nodeType === "switch" ||
             (selectedNode?.data as any)?.nodeType?.includes("approval") ? (
           <LogicNodePanel
             node={selectedNode}
@@ -1860,6 +2021,8 @@ function WorkflowBuilderInner({
             node={selectedNode}
             onClose={() => setSelectedNode(null)}
             onUpdate={handleUpdateNodeData}
+            settings={workflow?.settings}
+            onUpdateSettings={(settings) => saveWorkflow({ settings })}
           />
         ) : (selectedNode?.data as any)?.nodeType !== "end" &&
             (selectedNode?.data as any)?.nodeType !== "note" &&
@@ -2107,6 +2270,28 @@ function WorkflowBuilderInner({
           }}
           className="bg-accent-white border border-border-faint rounded-8 shadow-lg overflow-hidden min-w-160"
         >
+          {(nodes.find((n) => n.id === contextMenu.nodeId)?.data as any)?.nodeType !== "note" && (
+            <button
+              onClick={handleContextMenuRunFromHere}
+              disabled={isRunning}
+              className="w-full px-16 py-10 text-left text-body-small text-accent-black hover:bg-black-alpha-4 transition-colors flex items-center gap-8 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <svg
+                className="w-14 h-14"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z"
+                />
+              </svg>
+              Run from here
+            </button>
+          )}
           <button
             onClick={handleContextMenuDuplicate}
             className="w-full px-16 py-10 text-left text-body-small text-accent-black hover:bg-black-alpha-4 transition-colors flex items-center gap-8"
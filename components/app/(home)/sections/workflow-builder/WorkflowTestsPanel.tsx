@@ -0,0 +1,446 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { toast } from "sonner";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import type { Workflow, WorkflowTestAssertion, WorkflowTestAssertionResult } from "@/lib/workflow/types";
+import { describeAssertion, TEST_ASSERTION_TYPES, TEST_OUTPUT_TARGET } from "@/lib/workflow/test-cases";
+
+interface WorkflowTestsPanelProps {
+  workflowId: string;
+  workflow: Workflow | null;
+  onSaveWorkflow?: () => Promise<boolean>;
+  onClose: () => void;
+}
+
+interface TestDraft {
+  id?: Id<"workflowTests">;
+  name: string;
+  inputs: string;
+  pinnedOutputs: string;
+  assertions: Array<WorkflowTestAssertion & { value: string }>;
+}
+
+const inputClassName = "w-full px-12 py-8 bg-accent-white border border-border-faint rounded-8 text-body-small text-accent-black focus:outline-none focus:border-heat-100 transition-colors";
+const codeClassName = "w-full px-12 py-10 bg-gray-900 text-white border border-border-faint rounded-8 text-body-small font-mono focus:outline-none focus:border-accent-black transition-colors resize-none";
+
+const STATUS_STYLES: Record<string, string> = {
+  passed: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-600",
+  error: "bg-amber-100 text-amber-700",
+};
+
+// Text in the assertion's value box: expected value, schema or judge criteria
+function assertionValueText(assertion: WorkflowTestAssertion): string {
+  if (assertion.type === "llm-judge") return assertion.criteria || "";
+  const value = assertion.type === "matches-schema" ? assertion.schema : assertion.expected;
+  if (value === undefined) return "";
+  return typeof value === "string" ? JSON.stringify(value) : JSON.stringify(value, null, 2);
+}
+
+function parseJsonField(text: string, label: string): any {
+  if (!text.trim()) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${label} must be valid JSON`);
+  }
+}
+
+/**
+ * Named test cases for the workflow: inputs, pinned outputs and assertions,
+ * with the pass/fail history of running them
+ */
+export default function WorkflowTestsPanel({ workflowId, workflow, onSaveWorkflow, onClose }: WorkflowTestsPanelProps) {
+  const tests = useQuery(api.workflowTests.list, { workflowId });
+  const runs = useQuery(api.workflowTests.listRuns, { workflowId, limit: 30 });
+  const createTest = useMutation(api.workflowTests.create);
+  const updateTest = useMutation(api.workflowTests.update);
+  const removeTest = useMutation(api.workflowTests.remove);
+
+  const [draft, setDraft] = useState<TestDraft | null>(null);
+  const [runningIds, setRunningIds] = useState<string[] | "all" | null>(null);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+
+  const nodes = useMemo(() => workflow?.nodes || [], [workflow?.nodes]);
+  const targetOptions = useMemo(() => [
+    { value: TEST_OUTPUT_TARGET, label: "Workflow output" },
+    ...nodes
+      .filter(n => !["start", "end", "note"].includes((n.data as any)?.nodeType || n.type))
+      .map(n => ({ value: n.id, label: (n.data as any)?.nodeName || n.data?.label || n.id })),
+  ], [nodes]);
+
+  const defaultInputs = useMemo(() => {
+    const startNode = nodes.find(n => ((n.data as any)?.nodeType || n.type) === "start");
+    const inputVariables = (startNode?.data as any)?.inputVariables || [];
+    return inputVariables.reduce((acc: Record<string, any>, variable: any) => {
+      acc[variable.name] = variable.defaultValue ?? "";
+      return acc;
+    }, {});
+  }, [nodes]);
+
+  const latestRunByTest = useMemo(() => {
+    const latest: Record<string, any> = {};
+    for (const run of runs || []) {
+      latest[run.testId] ??= run;
+    }
+    return latest;
+  }, [runs]);
+
+  const startNewTest = () => {
+    setDraft({
+      name: `Test ${(tests?.length || 0) + 1}`,
+      inputs: JSON.stringify(defaultInputs, null, 2),
+      pinnedOutputs: "",
+      assertions: [{ type: "contains", target: TEST_OUTPUT_TARGET, path: "", value: "" }],
+    });
+  };
+
+  const editTest = (test: any) => {
+    setDraft({
+      id: test._id,
+      name: test.name,
+      inputs: JSON.stringify(test.inputs || {}, null, 2),
+      pinnedOutputs: test.pinnedOutputs ? JSON.stringify(test.pinnedOutputs, null, 2) : "",
+      assertions: (test.assertions || []).map((assertion: WorkflowTestAssertion) => ({
+        ...assertion,
+        value: assertionValueText(assertion),
+      })),
+    });
+  };
+
+  const updateAssertion = (index: number, updates: Partial<TestDraft["assertions"][number]>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      assertions: draft.assertions.map((assertion, i) => (i === index ? { ...assertion, ...updates } : assertion)),
+    });
+  };
+
+  const handleSaveTest = async () => {
+    if (!draft) return;
+
+    try {
+      const assertions: WorkflowTestAssertion[] = draft.assertions.map(({ value, ...assertion }, index) => {
+        const base = { type: assertion.type, target: assertion.target || TEST_OUTPUT_TARGET, path: assertion.path?.trim() || undefined, model: assertion.model };
+        if (assertion.type === "llm-judge") return { ...base, criteria: value };
+        if (assertion.type === "matches-schema") return { ...base, schema: parseJsonField(value, `Assertion ${index + 1} schema`) };
+        // Expected values are JSON, with bare text read as a string
+        let expected: any = value;
+        try {
+          expected = JSON.parse(value);
+        } catch {
+          // Keep raw text
+        }
+        return { ...base, expected };
+      });
+
+      const test = {
+        name: draft.name.trim() || "Untitled test",
+        inputs: parseJsonField(draft.inputs, "Inputs") ?? {},
+        pinnedOutputs: parseJsonField(draft.pinnedOutputs, "Pinned outputs"),
+        assertions,
+      };
+
+      if (draft.id) {
+        await updateTest({ id: draft.id, ...test });
+      } else {
+        await createTest({ workflowId, ...test });
+      }
+      setDraft(null);
+      toast.success("Test saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save test");
+    }
+  };
+
+  const handleRun = async (testIds?: string[]) => {
+    setRunningIds(testIds ?? "all");
+
+    try {
+      if (onSaveWorkflow && !(await onSaveWorkflow())) {
+        throw new Error("Save the workflow before running its tests");
+      }
+
+      const res = await fetch(`/api/workflows/${workflowId}/tests/run`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(testIds ? { testIds } : {}),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || data.error || "Test run failed");
+      }
+
+      if (data.success) {
+        toast.success(`${data.passed}/${data.total} tests passed`);
+      } else {
+        toast.error(`${data.passed}/${data.total} tests passed`, {
+          description: `${data.failed} failed, ${data.errors} errored`,
+        });
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Test run failed");
+    } finally {
+      setRunningIds(null);
+    }
+  };
+
+  const isRunning = (testId: string) => runningIds === "all" || (Array.isArray(runningIds) && runningIds.includes(testId));
+
+  return (
+    <motion.aside
+      initial={{ x: 400, opacity: 0 }}
+      animate={{ x: 0, opacity: 1 }}
+      exit={{ x: 400, opacity: 0 }}
+      transition={{ duration: 0.3 }}
+      className="fixed right-20 top-80 h-[calc(100vh-100px)] w-[calc(100vw-240px)] max-w-520 bg-accent-white border border-border-faint shadow-lg overflow-y-auto z-50 rounded-16 flex flex-col"
+    >
+      {/* Header */}
+      <div className="p-20 border-b border-border-faint flex-shrink-0">
+        <div className="flex items-center justify-between">
+          <h2 className="text-label-large text-accent-black font-medium">Tests</h2>
+          <button
+            onClick={onClose}
+            className="w-32 h-32 rounded-6 hover:bg-black-alpha-4 transition-colors flex items-center justify-center"
+          >
+            <svg className="w-16 h-16 text-black-alpha-48" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-body-small text-black-alpha-48 mt-8">
+          Run named inputs through the workflow and check its outputs
+        </p>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-20 space-y-20">
+        {draft ? (
+          <div className="space-y-16">
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">Name</label>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">Inputs</label>
+              <textarea
+                value={draft.inputs}
+                onChange={(e) => setDraft({ ...draft, inputs: e.target.value })}
+                rows={5}
+                className={codeClassName}
+              />
+            </div>
+
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">Pinned Outputs (optional)</label>
+              <textarea
+                value={draft.pinnedOutputs}
+                onChange={(e) => setDraft({ ...draft, pinnedOutputs: e.target.value })}
+                rows={3}
+                placeholder={'{ "node_2": "Canned agent reply" }'}
+                className={codeClassName}
+              />
+              <p className="text-body-small text-black-alpha-48 mt-8">
+                Node ID to output. Pinned nodes return this instead of calling their service.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-label-small text-black-alpha-48 mb-8">Assertions</label>
+              <div className="space-y-12">
+                {draft.assertions.map((assertion, index) => (
+                  <div key={index} className="p-12 border border-border-faint rounded-8 space-y-8">
+                    <div className="flex gap-8">
+                      <select
+                        value={assertion.target || TEST_OUTPUT_TARGET}
+                        onChange={(e) => updateAssertion(index, { target: e.target.value })}
+                        className={inputClassName}
+                      >
+                        {targetOptions.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={assertion.type}
+                        onChange={(e) => updateAssertion(index, { type: e.target.value as WorkflowTestAssertion["type"] })}
+                        className={inputClassName}
+                      >
+                        {TEST_ASSERTION_TYPES.map(option => (
+                          <option key={option.type} value={option.type}>{option.label}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => setDraft({ ...draft, assertions: draft.assertions.filter((_, i) => i !== index) })}
+                        className="px-10 text-body-small text-black-alpha-48 hover:text-red-600 transition-colors"
+                        title="Remove assertion"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                    <input
+                      value={assertion.path || ""}
+                      onChange={(e) => updateAssertion(index, { path: e.target.value })}
+                      placeholder="JSON path, e.g. $.items[0].title (optional)"
+                      className={`${inputClassName} font-mono`}
+                    />
+                    <textarea
+                      value={assertion.value}
+                      onChange={(e) => updateAssertion(index, { value: e.target.value })}
+                      rows={assertion.type === "matches-schema" ? 4 : 2}
+                      placeholder={
+                        assertion.type === "llm-judge"
+                          ? "What a passing output looks like"
+                          : assertion.type === "matches-schema"
+                            ? '{ "type": "object", "required": ["title"] }'
+                            : "Expected value (JSON, or plain text)"
+                      }
+                      className={codeClassName}
+                    />
+                  </div>
+                ))}
+                <button
+                  onClick={() => setDraft({
+                    ...draft,
+                    assertions: [...draft.assertions, { type: "equals", target: TEST_OUTPUT_TARGET, path: "", value: "" }],
+                  })}
+                  className="text-body-small text-heat-100 hover:text-heat-200 transition-colors"
+                >
+                  + Add assertion
+                </button>
+              </div>
+            </div>
+
+            <div className="flex gap-8">
+              <button
+                onClick={handleSaveTest}
+                className="flex-1 px-14 py-8 bg-heat-100 hover:bg-heat-200 text-white rounded-8 text-body-small font-medium transition-colors"
+              >
+                Save Test
+              </button>
+              <button
+                onClick={() => setDraft(null)}
+                className="px-14 py-8 bg-accent-white hover:bg-black-alpha-4 border border-border-faint rounded-8 text-body-small text-accent-black transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex gap-8">
+              <button
+                onClick={startNewTest}
+                className="px-14 py-8 bg-accent-white hover:bg-black-alpha-4 border border-border-faint rounded-8 text-body-small text-accent-black transition-colors"
+              >
+                + New Test
+              </button>
+              <button
+                onClick={() => handleRun()}
+                disabled={!tests?.length || runningIds !== null}
+                className="flex-1 px-14 py-8 bg-heat-100 hover:bg-heat-200 text-white rounded-8 text-body-small font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {runningIds === "all" ? "Running..." : "Run All Tests"}
+              </button>
+            </div>
+
+            {/* Test cases */}
+            <div className="space-y-8">
+              {tests === undefined ? (
+                <p className="text-body-small text-black-alpha-48">Loading tests...</p>
+              ) : tests.length === 0 ? (
+                <p className="text-body-small text-black-alpha-48">
+                  No tests yet. Save the workflow, then add a test with inputs and the output you expect.
+                </p>
+              ) : (
+                tests.map((test) => {
+                  const latest = latestRunByTest[test._id];
+                  return (
+                    <div key={test._id} className="p-12 border border-border-faint rounded-8">
+                      <div className="flex items-center gap-8">
+                        <button onClick={() => editTest(test)} className="flex-1 text-left min-w-0">
+                          <div className="text-body-medium text-accent-black truncate">{test.name}</div>
+                          <div className="text-body-small text-black-alpha-48 truncate">
+                            {(test.assertions || []).map((a: WorkflowTestAssertion) => describeAssertion(a)).join(" · ") || "No assertions"}
+                          </div>
+                        </button>
+                        {latest && (
+                          <span className={`px-8 py-2 rounded-full text-xs font-medium ${STATUS_STYLES[latest.status] || ""}`}>
+                            {latest.status}
+                          </span>
+                        )}
+                        <button
+                          onClick={() => handleRun([test._id])}
+                          disabled={runningIds !== null}
+                          className="px-10 py-4 text-body-small text-heat-100 hover:bg-heat-4 rounded-6 transition-colors disabled:opacity-50"
+                        >
+                          {isRunning(test._id) ? "Running..." : "Run"}
+                        </button>
+                        <button
+                          onClick={() => removeTest({ id: test._id }).catch(() => toast.error("Failed to delete test"))}
+                          className="px-8 py-4 text-body-small text-black-alpha-48 hover:text-red-600 transition-colors"
+                          title="Delete test"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            {/* History */}
+            {runs && runs.length > 0 && (
+              <div>
+                <label className="block text-label-small text-black-alpha-48 mb-8">History</label>
+                <div className="space-y-4">
+                  {runs.map((run) => (
+                    <div key={run._id} className="border border-border-faint rounded-8">
+                      <button
+                        onClick={() => setExpandedRunId(expandedRunId === run._id ? null : run._id)}
+                        className="w-full px-12 py-8 flex items-center gap-8 text-left hover:bg-black-alpha-4 transition-colors rounded-8"
+                      >
+                        <span className={`px-8 py-2 rounded-full text-xs font-medium ${STATUS_STYLES[run.status] || ""}`}>
+                          {run.status}
+                        </span>
+                        <span className="flex-1 text-body-small text-accent-black truncate">{run.testName}</span>
+                        <span className="text-body-small text-black-alpha-48">
+                          {new Date(run.startedAt).toLocaleString()} · {(run.durationMs / 1000).toFixed(1)}s
+                        </span>
+                      </button>
+                      {expandedRunId === run._id && (
+                        <div className="px-12 pb-12 space-y-6">
+                          {run.error && (
+                            <p className="text-body-small text-red-600">{run.error}</p>
+                          )}
+                          {(run.assertions as WorkflowTestAssertionResult[]).map((result, index) => (
+                            <div key={index} className="text-body-small">
+                              <span className={result.passed ? "text-green-700" : "text-red-600"}>
+                                {result.passed ? "✓" : "✗"}
+                              </span>{" "}
+                              <span className="text-accent-black">{describeAssertion(result.assertion)}</span>
+                              <div className="text-black-alpha-48 ml-16">{result.message}</div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </motion.aside>
+  );
+}
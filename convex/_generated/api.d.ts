@@ -11,11 +11,13 @@
 import type * as admin from "../admin.js";
 import type * as apiKeys from "../apiKeys.js";
 import type * as approvals from "../approvals.js";
+import type * as checkpoints from "../checkpoints.js";
 import type * as executions from "../executions.js";
 import type * as mcpServers from "../mcpServers.js";
 import type * as templates from "../templates.js";
 import type * as userLLMKeys from "../userLLMKeys.js";
 import type * as userMCPs from "../userMCPs.js";
+import type * as workflowTests from "../workflowTests.js";
 import type * as workflows from "../workflows.js";
 
 import type {
@@ -36,11 +38,13 @@ declare const fullApi: ApiFromModules<{
   admin: typeof admin;
   apiKeys: typeof apiKeys;
   approvals: typeof approvals;
+  checkpoints: typeof checkpoints;
   executions: typeof executions;
   mcpServers: typeof mcpServers;
   templates: typeof templates;
   userLLMKeys: typeof userLLMKeys;
   userMCPs: typeof userMCPs;
+  workflowTests: typeof workflowTests;
   workflows: typeof workflows;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
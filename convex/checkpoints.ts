@@ -0,0 +1,193 @@
+import { v } from "convex/values";
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+
+/**
+ * LangGraph Checkpoint Storage
+ *
+ * Backs ConvexCheckpointSaver (lib/workflow/checkpointer.ts) so paused
+ * approvals, Arcade auth waits and thread history survive restarts and
+ * requests landing on a different instance.
+ */
+
+async function loadWrites(ctx: QueryCtx, checkpoint: Doc<"checkpoints">) {
+  return await ctx.db
+    .query("checkpointWrites")
+    .withIndex("by_checkpoint", (q) =>
+      q
+        .eq("threadId", checkpoint.threadId)
+        .eq("checkpointNs", checkpoint.checkpointNs)
+        .eq("checkpointId", checkpoint.checkpointId)
+    )
+    .collect();
+}
+
+// Get a checkpoint (latest for the thread when checkpointId is omitted)
+export const getTuple = query({
+  args: {
+    threadId: v.string(),
+    checkpointNs: v.string(),
+    checkpointId: v.optional(v.string()),
+  },
+  handler: async (ctx, { threadId, checkpointNs, checkpointId }) => {
+    const checkpoint = await ctx.db
+      .query("checkpoints")
+      .withIndex("by_thread", (q) => {
+        const scoped = q.eq("threadId", threadId).eq("checkpointNs", checkpointNs);
+        return checkpointId ? scoped.eq("checkpointId", checkpointId) : scoped;
+      })
+      .order("desc")
+      .first();
+
+    if (!checkpoint) {
+      return null;
+    }
+
+    return {
+      checkpoint,
+      writes: await loadWrites(ctx, checkpoint),
+    };
+  },
+});
+
+// List checkpoints for a thread, newest first
+export const list = query({
+  args: {
+    threadId: v.string(),
+    checkpointNs: v.optional(v.string()),
+    checkpointId: v.optional(v.string()),
+    before: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, { threadId, checkpointNs, checkpointId, before, limit }) => {
+    let checkpoints = await ctx.db
+      .query("checkpoints")
+      .withIndex("by_thread", (q) => {
+        const byThread = q.eq("threadId", threadId);
+        if (checkpointNs === undefined) return byThread;
+        const byNs = byThread.eq("checkpointNs", checkpointNs);
+        if (checkpointId) return byNs.eq("checkpointId", checkpointId);
+        if (before) return byNs.lt("checkpointId", before);
+        return byNs;
+      })
+      .order("desc")
+      .collect();
+
+    // Namespace-less queries can't push these filters into the index
+    if (checkpointId) {
+      checkpoints = checkpoints.filter((c) => c.checkpointId === checkpointId);
+    }
+    if (before) {
+      checkpoints = checkpoints.filter((c) => c.checkpointId < before);
+    }
+    if (limit !== undefined) {
+      checkpoints = checkpoints.slice(0, limit);
+    }
+
+    return await Promise.all(
+      checkpoints.map(async (checkpoint) => ({
+        checkpoint,
+        writes: await loadWrites(ctx, checkpoint),
+      }))
+    );
+  },
+});
+
+// Save a checkpoint
+export const put = mutation({
+  args: {
+    threadId: v.string(),
+    checkpointNs: v.string(),
+    checkpointId: v.string(),
+    parentCheckpointId: v.optional(v.string()),
+    checkpointType: v.string(),
+    checkpoint: v.bytes(),
+    metadataType: v.string(),
+    metadata: v.bytes(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("checkpoints")
+      .withIndex("by_thread", (q) =>
+        q
+          .eq("threadId", args.threadId)
+          .eq("checkpointNs", args.checkpointNs)
+          .eq("checkpointId", args.checkpointId)
+      )
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, args);
+      return existing._id;
+    }
+
+    return await ctx.db.insert("checkpoints", {
+      ...args,
+      createdAt: new Date().toISOString(),
+    });
+  },
+});
+
+// Save pending writes for a checkpoint
+export const putWrites = mutation({
+  args: {
+    threadId: v.string(),
+    checkpointNs: v.string(),
+    checkpointId: v.string(),
+    taskId: v.string(),
+    writes: v.array(
+      v.object({
+        idx: v.number(),
+        channel: v.string(),
+        valueType: v.string(),
+        value: v.bytes(),
+      })
+    ),
+  },
+  handler: async (ctx, { writes, ...key }) => {
+    for (const write of writes) {
+      const existing = await ctx.db
+        .query("checkpointWrites")
+        .withIndex("by_checkpoint", (q) =>
+          q
+            .eq("threadId", key.threadId)
+            .eq("checkpointNs", key.checkpointNs)
+            .eq("checkpointId", key.checkpointId)
+            .eq("taskId", key.taskId)
+            .eq("idx", write.idx)
+        )
+        .first();
+
+      if (existing) {
+        // Regular writes are idempotent; special channels (negative idx) overwrite
+        if (write.idx >= 0) continue;
+        await ctx.db.patch(existing._id, write);
+        continue;
+      }
+
+      await ctx.db.insert("checkpointWrites", { ...key, ...write });
+    }
+  },
+});
+
+// Delete all checkpoints and writes for a thread
+export const deleteThread = mutation({
+  args: { threadId: v.string() },
+  handler: async (ctx, { threadId }) => {
+    const checkpoints = await ctx.db
+      .query("checkpoints")
+      .withIndex("by_thread", (q) => q.eq("threadId", threadId))
+      .collect();
+
+    const writes = await ctx.db
+      .query("checkpointWrites")
+      .withIndex("by_checkpoint", (q) => q.eq("threadId", threadId))
+      .collect();
+
+    for (const doc of [...checkpoints, ...writes]) {
+      await ctx.db.delete(doc._id);
+    }
+
+    return { deleted: checkpoints.length };
+  },
+});
@@ -36,6 +36,7 @@ export const updateExecution = mutation({
     variables: v.optional(v.any()),
     output: v.optional(v.any()),
     error: v.optional(v.string()),
+    traceId: v.optional(v.string()),
   },
   handler: async ({ db }, { id, ...updates }) => {
     await db.patch(id, updates);
@@ -49,10 +50,11 @@ export const completeExecution = mutation({
     id: v.id("executions"),
     output: v.optional(v.any()),
     error: v.optional(v.string()),
+    status: v.optional(v.string()), // Override the derived status (e.g. "timeout")
   },
-  handler: async ({ db }, { id, output, error }) => {
+  handler: async ({ db }, { id, output, error, status }) => {
     await db.patch(id, {
-      status: error ? "failed" : "completed",
+      status: status ?? (error ? "failed" : "completed"),
       output,
       error,
       completedAt: new Date().toISOString(),
@@ -61,6 +63,31 @@ export const completeExecution = mutation({
   },
 });
 
+// Cancel a running or paused execution (no-op once it has finished)
+export const cancelExecution = mutation({
+  args: {
+    id: v.id("executions"),
+    reason: v.optional(v.string()),
+  },
+  handler: async ({ db }, { id, reason }) => {
+    const execution = await db.get(id);
+    if (!execution) {
+      throw new Error("Execution not found");
+    }
+
+    if (["completed", "failed", "cancelled", "timeout"].includes(execution.status)) {
+      return { id, status: execution.status, cancelled: false };
+    }
+
+    await db.patch(id, {
+      status: "cancelled",
+      error: reason || "Execution cancelled",
+      completedAt: new Date().toISOString(),
+    });
+    return { id, status: "cancelled", cancelled: true };
+  },
+});
+
 // Get execution by ID
 export const getExecution = query({
   args: { id: v.id("executions") },
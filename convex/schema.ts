@@ -36,6 +36,7 @@ export default defineSchema({
     // Workflow structure
     nodes: v.array(v.any()), // Workflow nodes with flexible structure
     edges: v.array(v.any()), // Workflow edges
+    settings: v.optional(v.any()), // Run settings (e.g. timeoutMinutes)
 
     // Timestamps
     createdAt: v.string(),
@@ -55,7 +56,7 @@ export default defineSchema({
   // Workflow executions - track execution state
   executions: defineTable({
     workflowId: v.id("workflows"),
-    status: v.string(), // "running" | "completed" | "failed"
+    status: v.string(), // "running" | "completed" | "failed" | "waiting-auth" | "cancelled" | "timeout"
 
     // Execution state
     currentNodeId: v.optional(v.string()),
@@ -73,11 +74,42 @@ export default defineSchema({
 
     // Execution metadata
     threadId: v.optional(v.string()),
+    traceId: v.optional(v.string()), // OpenTelemetry trace of the run, when tracing is enabled
   })
     .index("by_workflow", ["workflowId"])
     .index("by_status", ["status"])
     .index("by_started", ["startedAt"]),
 
+  // LangGraph checkpoints - durable thread state for interrupts/resume
+  checkpoints: defineTable({
+    threadId: v.string(),
+    checkpointNs: v.string(), // "" for the root graph
+    checkpointId: v.string(), // uuid6, sorts chronologically
+    parentCheckpointId: v.optional(v.string()),
+
+    // Serialized with the graph's serde ("json" | "bytes")
+    checkpointType: v.string(),
+    checkpoint: v.bytes(),
+    metadataType: v.string(),
+    metadata: v.bytes(),
+
+    createdAt: v.string(),
+  })
+    .index("by_thread", ["threadId", "checkpointNs", "checkpointId"]),
+
+  // Pending writes attached to a checkpoint (partial progress of a super-step)
+  checkpointWrites: defineTable({
+    threadId: v.string(),
+    checkpointNs: v.string(),
+    checkpointId: v.string(),
+    taskId: v.string(),
+    idx: v.number(), // Negative for special channels (error, interrupt, resume)
+    channel: v.string(),
+    valueType: v.string(),
+    value: v.bytes(),
+  })
+    .index("by_checkpoint", ["threadId", "checkpointNs", "checkpointId", "taskId", "idx"]),
+
   // MCP servers registry - Centralized configuration
   mcpServers: defineTable({
     // Ownership
@@ -204,4 +236,32 @@ export default defineSchema({
     .index("by_userId", ["userId"])
     .index("by_workflow", ["workflowId"])
     .index("by_execution", ["executionId"]),
+
+  // Workflow test cases - inputs, pinned outputs and assertions run against a workflow
+  workflowTests: defineTable({
+    workflowId: v.id("workflows"),
+    name: v.string(),
+    inputs: v.any(), // Start node input variable values
+    pinnedOutputs: v.optional(v.any()), // Node ID -> output used instead of calling the service
+    assertions: v.array(v.any()),
+
+    createdAt: v.string(),
+    updatedAt: v.string(),
+  })
+    .index("by_workflow", ["workflowId"]),
+
+  // Results of running a test case (pass/fail history)
+  workflowTestRuns: defineTable({
+    workflowId: v.id("workflows"),
+    testId: v.id("workflowTests"),
+    testName: v.string(),
+    status: v.string(), // "passed" | "failed" | "error"
+    assertions: v.array(v.any()), // Per-assertion results
+    output: v.optional(v.any()),
+    error: v.optional(v.string()),
+    durationMs: v.number(),
+    startedAt: v.string(),
+  })
+    .index("by_workflow", ["workflowId", "startedAt"])
+    .index("by_test", ["testId", "startedAt"]),
 });
@@ -0,0 +1,144 @@
+import { v } from "convex/values";
+import { query, mutation, QueryCtx } from "./_generated/server";
+
+/**
+ * Workflow Test Cases
+ *
+ * Named inputs, pinned outputs and assertions attached to a workflow, plus the
+ * pass/fail history of running them (POST /api/workflows/:id/tests/run).
+ * Workflows are referenced by custom ID or Convex ID, as in the API routes.
+ */
+
+async function resolveWorkflowId(ctx: QueryCtx, workflowId: string) {
+  const byCustomId = await ctx.db
+    .query("workflows")
+    .withIndex("by_customId", (q) => q.eq("customId", workflowId))
+    .first();
+  if (byCustomId) {
+    return byCustomId._id;
+  }
+
+  return ctx.db.normalizeId("workflows", workflowId);
+}
+
+// List a workflow's test cases, oldest first
+export const list = query({
+  args: { workflowId: v.string() },
+  handler: async (ctx, { workflowId }) => {
+    const id = await resolveWorkflowId(ctx, workflowId);
+    if (!id) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("workflowTests")
+      .withIndex("by_workflow", (q) => q.eq("workflowId", id))
+      .collect();
+  },
+});
+
+// Create a test case
+export const create = mutation({
+  args: {
+    workflowId: v.string(),
+    name: v.string(),
+    inputs: v.optional(v.any()),
+    pinnedOutputs: v.optional(v.any()),
+    assertions: v.array(v.any()),
+  },
+  handler: async (ctx, { workflowId, ...test }) => {
+    const id = await resolveWorkflowId(ctx, workflowId);
+    if (!id) {
+      throw new Error(`Workflow ${workflowId} not found`);
+    }
+
+    const now = new Date().toISOString();
+    return await ctx.db.insert("workflowTests", {
+      workflowId: id,
+      name: test.name,
+      inputs: test.inputs ?? {},
+      pinnedOutputs: test.pinnedOutputs,
+      assertions: test.assertions,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Update a test case
+export const update = mutation({
+  args: {
+    id: v.id("workflowTests"),
+    name: v.optional(v.string()),
+    inputs: v.optional(v.any()),
+    pinnedOutputs: v.optional(v.any()),
+    assertions: v.optional(v.array(v.any())),
+  },
+  handler: async ({ db }, { id, ...updates }) => {
+    await db.patch(id, { ...updates, updatedAt: new Date().toISOString() });
+    return id;
+  },
+});
+
+// Delete a test case and its run history
+export const remove = mutation({
+  args: { id: v.id("workflowTests") },
+  handler: async ({ db }, { id }) => {
+    const runs = await db
+      .query("workflowTestRuns")
+      .withIndex("by_test", (q) => q.eq("testId", id))
+      .collect();
+    for (const run of runs) {
+      await db.delete(run._id);
+    }
+
+    await db.delete(id);
+    return id;
+  },
+});
+
+// Record the result of running a test case
+export const recordRun = mutation({
+  args: {
+    testId: v.id("workflowTests"),
+    status: v.string(),
+    assertions: v.array(v.any()),
+    output: v.optional(v.any()),
+    error: v.optional(v.string()),
+    durationMs: v.number(),
+    startedAt: v.string(),
+  },
+  handler: async ({ db }, { testId, ...run }) => {
+    const test = await db.get(testId);
+    if (!test) {
+      throw new Error("Test case not found");
+    }
+
+    return await db.insert("workflowTestRuns", {
+      workflowId: test.workflowId,
+      testId,
+      testName: test.name,
+      ...run,
+    });
+  },
+});
+
+// Recent test runs for a workflow, newest first
+export const listRuns = query({
+  args: {
+    workflowId: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, { workflowId, limit }) => {
+    const id = await resolveWorkflowId(ctx, workflowId);
+    if (!id) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("workflowTestRuns")
+      .withIndex("by_workflow", (q) => q.eq("workflowId", id))
+      .order("desc")
+      .take(limit ?? 50);
+  },
+});
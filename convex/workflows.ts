@@ -67,6 +67,7 @@ export const saveWorkflow = mutation({
     estimatedTime: v.optional(v.string()),
     nodes: v.array(v.any()),
     edges: v.array(v.any()),
+    settings: v.optional(v.any()),
     version: v.optional(v.string()),
     isTemplate: v.optional(v.boolean()),
   },
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
 import { Workflow, WorkflowNode, WorkflowEdge, MCPServer } from '@/lib/workflow/types';
 import {
   saveWorkflow as saveWorkflowToStorage,
@@ -11,6 +12,9 @@ import {
   getMCPServers,
 } from '@/lib/workflow/storage';
 import { cleanupInvalidEdges } from '@/lib/workflow/edge-cleanup';
+import type { ValidationError } from '@/lib/workflow/validation';
+
+const EXPRESSION_ERRORS_TOAST_ID = 'workflow-expression-errors';
 
 export function useWorkflow(workflowId?: string) {
   const [workflow, setWorkflow] = useState<Workflow | null>(null);
@@ -18,6 +22,36 @@ export function useWorkflow(workflowId?: string) {
   const [loading, setLoading] = useState(true);
   const [convexId, setConvexId] = useState<string | null>(null); // Track Convex ID
   const saveToConvexTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const reportedExpressionErrorsRef = useRef('');
+
+  // Warn about invalid expressions a save reports, once per distinct set, so
+  // auto-saves while editing don't re-raise a dismissed toast
+  const reportExpressionErrors = useCallback((saved: Workflow, data: { message?: string; expressionErrors?: ValidationError[] }) => {
+    const errors = data.expressionErrors || [];
+    const key = JSON.stringify(errors);
+    if (key === reportedExpressionErrorsRef.current) return;
+    reportedExpressionErrorsRef.current = key;
+
+    if (errors.length === 0) {
+      toast.dismiss(EXPRESSION_ERRORS_TOAST_ID);
+      return;
+    }
+
+    const nodeName = (nodeId: string) => {
+      const node = saved.nodes.find(n => n.id === nodeId);
+      return (node?.data as any)?.nodeName || (node?.data as any)?.label || nodeId;
+    };
+    const lines = errors.slice(0, 3).map(error => `${nodeName(error.nodeId)} - ${error.message}`);
+    if (errors.length > lines.length) {
+      lines.push(`+${errors.length - lines.length} more`);
+    }
+
+    toast.warning(data.message || 'Workflow saved with invalid expressions', {
+      id: EXPRESSION_ERRORS_TOAST_ID,
+      description: lines.join('; '),
+      duration: 10000,
+    });
+  }, []);
 
   // Load workflow from Redis via API
   useEffect(() => {
@@ -166,6 +200,9 @@ export function useWorkflow(workflowId?: string) {
         if (data.success && data.workflowId) {
           setConvexId(data.workflowId);
         }
+        if (data.success) {
+          reportExpressionErrors(newWorkflow, data);
+        }
       } catch (error) {
         console.error('Failed to save new workflow to Convex:', error);
       }
@@ -195,6 +232,9 @@ export function useWorkflow(workflowId?: string) {
         });
         const data = await response.json();
         console.log('💾 [AUTO-SAVE] Workflow synced to Convex:', data.success ? '✅ SUCCESS' : '❌ FAILED');
+        if (data.success) {
+          reportExpressionErrors(updated, data);
+        }
 
         // Store the Convex ID from the response
         if (data.success && data.workflowId) {
@@ -207,7 +247,7 @@ export function useWorkflow(workflowId?: string) {
         console.error('❌ Failed to save workflow to Convex:', error);
       }
     }, 1000); // 1000ms debounce to batch rapid saves
-  }, [workflow, loadWorkflows]);
+  }, [workflow, loadWorkflows, reportExpressionErrors]);
 
   // Update nodes
   const updateNodes = useCallback((nodes: WorkflowNode[]) => {
@@ -284,13 +324,16 @@ export function useWorkflow(workflowId?: string) {
       if (data.success && data.workflowId) {
         setConvexId(data.workflowId);
       }
+      if (data.success) {
+        reportExpressionErrors(updated, data);
+      }
 
       return data.success;
     } catch (error) {
       console.error('❌ Failed to save workflow immediately:', error);
       return false;
     }
-  }, [workflow]);
+  }, [workflow, reportExpressionErrors]);
 
   return {
     workflow,
@@ -1,5 +1,5 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { Workflow, WorkflowExecution, NodeExecutionResult, WorkflowPendingAuth } from '@/lib/workflow/types';
+import { Workflow, WorkflowExecution, NodeExecutionResult, NodeToolCall, WorkflowPendingAuth, WorkflowForkRequest, WorkflowRunFromNode, WorkflowLogEntry } from '@/lib/workflow/types';
 import { toast } from 'sonner';
 
 interface PendingArcadeResume {
@@ -23,6 +23,88 @@ const clone = <T>(value: T): T => {
   return JSON.parse(JSON.stringify(value)) as T;
 };
 
+export interface RunWorkflowOptions {
+  fork?: WorkflowForkRequest;
+  fromNode?: WorkflowRunFromNode;
+  testMode?: boolean; // Use pinned node outputs instead of calling services
+  streamTokens?: boolean; // Stream agent output as it is generated (node_token events)
+}
+
+// A node_tool_call event: add the call to the running node's result (a new
+// attempt or loop iteration starts its list over)
+const withToolCall = (
+  results: Record<string, NodeExecutionResult>,
+  nodeId: string,
+  toolCall: NodeToolCall
+): Record<string, NodeExecutionResult> => {
+  const current = results[nodeId];
+  return {
+    ...results,
+    [nodeId]: current?.status === 'running'
+      ? { ...current, toolCalls: [...(current.toolCalls || []), toolCall] }
+      : { nodeId, status: 'running', toolCalls: [toolCall] },
+  };
+};
+
+// Oldest log entries are dropped past this, so long loops can't bloat the panel
+const MAX_LOG_ENTRIES = 1000;
+
+// The run an SSE stream belongs to; the execution ID arrives with its first events
+interface ExecutionStream {
+  workflowId: string;
+  executionId: string;
+}
+
+/**
+ * Read an SSE response, passing each message to onEvent. Once onEvent returns
+ * true (the run ended or is waiting) the rest of the stream is drained unread.
+ */
+const readEventStream = async (response: Response, onEvent: (event: string, data: any) => boolean | void) => {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let currentEvent = '';
+  let ended = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (ended) continue;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.trim() === '') {
+        // Empty line marks end of SSE message
+        currentEvent = '';
+        continue;
+      }
+
+      if (line.startsWith('event: ')) {
+        currentEvent = line.slice(7).trim();
+        continue;
+      }
+
+      if (line.startsWith('data: ')) {
+        try {
+          if (onEvent(currentEvent, JSON.parse(line.slice(6)))) {
+            ended = true;
+            break;
+          }
+        } catch (e) {
+          console.error('Failed to parse SSE data:', e, 'Line:', line);
+        }
+      }
+    }
+  }
+};
+
 const loadStoredApiKeys = () => {
   if (typeof window === 'undefined') {
     return {} as Record<string, string>;
@@ -48,8 +130,13 @@ export function useWorkflowExecution() {
   const [nodeResults, setNodeResults] = useState<Record<string, NodeExecutionResult>>({});
   const [pendingAuth, setPendingAuth] = useState<WorkflowPendingAuth | null>(null);
   const [currentWorkflow, setCurrentWorkflow] = useState<Workflow | null>(null);
+  const [threadId, setThreadId] = useState<string | null>(null);
+  const [logs, setLogs] = useState<WorkflowLogEntry[]>([]);
+  const [streamingOutputs, setStreamingOutputs] = useState<Record<string, string>>({}); // Node ID -> text so far
+  const streamTokensRef = useRef(false); // Resumed runs stream like the run they continue
   const abortControllerRef = useRef<AbortController | null>(null);
   const pendingResumeRef = useRef<PendingArcadeResume | null>(null);
+  const activeRunRef = useRef<{ workflowId: string; executionId?: string } | null>(null);
 
   // Cleanup on unmount to prevent memory leaks
   useEffect(() => {
@@ -65,7 +152,135 @@ export function useWorkflowExecution() {
     };
   }, [isRunning]);
 
-  const runWorkflow = useCallback(async (workflow: Workflow, input?: string) => {
+  // One SSE message from a run, fork or resume. Returns true once the run has
+  // ended or is waiting on the user.
+  const handleStreamEvent = useCallback((stream: ExecutionStream, event: string, data: any): boolean => {
+    // Server log entries (already redacted) go to the panel's log view
+    if (event === 'log') {
+      setLogs(prev => [...prev, data as WorkflowLogEntry].slice(-MAX_LOG_ENTRIES));
+      return false;
+    }
+
+    // Agent output as it is generated; a reset replaces it (the agent moved to a fallback model)
+    if (event === 'node_token') {
+      setStreamingOutputs(prev => ({ ...prev, [data.nodeId]: data.reset ? data.token : (prev[data.nodeId] || '') + data.token }));
+      return false;
+    }
+
+    if (event === 'node_tool_call') {
+      setNodeResults(prev => withToolCall(prev, data.nodeId, data.toolCall));
+      return false;
+    }
+
+    console.log(`📨 SSE Event: ${event}`, data);
+
+    // Store execution ID
+    if (data.executionId) {
+      stream.executionId = data.executionId;
+      activeRunRef.current = { workflowId: stream.workflowId, executionId: data.executionId };
+    }
+
+    const toExecution = (status: WorkflowExecution['status'], fields: Partial<WorkflowExecution>): WorkflowExecution => ({
+      id: stream.executionId || `exec_${Date.now()}`,
+      workflowId: stream.workflowId,
+      status,
+      nodeResults: {},
+      startedAt: data.timestamp || new Date().toISOString(),
+      ...fields,
+    });
+
+    // Handle error events
+    if (event === 'error' && data.error) {
+      console.error('❌ Workflow error:', data.error);
+
+      // Show error toast to user
+      toast.error('Workflow Error', {
+        description: data.error,
+        duration: 10000, // Show for 10 seconds
+      });
+
+      // Set failed execution state
+      setExecution(toExecution('failed', {
+        error: data.error,
+        nodeResults: data.results || {},
+        completedAt: data.timestamp || new Date().toISOString(),
+      }));
+
+      // Stop execution
+      setIsRunning(false);
+      setCurrentNodeId(null);
+      return true;
+    }
+
+    // Set current node immediately when node starts (before it completes)
+    if (event === 'node_started' && data.nodeId) {
+      setCurrentNodeId(data.nodeId);
+      // A retry starts its output over
+      setStreamingOutputs(prev => prev[data.nodeId] ? { ...prev, [data.nodeId]: '' } : prev);
+    }
+
+    // Surface each retry attempt and timeout as it happens
+    if ((event === 'node_retrying' || event === 'node_timeout') && data.nodeId && data.result) {
+      setNodeResults(prev => ({ ...prev, [data.nodeId]: data.result }));
+    }
+
+    // Update node results from stream
+    if (data.nodeResults) {
+      setNodeResults(prev => ({ ...prev, ...data.nodeResults }));
+    }
+
+    // Update current node from state updates
+    if (data.currentNodeId) {
+      setCurrentNodeId(data.currentNodeId);
+    }
+
+    if (event === 'workflow_started' && data.threadId) {
+      setThreadId(data.threadId);
+    }
+
+    // Server confirmed the run was cancelled
+    if (event === 'workflow_cancelled') {
+      setExecution(toExecution('cancelled', {
+        error: data.reason,
+        nodeResults: data.results || {},
+        completedAt: data.timestamp || new Date().toISOString(),
+      }));
+      return true;
+    }
+
+    // Run exceeded a node or workflow time limit
+    if (event === 'workflow_timeout') {
+      toast.error('Workflow Timed Out', {
+        description: data.error,
+        duration: 10000,
+      });
+      setExecution(toExecution('timeout', {
+        error: data.error,
+        nodeResults: data.results || {},
+        completedAt: data.timestamp || new Date().toISOString(),
+      }));
+      return true;
+    }
+
+    // Check for pending auth (or another approval after a resume)
+    if (data.pendingAuth) {
+      setPendingAuth(data.pendingAuth);
+      setExecution(toExecution('waiting-auth', { nodeResults: data.nodeResults || {} }));
+      return true;
+    }
+
+    // Check for workflow completion
+    if (event === 'workflow_completed' || data.status === 'completed' || data.status === 'waiting-auth') {
+      setExecution(toExecution(data.status || 'completed', {
+        nodeResults: data.results || data.nodeResults || {},
+        completedAt: data.timestamp || new Date().toISOString(),
+      }));
+    }
+
+    return false;
+  }, []);
+
+  const runWorkflow = useCallback(async (workflow: Workflow, input?: string, options?: RunWorkflowOptions) => {
     if (!workflow) {
       console.error('No workflow to execute');
       return;
@@ -76,7 +291,12 @@ export function useWorkflowExecution() {
     setCurrentNodeId(null);
     setPendingAuth(null);
     setCurrentWorkflow(workflow);
+    setThreadId(null);
+    setLogs([]);
+    setStreamingOutputs({});
     pendingResumeRef.current = null;
+    activeRunRef.current = { workflowId: workflow.id };
+    streamTokensRef.current = !!options?.streamTokens;
 
     // Create abort controller
     abortControllerRef.current = new AbortController();
@@ -99,10 +319,24 @@ export function useWorkflowExecution() {
         parsedInput = { input };
       }
 
-      const response = await fetch(`/api/workflows/${workflow.id}/execute-stream`, {
+      // Forks continue from a checkpoint of an earlier run instead of the start;
+      // "run from here" reuses the earlier run's upstream outputs
+      const { fork, fromNode, testMode, streamTokens } = options ?? {};
+      const query = new URLSearchParams({
+        ...(!fork && fromNode ? { fromNodeId: fromNode.nodeId, sourceThreadId: fromNode.threadId } : {}),
+        ...(testMode ? { testMode: '1' } : {}),
+        ...(streamTokens ? { streamTokens: '1' } : {}),
+      }).toString();
+      const runUrl = fork
+        ? `/api/workflows/${workflow.id}/executions/${fork.executionId}/checkpoints`
+        : `/api/workflows/${workflow.id}/execute-stream`;
+
+      const response = await fetch(`${runUrl}${query ? `?${query}` : ''}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(parsedInput),
+        body: JSON.stringify(fork
+          ? { checkpointId: fork.checkpointId, variables: fork.variables }
+          : parsedInput),
         signal: abortControllerRef.current.signal,
       });
 
@@ -110,129 +344,8 @@ export function useWorkflowExecution() {
         throw new Error('Workflow execution failed');
       }
 
-      // Handle SSE stream
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error('No response body');
-      }
-
-      let buffer = '';
-      let executionId = '';
-      let currentEvent = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.trim() === '') {
-            // Empty line marks end of SSE message
-            currentEvent = '';
-            continue;
-          }
-
-          if (line.startsWith('event: ')) {
-            currentEvent = line.slice(7).trim();
-            continue;
-          }
-
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-
-              console.log(`📨 SSE Event: ${currentEvent}`, data);
-
-              // Handle error events
-              if (currentEvent === 'error' && data.error) {
-                console.error('❌ Workflow error:', data.error);
-
-                // Show error toast to user
-                toast.error('Workflow Error', {
-                  description: data.error,
-                  duration: 10000, // Show for 10 seconds
-                });
-
-                // Set failed execution state
-                setExecution({
-                  id: executionId || `exec_${Date.now()}`,
-                  workflowId: workflow.id,
-                  status: 'failed',
-                  error: data.error,
-                  nodeResults: nodeResults,
-                  startedAt: data.timestamp || new Date().toISOString(),
-                  completedAt: data.timestamp || new Date().toISOString(),
-                });
-
-                // Stop execution
-                setIsRunning(false);
-                setCurrentNodeId(null);
-                break; // Exit the SSE loop
-              }
-
-              // Set current node immediately when node starts (before it completes)
-              if (currentEvent === 'node_started' && data.nodeId) {
-                setCurrentNodeId(data.nodeId);
-              }
-
-              // Update node results from stream
-              if (data.nodeResults) {
-                setNodeResults(prev => {
-                  const updated = { ...prev, ...data.nodeResults };
-                  console.log('📊 Updated nodeResults:', Object.keys(updated));
-                  return updated;
-                });
-              }
-
-              // Update current node from state updates
-              if (data.currentNodeId) {
-                setCurrentNodeId(data.currentNodeId);
-              }
-
-              // Store execution ID
-              if (data.executionId) {
-                executionId = data.executionId;
-              }
-
-              // Check for pending auth
-              if (data.pendingAuth) {
-                setPendingAuth(data.pendingAuth);
-
-                // Set execution status to waiting-auth
-                const waitingExecution: WorkflowExecution = {
-                  id: executionId || data.executionId || `exec_${Date.now()}`,
-                  workflowId: workflow.id,
-                  status: 'waiting-auth',
-                  nodeResults: data.nodeResults || {},
-                  startedAt: data.timestamp || new Date().toISOString(),
-                };
-                setExecution(waitingExecution);
-                break;
-              }
-
-              // Check for workflow completion
-              if (currentEvent === 'workflow_completed' || data.status === 'completed' || data.status === 'waiting-auth') {
-                const execution: WorkflowExecution = {
-                  id: executionId || data.executionId || `exec_${Date.now()}`,
-                  workflowId: workflow.id,
-                  status: data.status || 'completed',
-                  nodeResults: data.results || data.nodeResults || {},
-                  startedAt: data.timestamp || new Date().toISOString(),
-                  completedAt: data.timestamp || new Date().toISOString(),
-                };
-                setExecution(execution);
-              }
-            } catch (e) {
-              console.error('Failed to parse SSE data:', e, 'Line:', line);
-            }
-          }
-        }
-      }
+      const stream: ExecutionStream = { workflowId: workflow.id, executionId: '' };
+      await readEventStream(response, (event, data) => handleStreamEvent(stream, event, data));
 
       console.log('✅ Workflow complete');
     } catch (error) {
@@ -262,9 +375,26 @@ export function useWorkflowExecution() {
       setIsRunning(false);
       setCurrentNodeId(null);
     }
-  }, []);
+  }, [handleStreamEvent]);
 
   const stopWorkflow = useCallback(() => {
+    // Cancel server-side work too - aborting the fetch alone only stops the client
+    const activeRun = activeRunRef.current;
+    if (activeRun?.executionId) {
+      fetch(`/api/workflows/${activeRun.workflowId}/executions/${activeRun.executionId}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: 'Stopped by user' }),
+      }).catch(error => {
+        console.warn('Failed to cancel execution on server:', error);
+      });
+
+      setExecution(prev => prev && prev.id === activeRun.executionId
+        ? { ...prev, status: 'cancelled', completedAt: new Date().toISOString() }
+        : prev);
+    }
+    activeRunRef.current = null;
+
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
@@ -294,10 +424,11 @@ export function useWorkflowExecution() {
 
     console.log('⏳ Resuming workflow from approval...');
     setIsRunning(true);
+    activeRunRef.current = { workflowId: currentWorkflow.id, executionId: executionId || threadId };
 
     try {
       // Call resume API endpoint
-      const response = await fetch(`/api/workflows/${currentWorkflow.id}/resume`, {
+      const response = await fetch(`/api/workflows/${currentWorkflow.id}/resume${streamTokensRef.current ? '?streamTokens=1' : ''}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -312,75 +443,11 @@ export function useWorkflowExecution() {
         throw new Error(`Resume failed: ${response.statusText}`);
       }
 
-      if (!response.body) {
-        throw new Error('No response body from resume endpoint');
-      }
-
       // Clear pending auth since we're resuming
       setPendingAuth(null);
 
-      // Process SSE stream
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-
-              // Update current node
-              if (data.currentNodeId) {
-                setCurrentNodeId(data.currentNodeId);
-              }
-
-              // Update node results
-              if (data.nodeResults) {
-                setNodeResults(prevResults => ({
-                  ...prevResults,
-                  ...data.nodeResults,
-                }));
-              }
-
-              // Check for pending auth again (multiple approvals)
-              if (data.pendingAuth) {
-                setPendingAuth(data.pendingAuth);
-
-                const waitingExecution = {
-                  id: executionId || `exec_${Date.now()}`,
-                  workflowId: currentWorkflow.id,
-                  status: 'waiting-auth' as const,
-                  nodeResults: data.nodeResults || {},
-                  startedAt: new Date().toISOString(),
-                };
-                setExecution(waitingExecution);
-                break;
-              }
-
-              // Check for completion
-              if (data.status === 'completed') {
-                const completedExecution = {
-                  id: executionId || `exec_${Date.now()}`,
-                  workflowId: currentWorkflow.id,
-                  status: 'completed' as const,
-                  nodeResults: data.results || data.nodeResults || {},
-                  startedAt: new Date().toISOString(),
-                  completedAt: new Date().toISOString(),
-                };
-                setExecution(completedExecution);
-              }
-            } catch (e) {
-              console.error('Failed to parse SSE data:', e);
-            }
-          }
-        }
-      }
+      const stream: ExecutionStream = { workflowId: currentWorkflow.id, executionId: executionId || '' };
+      await readEventStream(response, (event, data) => handleStreamEvent(stream, event, data));
 
       console.log('✅ Workflow resumed and completed');
     } catch (error) {
@@ -403,7 +470,7 @@ export function useWorkflowExecution() {
       setIsRunning(false);
       setCurrentNodeId(null);
     }
-  }, [currentWorkflow, pendingAuth]);
+  }, [currentWorkflow, pendingAuth, handleStreamEvent]);
 
   const clearExecution = useCallback(() => {
     setExecution(null);
@@ -411,6 +478,9 @@ export function useWorkflowExecution() {
     setCurrentNodeId(null);
     setPendingAuth(null);
     setCurrentWorkflow(null);
+    setThreadId(null);
+    setLogs([]);
+    setStreamingOutputs({});
     pendingResumeRef.current = null;
   }, []);
 
@@ -420,6 +490,9 @@ export function useWorkflowExecution() {
     currentNodeId,
     nodeResults,
     pendingAuth,
+    threadId,
+    logs,
+    streamingOutputs,
     runWorkflow,
     stopWorkflow,
     resumeWorkflow,
@@ -0,0 +1,10 @@
+/**
+ * Next.js instrumentation hook - runs once when the server starts.
+ * Sets up OpenTelemetry export of workflow traces (lib/workflow/tracing.ts).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { initTracing } = await import('./lib/workflow/tracing');
+    await initTracing();
+  }
+}
@@ -8,7 +8,7 @@
 export interface LLMModel {
   id: string;
   name: string;
-  provider: 'anthropic' | 'openai' | 'groq';
+  provider: string;
   contextWindow: number;
   inputCostPer1M: number;
   outputCostPer1M: number;
@@ -24,6 +24,10 @@ export interface LLMProvider {
   envKey: string;
   models: LLMModel[];
   defaultModel: string;
+  // OpenAI-compatible endpoint (vLLM, Ollama, ...); providers with a base URL need no code of their own
+  baseURL?: string;
+  baseURLEnv?: string; // Environment variable holding the base URL instead
+  requiresApiKey?: boolean; // Default true
 }
 
 /**
@@ -92,6 +96,30 @@ export const llmProviders: LLMProvider[] = [
         maxTokens: 16384,
         description: 'Affordable and fast with function calling',
       },
+      {
+        id: 'gpt-5-mini',
+        name: 'GPT-5 Mini',
+        provider: 'openai',
+        contextWindow: 400000,
+        inputCostPer1M: 0.25,
+        outputCostPer1M: 2.00,
+        supportsJSON: true,
+        supportsMCP: true,
+        maxTokens: 128000,
+        description: 'Default model for Extract nodes',
+      },
+      {
+        id: 'gpt-4.1',
+        name: 'GPT-4.1',
+        provider: 'openai',
+        contextWindow: 1047576,
+        inputCostPer1M: 2.00,
+        outputCostPer1M: 8.00,
+        supportsJSON: true,
+        supportsMCP: true,
+        maxTokens: 32768,
+        description: 'Extract nodes with MCP tools (Responses API)',
+      },
     ],
   },
   {
@@ -114,12 +142,21 @@ export const llmProviders: LLMProvider[] = [
       },
     ],
   },
+  {
+    id: 'openai-compatible',
+    name: 'OpenAI-compatible',
+    envKey: 'OPENAI_COMPATIBLE_API_KEY',
+    baseURLEnv: 'OPENAI_COMPATIBLE_BASE_URL',
+    requiresApiKey: false,
+    defaultModel: '',
+    models: [], // Whatever the endpoint serves, e.g. openai-compatible/llama3.1:8b
+  },
 ];
 
 /**
  * Get default model for a provider
  */
-export function getDefaultModel(provider: 'anthropic' | 'openai' | 'groq'): string {
+export function getDefaultModel(provider: string): string {
   const config = llmProviders.find(p => p.id === provider);
   return config?.defaultModel || '';
 }
@@ -127,16 +164,28 @@ export function getDefaultModel(provider: 'anthropic' | 'openai' | 'groq'): stri
 /**
  * Get all models for a provider
  */
-export function getModelsForProvider(provider: 'anthropic' | 'openai' | 'groq'): LLMModel[] {
+export function getModelsForProvider(provider: string): LLMModel[] {
   const config = llmProviders.find(p => p.id === provider);
   return config?.models || [];
 }
 
+/**
+ * Split a full model ID at the first slash, so model IDs may contain slashes
+ * themselves (groq/openai/gpt-oss-120b). IDs without a provider are OpenAI models.
+ */
+export function parseModelId(fullModelId: string): { provider: string; modelId: string } {
+  const slash = fullModelId.indexOf('/');
+  if (slash === -1) {
+    return { provider: 'openai', modelId: fullModelId };
+  }
+  return { provider: fullModelId.substring(0, slash), modelId: fullModelId.substring(slash + 1) };
+}
+
 /**
  * Get model info by full ID (provider/model-id)
  */
 export function getModelInfo(fullModelId: string): LLMModel | null {
-  const [provider, modelId] = fullModelId.split('/');
+  const { provider, modelId } = parseModelId(fullModelId);
   const providerConfig = llmProviders.find(p => p.id === provider);
   if (!providerConfig) return null;
 
@@ -165,14 +214,15 @@ export function getAllModels(): Array<LLMModel & { fullId: string }> {
 /**
  * Check if provider API key is configured
  */
-export function isProviderConfigured(provider: 'anthropic' | 'openai' | 'groq'): boolean {
+export function isProviderConfigured(provider: string): boolean {
   const config = llmProviders.find(p => p.id === provider);
   if (!config) return false;
 
   // This only works server-side
   if (typeof process === 'undefined') return false;
 
-  return !!process.env[config.envKey];
+  if (config.baseURLEnv && !config.baseURL && !process.env[config.baseURLEnv]) return false;
+  return config.requiresApiKey === false || !!process.env[config.envKey];
 }
 
 /**
@@ -180,6 +230,6 @@ export function isProviderConfigured(provider: 'anthropic' | 'openai' | 'groq'):
  */
 export function getConfiguredProviders(): string[] {
   return llmProviders
-    .filter(p => isProviderConfigured(p.id as any))
+    .filter(p => isProviderConfigured(p.id))
     .map(p => p.id);
 }
@@ -90,6 +90,68 @@ export class AuthorizationError extends WorkflowError {
   }
 }
 
+/**
+ * Error thrown when an execution is cancelled mid-run.
+ */
+export class CancellationError extends WorkflowError {
+  constructor(message = 'Execution cancelled', nodeId?: string) {
+    super(message, 'EXECUTION_CANCELLED', nodeId);
+    this.name = 'CancellationError';
+  }
+}
+
+/**
+ * Error thrown when a node or the whole workflow exceeds its time limit.
+ */
+export class TimeoutError extends WorkflowError {
+  constructor(message: string, public timeoutMs: number, nodeId?: string) {
+    super(message, 'TIMEOUT_ERROR', nodeId);
+    this.name = 'TimeoutError';
+  }
+
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      timeoutMs: this.timeoutMs,
+    };
+  }
+}
+
+/**
+ * Error thrown when a condition or mapping expression can't be parsed or evaluated.
+ */
+export class ExpressionError extends WorkflowError {
+  constructor(message: string, public expression: string, public position?: number) {
+    super(message, 'EXPRESSION_ERROR');
+    this.name = 'ExpressionError';
+  }
+
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      expression: this.expression,
+      position: this.position,
+    };
+  }
+}
+
+/**
+ * Error thrown when a replayed run makes an external call its cassette has no recording for.
+ */
+export class CassetteMissError extends WorkflowError {
+  constructor(message: string, public kind: string) {
+    super(message, 'CASSETTE_MISS');
+    this.name = 'CassetteMissError';
+  }
+
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      kind: this.kind,
+    };
+  }
+}
+
 /**
  * Error codes used throughout the workflow system.
  */
@@ -102,6 +164,12 @@ export const ErrorCodes = {
   INVALID_CONFIGURATION: 'INVALID_CONFIGURATION',
   TIMEOUT_ERROR: 'TIMEOUT_ERROR',
   NETWORK_ERROR: 'NETWORK_ERROR',
+  RATE_LIMIT_ERROR: 'RATE_LIMIT_ERROR',
+  OVERLOADED_ERROR: 'OVERLOADED_ERROR',
+  SERVER_ERROR: 'SERVER_ERROR',
+  EXECUTION_CANCELLED: 'EXECUTION_CANCELLED',
+  EXPRESSION_ERROR: 'EXPRESSION_ERROR',
+  CASSETTE_MISS: 'CASSETTE_MISS',
 } as const;
 
 export type ErrorCode = typeof ErrorCodes[keyof typeof ErrorCodes];
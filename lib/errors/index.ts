@@ -4,6 +4,10 @@ export {
   ValidationError,
   APIError,
   AuthorizationError,
+  CancellationError,
+  TimeoutError,
+  ExpressionError,
+  CassetteMissError,
   ErrorCodes,
   type ErrorCode,
 } from './WorkflowError';
@@ -0,0 +1,122 @@
+import 'server-only';
+import { withCassette } from '@/lib/workflow/cassettes';
+import { traceLLMCall } from '@/lib/workflow/tracing';
+import { createTokenSink, jsonInstruction, toTokenUsage } from './shared';
+import type { ChatMessage, ChatOptions, ChatProvider, ChatRequest, ChatResponse, ToolCall } from './types';
+
+// Reduced from 4096 to stay within rate limits
+const DEFAULT_MAX_TOKENS = 3000;
+
+/**
+ * Anthropic Messages API. JSON output is requested in the system prompt.
+ */
+export const anthropicProvider: ChatProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  envKey: 'ANTHROPIC_API_KEY',
+  requiresApiKey: true,
+  capabilities: { tools: true, jsonSchema: false, streaming: true },
+
+  async chat(request: ChatRequest, options: ChatOptions = {}): Promise<ChatResponse> {
+    const { apiKey, signal, cassette } = options;
+    const Anthropic = (await import('@anthropic-ai/sdk')).default;
+    const client = new Anthropic({ apiKey });
+
+    const system = [
+      ...request.messages.filter(message => message.role === 'system').map(message => message.content),
+      jsonInstruction(request.responseFormat),
+    ].filter(Boolean).join('\n\n');
+
+    const body: Record<string, any> = {
+      model: request.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      messages: toAnthropicMessages(request.messages),
+      ...(system && { system }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: { type: 'object', ...tool.parameters },
+        })),
+        tool_choice: { type: request.toolChoice ?? 'auto' },
+      }),
+    };
+
+    const tokens = createTokenSink(options.onToken);
+    const send = async () => {
+      if (!options.onToken) {
+        return client.messages.create(body as any, { signal });
+      }
+
+      const stream: any = client.messages.stream(body as any, { signal });
+      stream.on('text', (text: string) => tokens.push(text));
+      return stream.finalMessage();
+    };
+
+    // Rate limit and overload errors are retried by the node's retry policy
+    const response: any = await traceLLMCall('anthropic', request.model, () =>
+      withCassette(cassette, 'anthropic.messages', body, send)
+    );
+
+    return parseAnthropicResponse(response, request.model, tokens);
+  },
+};
+
+/**
+ * System messages move to the `system` parameter; tool results become
+ * tool_result blocks on a user turn, merged when several answer one turn
+ */
+function toAnthropicMessages(messages: ChatMessage[]): any[] {
+  const result: any[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const previous = result[result.length - 1];
+      if (previous?.role === 'user' && Array.isArray(previous.content) && previous.content.every((item: any) => item.type === 'tool_result')) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: 'user', content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      result.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments ?? {} })),
+        ],
+      });
+      continue;
+    }
+
+    result.push({ role: message.role, content: message.content });
+  }
+
+  return result;
+}
+
+function parseAnthropicResponse(response: any, model: string, tokens: ReturnType<typeof createTokenSink>): ChatResponse {
+  const content: any[] = response.content || [];
+
+  const text = content.filter(item => item.type === 'text').map(item => item.text).join('\n');
+  tokens.finish(text);
+
+  const toolCalls: ToolCall[] = content
+    .filter(item => item.type === 'tool_use')
+    .map(item => ({ id: item.id, name: item.name, arguments: item.input }));
+
+  const stopReason = response.stop_reason;
+  return {
+    text,
+    toolCalls,
+    usage: toTokenUsage(response.usage?.input_tokens, response.usage?.output_tokens),
+    model: response.model || model,
+    finishReason: stopReason === 'tool_use' ? 'tool_calls' : stopReason === 'max_tokens' ? 'length' : stopReason ? 'stop' : undefined,
+  };
+}
@@ -0,0 +1,186 @@
+import 'server-only';
+import { withCassette } from '@/lib/workflow/cassettes';
+import { traceLLMCall } from '@/lib/workflow/tracing';
+import { createTokenSink, jsonInstruction, parseToolArguments, toTokenUsage } from './shared';
+import type { ChatMessage, ChatOptions, ChatProvider, ChatRequest, ChatResponse } from './types';
+
+// Local servers (Ollama, vLLM without --api-key) accept any key, but the SDK insists on one
+const UNUSED_API_KEY = 'not-needed';
+
+export interface OpenAICompatibleProviderOptions {
+  id: string;
+  name: string;
+  baseURL?: string; // Defaults to api.openai.com
+  envKey?: string;
+  requiresApiKey?: boolean; // Default true; local endpoints usually run without one
+  jsonSchema?: boolean; // Endpoint accepts response_format json_schema (default true)
+}
+
+/**
+ * Provider for any API that speaks OpenAI Chat Completions: OpenAI itself,
+ * Groq, and self-hosted endpoints such as vLLM or Ollama (`/v1` base URL).
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleProviderOptions): ChatProvider {
+  const supportsJsonSchema = options.jsonSchema ?? true;
+
+  const getClient = async (apiKey?: string) => {
+    const OpenAI = (await import('openai')).default;
+    return new OpenAI({
+      apiKey: apiKey || UNUSED_API_KEY,
+      ...(options.baseURL && { baseURL: options.baseURL }),
+    });
+  };
+
+  const chatCompletion = async (request: ChatRequest, chatOptions: ChatOptions): Promise<ChatResponse> => {
+    const { signal, cassette } = chatOptions;
+    const client = await getClient(chatOptions.apiKey);
+    const format = request.responseFormat;
+
+    // json_object mode requires the word "JSON" in the messages, and endpoints
+    // without json_schema get the schema in the prompt instead
+    const instruction = format?.type === 'json' || (format?.type === 'json_schema' && !supportsJsonSchema)
+      ? jsonInstruction(format)
+      : undefined;
+
+    const body: Record<string, any> = {
+      model: request.model,
+      messages: toOpenAIMessages(instruction
+        ? [{ role: 'system', content: instruction }, ...request.messages]
+        : request.messages),
+      ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({
+          type: 'function',
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: { type: 'object', ...tool.parameters },
+          },
+        })),
+        tool_choice: request.toolChoice ?? 'auto',
+      }),
+      ...(format?.type === 'json' && { response_format: { type: 'json_object' } }),
+      ...(format?.type === 'json_schema' && {
+        response_format: supportsJsonSchema
+          ? { type: 'json_schema', json_schema: { name: format.name, schema: format.schema, strict: false } }
+          : { type: 'json_object' },
+      }),
+    };
+
+    const tokens = createTokenSink(chatOptions.onToken);
+    const completion: any = await traceLLMCall(options.id, request.model, () =>
+      withCassette(cassette, `${options.id}.chat`, body, async () => {
+        if (!chatOptions.onToken) {
+          return client.chat.completions.create(body as any, { signal });
+        }
+
+        const stream: any = await client.chat.completions.create(
+          { ...body, stream: true, stream_options: { include_usage: true } } as any,
+          { signal }
+        );
+        return collectChatCompletion(stream, tokens.push);
+      })
+    );
+
+    const choice = completion.choices?.[0];
+    const text = choice?.message?.content || '';
+    tokens.finish(text);
+
+    return {
+      text,
+      toolCalls: (choice?.message?.tool_calls || [])
+        .filter((call: any) => call.type === 'function')
+        .map((call: any) => ({ id: call.id, name: call.function.name, arguments: parseToolArguments(call.function.arguments) })),
+      usage: toTokenUsage(completion.usage?.prompt_tokens, completion.usage?.completion_tokens, completion.usage?.total_tokens),
+      model: completion.model || request.model,
+      finishReason: choice?.finish_reason === 'tool_calls' ? 'tool_calls' : choice?.finish_reason,
+    };
+  };
+
+  return {
+    id: options.id,
+    name: options.name,
+    envKey: options.envKey,
+    requiresApiKey: options.requiresApiKey ?? true,
+    capabilities: {
+      tools: true,
+      jsonSchema: supportsJsonSchema,
+      streaming: true,
+    },
+    chat: (request, chatOptions = {}) => chatCompletion(request, chatOptions),
+  };
+}
+
+function toOpenAIMessages(messages: ChatMessage[]): any[] {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: {
+            name: call.name,
+            arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments ?? {}),
+          },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Assemble streamed chunks into a regular chat completion. Done by hand rather
+ * than with the SDK's stream helper, which rejects chunks that self-hosted
+ * servers often leave incomplete (no role, no finish_reason).
+ */
+async function collectChatCompletion(stream: AsyncIterable<any>, onText: (text: string) => void) {
+  let model: string | undefined;
+  let content = '';
+  let finishReason: string | undefined;
+  let usage: any;
+  const toolCalls: any[] = [];
+
+  for await (const chunk of stream) {
+    model ??= chunk.model;
+    if (chunk.usage) usage = chunk.usage;
+
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+
+    const delta = choice.delta || {};
+    if (delta.content) {
+      content += delta.content;
+      onText(delta.content);
+    }
+
+    for (const part of delta.tool_calls || []) {
+      const index = part.index ?? toolCalls.length;
+      const call = toolCalls[index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.function.name += part.function.name;
+      if (part.function?.arguments) call.function.arguments += part.function.arguments;
+    }
+  }
+
+  return {
+    model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: content || null,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls.filter(Boolean) }),
+      },
+      finish_reason: finishReason ?? (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+    }],
+    usage,
+  };
+}
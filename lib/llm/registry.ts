@@ -0,0 +1,77 @@
+import 'server-only';
+import { llmProviders, parseModelId } from '@/lib/config/llm-config';
+import { anthropicProvider } from './anthropic';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import type { ChatProvider } from './types';
+
+/**
+ * LLM Provider Registry
+ * Maps the provider prefix of a model string ("groq" in "groq/openai/gpt-oss-120b")
+ * to its implementation. Providers in llm-config.ts with a base URL are
+ * OpenAI-compatible endpoints and are created from their config entry;
+ * anything else can be added with registerProvider.
+ */
+
+const providers = new Map<string, ChatProvider>();
+
+for (const provider of [
+  anthropicProvider,
+  createOpenAICompatibleProvider({ id: 'openai', name: 'OpenAI', envKey: 'OPENAI_API_KEY' }),
+  createOpenAICompatibleProvider({
+    id: 'groq',
+    name: 'Groq',
+    baseURL: 'https://api.groq.com/openai/v1',
+    envKey: 'GROQ_API_KEY',
+  }),
+]) {
+  providers.set(provider.id, provider);
+}
+
+export function registerProvider(provider: ChatProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): ChatProvider | undefined {
+  const registered = providers.get(id);
+  if (registered) return registered;
+
+  const config = llmProviders.find(p => p.id === id);
+  if (!config || (!config.baseURL && !config.baseURLEnv)) return undefined;
+
+  const baseURL = config.baseURL || process.env[config.baseURLEnv!];
+  if (!baseURL) {
+    throw new Error(`No base URL configured for provider: ${id}. Set ${config.baseURLEnv}.`);
+  }
+
+  const provider = createOpenAICompatibleProvider({
+    id: config.id,
+    name: config.name,
+    baseURL,
+    envKey: config.envKey,
+    requiresApiKey: config.requiresApiKey,
+  });
+  providers.set(id, provider);
+  return provider;
+}
+
+/**
+ * Provider and provider-side model name for a model string like "anthropic/claude-sonnet-4-5"
+ */
+export function resolveModel(modelString: string): { provider: ChatProvider; model: string } {
+  const { provider: providerId, modelId } = parseModelId(modelString);
+  const provider = getProvider(providerId);
+  if (!provider) {
+    throw new Error(`Unknown LLM provider: ${providerId}`);
+  }
+  return { provider, model: modelId };
+}
+
+/**
+ * API key for a provider: the run's keys first (user keys from Settings), then its environment variable
+ */
+export function getProviderApiKey(
+  provider: ChatProvider,
+  apiKeys?: Record<string, string | undefined>
+): string | undefined {
+  return apiKeys?.[provider.id] || (provider.envKey ? process.env[provider.envKey] : undefined) || undefined;
+}
@@ -0,0 +1,53 @@
+import type { ResponseFormat, TokenUsage } from './types';
+
+/**
+ * Helpers shared by the provider implementations
+ */
+
+/**
+ * Prompt text asking for JSON, for providers (or endpoints) without native
+ * structured output
+ */
+export function jsonInstruction(format?: ResponseFormat): string | undefined {
+  if (!format || format.type === 'text') return undefined;
+  if (format.type === 'json') {
+    return 'Respond with a single valid JSON object and nothing else.';
+  }
+  return `Respond with a single valid JSON object matching this JSON Schema and nothing else:\n${JSON.stringify(format.schema)}`;
+}
+
+/**
+ * Tool arguments arrive as a JSON string from OpenAI-style APIs; keep the raw
+ * string when a model produced invalid JSON so the caller can still see it
+ */
+export function parseToolArguments(raw: unknown): any {
+  if (typeof raw !== 'string') return raw ?? {};
+  if (!raw.trim()) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+export function toTokenUsage(inputTokens = 0, outputTokens = 0, totalTokens?: number): TokenUsage {
+  return { inputTokens, outputTokens, totalTokens: totalTokens ?? inputTokens + outputTokens };
+}
+
+/**
+ * Wraps `onToken` so a response that never streamed (replayed from a cassette,
+ * or from an endpoint that answered in one piece) is still delivered once
+ */
+export function createTokenSink(onToken?: (text: string) => void) {
+  let streamed = false;
+  return {
+    push(text: string) {
+      if (!onToken || !text) return;
+      streamed = true;
+      onToken(text);
+    },
+    finish(text: string) {
+      if (onToken && !streamed && text) onToken(text);
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import type { Cassette } from '@/lib/workflow/cassettes';
+
+/**
+ * LLM Provider Types
+ * One chat interface for every model provider. Executors build a ChatRequest
+ * and call `provider.chat`; each provider translates it to its own API.
+ */
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  toolCalls?: ToolCall[]; // assistant: tools the model asked for
+  toolCallId?: string; // tool: the call this message answers
+}
+
+// A function the caller exposes to the model and runs itself
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  parameters: Record<string, any>; // JSON Schema of the arguments
+}
+
+// A tool call the model made that the caller still has to run
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: any;
+}
+
+// A tool call the caller ran, with its result
+export interface ExecutedToolCall {
+  id?: string;
+  name: string;
+  server?: string;
+  arguments?: any;
+  output?: any;
+}
+
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json' }
+  | { type: 'json_schema'; name: string; schema: Record<string, any> };
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  toolChoice?: 'auto' | 'none'; // 'none' keeps the tools in context but asks for a final answer
+  responseFormat?: ResponseFormat;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface ChatOptions {
+  apiKey?: string;
+  signal?: AbortSignal;
+  cassette?: Cassette;
+  onToken?: (text: string) => void; // Streams the response text as it is generated
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResponse {
+  text: string;
+  toolCalls: ToolCall[]; // Calls for the caller to run and answer with 'tool' messages
+  usage: TokenUsage;
+  model: string; // Model that served the response
+  finishReason?: 'stop' | 'tool_calls' | 'length' | string;
+}
+
+export interface ProviderCapabilities {
+  tools: boolean; // Function tools run by the caller
+  jsonSchema: boolean; // Native structured output; otherwise JSON is requested in the prompt
+  streaming: boolean;
+}
+
+export interface ChatProvider {
+  id: string; // Prefix of model strings, e.g. "anthropic" in "anthropic/claude-sonnet-4-5"
+  name: string;
+  envKey?: string; // Environment variable holding the API key
+  requiresApiKey: boolean;
+  capabilities: ProviderCapabilities;
+  chat(request: ChatRequest, options?: ChatOptions): Promise<ChatResponse>;
+}
@@ -0,0 +1,155 @@
+import 'server-only';
+import { APIError } from '@/lib/errors';
+import { cassetteFetch, type Cassette } from '@/lib/workflow/cassettes';
+import { traceToolCall } from '@/lib/workflow/tracing';
+
+/**
+ * MCP Client
+ * Minimal Streamable HTTP client for running MCP tools from the workflow
+ * itself: initialize, list tools, call a tool. Responses may come back as
+ * plain JSON or as a single-message event stream.
+ */
+
+const PROTOCOL_VERSION = '2025-03-26';
+
+export interface MCPServerConfig {
+  name: string;
+  url: string; // Already resolved ({FIRECRAWL_API_KEY} substituted)
+  accessToken?: string;
+  authToken?: string; // Legacy name for accessToken
+  headers?: Record<string, string>;
+}
+
+export interface MCPToolInfo {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, any>;
+}
+
+export interface MCPSession {
+  server: MCPServerConfig;
+  headers: Record<string, string>;
+  nextId: number;
+}
+
+interface MCPRequestOptions {
+  signal?: AbortSignal;
+  cassette?: Cassette;
+}
+
+/**
+ * Open a session: initialize, then confirm with notifications/initialized.
+ * Servers that hand out a session ID get it back on every later request.
+ */
+export async function connectMCPServer(server: MCPServerConfig, options: MCPRequestOptions = {}): Promise<MCPSession> {
+  const token = server.accessToken || server.authToken;
+  const session: MCPSession = {
+    server,
+    headers: {
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...server.headers,
+    },
+    nextId: 1,
+  };
+
+  const { response } = await sendRPC(session, 'mcp.initialize', 'initialize', {
+    protocolVersion: PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: 'open-agent-builder', version: '1.0.0' },
+  }, options);
+
+  const sessionId = response.headers.get('mcp-session-id');
+  if (sessionId) {
+    session.headers['Mcp-Session-Id'] = sessionId;
+  }
+
+  await postMessage(session, 'mcp.notify', { jsonrpc: '2.0', method: 'notifications/initialized' }, options);
+  return session;
+}
+
+export async function listMCPTools(session: MCPSession, options: MCPRequestOptions = {}): Promise<MCPToolInfo[]> {
+  const { result } = await sendRPC(session, 'mcp.list', 'tools/list', {}, options);
+  return Array.isArray(result?.tools) ? result.tools : [];
+}
+
+/**
+ * Call a tool. Tool-level failures (isError) are returned as the result, like
+ * the server reported them; protocol and HTTP failures throw.
+ */
+export async function callMCPTool(
+  session: MCPSession,
+  name: string,
+  args: unknown,
+  options: MCPRequestOptions = {}
+): Promise<any> {
+  return traceToolCall(name, async () => {
+    const { result } = await sendRPC(session, 'mcp.call', 'tools/call', { name, arguments: args ?? {} }, options);
+    return result;
+  }, { 'mcp.server.name': session.server.name });
+}
+
+async function sendRPC(
+  session: MCPSession,
+  kind: string,
+  method: string,
+  params: unknown,
+  options: MCPRequestOptions
+): Promise<{ result: any; response: Response }> {
+  const response = await postMessage(session, kind, {
+    jsonrpc: '2.0',
+    id: session.nextId++,
+    method,
+    params,
+  }, options);
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new APIError(
+      `MCP ${method} failed on ${session.server.name}: HTTP ${response.status}${body ? ` ${body.slice(0, 200)}` : ''}`,
+      response.status
+    );
+  }
+
+  const message = await readMessage(response);
+  if (message?.error) {
+    throw new Error(`MCP ${method} failed on ${session.server.name}: ${message.error.message || 'Unknown error'}`);
+  }
+  return { result: message?.result, response };
+}
+
+function postMessage(session: MCPSession, kind: string, message: unknown, options: MCPRequestOptions): Promise<Response> {
+  return cassetteFetch(options.cassette, kind, session.server.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...session.headers,
+    },
+    body: JSON.stringify(message),
+    signal: options.signal,
+  });
+}
+
+/**
+ * The JSON-RPC response from a JSON body, or the last message of an event stream
+ */
+async function readMessage(response: Response): Promise<any> {
+  const text = await response.text();
+  if (!text.trim()) return undefined;
+
+  if (!(response.headers.get('content-type') || '').includes('text/event-stream')) {
+    return JSON.parse(text);
+  }
+
+  let message: any;
+  for (const line of text.split('\n')) {
+    if (!line.startsWith('data:')) continue;
+    try {
+      const parsed = JSON.parse(line.slice(5).trim());
+      if ('result' in parsed || 'error' in parsed) message = parsed;
+    } catch {
+      // Partial or non-JSON data line
+    }
+  }
+  return message;
+}
@@ -0,0 +1,346 @@
+import type { Workflow, WorkflowEdge, WorkflowNode } from './types';
+import { validateNode } from './validation';
+import { extractVariableReferences, getTemplateReferenceRoots } from './variable-substitution';
+import { isFailureHandle } from './error-branches';
+import { normalizeMergeStrategy } from './merge';
+
+/**
+ * Workflow Analyzer
+ * Static checks run before execution: missing Start/End, nodes unreachable from
+ * Start, cycles that don't pass through a while or for-each node, dead ends that
+ * never reach End, {{ }} references to names no node produces, if-else nodes
+ * with a missing branch, merges waiting on branches that may not run, and the
+ * per-node field checks from validateNode.
+ */
+
+export type WorkflowIssueSeverity = 'error' | 'warning';
+
+export type WorkflowIssueCode =
+  | 'missing-start'
+  | 'missing-end'
+  | 'invalid-node'
+  | 'unreachable'
+  | 'uncontrolled-cycle'
+  | 'dead-end'
+  | 'unknown-reference'
+  | 'invalid-reference'
+  | 'missing-branch'
+  | 'conditional-merge';
+
+export interface WorkflowIssue {
+  code: WorkflowIssueCode;
+  severity: WorkflowIssueSeverity;
+  nodeId: string; // 'workflow' for issues that aren't about one node
+  field?: string;
+  message: string;
+}
+
+// Nodes whose outgoing edges are allowed to loop back into them
+const LOOP_NODE_TYPES = ['while', 'for-each'];
+
+// Names every template can read, whatever nodes the workflow has
+const BUILTIN_REFERENCE_NAMES = [
+  'input', 'lastOutput', 'state', 'error', 'now', 'uuid', 'env',
+  'item', 'index', 'iteration', 'originalClassification',
+];
+
+// Node data that isn't configuration (test data, canvas decoration)
+const SKIPPED_DATA_FIELDS = ['pinnedOutput', 'label', 'validationIssues'];
+
+const getNodeType = (node: WorkflowNode) => (node.data as any)?.nodeType || node.type;
+const getNodeName = (node: WorkflowNode) => (node.data as any)?.nodeName || (node.data as any)?.name || node.id;
+
+export function analyzeWorkflow(workflow: Pick<Workflow, 'nodes' | 'edges'>): WorkflowIssue[] {
+  const issues: WorkflowIssue[] = [];
+  const nodes = (workflow.nodes || []).filter(node => getNodeType(node) !== 'note');
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const edges = (workflow.edges || []).filter(edge => nodesById.has(edge.source) && nodesById.has(edge.target));
+
+  const startNodes = nodes.filter(node => getNodeType(node) === 'start');
+  const endNodes = nodes.filter(node => getNodeType(node) === 'end');
+
+  if (startNodes.length === 0) {
+    issues.push({ code: 'missing-start', severity: 'error', nodeId: 'workflow', message: 'Workflow must have a Start node' });
+  }
+  if (endNodes.length === 0 && nodes.length > 0) {
+    issues.push({ code: 'missing-end', severity: 'warning', nodeId: 'workflow', message: 'Workflow has no End node' });
+  }
+
+  for (const node of nodes) {
+    for (const error of validateNode(node)) {
+      issues.push({ code: 'invalid-node', severity: 'error', ...error });
+    }
+  }
+
+  issues.push(...findUnreachableNodes(nodes, edges, startNodes));
+  issues.push(...findUncontrolledCycles(nodes, edges));
+  if (endNodes.length > 0) {
+    issues.push(...findDeadEnds(nodes, edges, endNodes));
+  }
+  issues.push(...findMissingBranches(nodes, edges));
+  issues.push(...findConditionalMerges(nodes, edges));
+  issues.push(...findUnknownReferences(nodes));
+
+  return issues;
+}
+
+/**
+ * Issues keyed by node ID, for decorating the canvas
+ */
+export function groupIssuesByNode(issues: WorkflowIssue[]): Record<string, WorkflowIssue[]> {
+  const grouped: Record<string, WorkflowIssue[]> = {};
+  for (const issue of issues) {
+    (grouped[issue.nodeId] ||= []).push(issue);
+  }
+  return grouped;
+}
+
+function collectReachable(startIds: string[], next: (id: string) => string[]): Set<string> {
+  const seen = new Set<string>();
+  const queue = [...startIds];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    queue.push(...next(id));
+  }
+
+  return seen;
+}
+
+function findUnreachableNodes(nodes: WorkflowNode[], edges: WorkflowEdge[], startNodes: WorkflowNode[]): WorkflowIssue[] {
+  if (startNodes.length === 0) return [];
+
+  const reachable = collectReachable(
+    startNodes.map(node => node.id),
+    id => edges.filter(edge => edge.source === id).map(edge => edge.target)
+  );
+
+  return nodes
+    .filter(node => !reachable.has(node.id))
+    .map(node => ({
+      code: 'unreachable' as const,
+      severity: 'error' as const,
+      nodeId: node.id,
+      field: 'connections',
+      message: `"${getNodeName(node)}" can't be reached from Start`,
+    }));
+}
+
+function findDeadEnds(nodes: WorkflowNode[], edges: WorkflowEdge[], endNodes: WorkflowNode[]): WorkflowIssue[] {
+  const reachesEnd = collectReachable(
+    endNodes.map(node => node.id),
+    id => edges.filter(edge => edge.target === id).map(edge => edge.source)
+  );
+
+  return nodes
+    .filter(node => !reachesEnd.has(node.id))
+    .map(node => ({
+      code: 'dead-end' as const,
+      severity: 'warning' as const,
+      nodeId: node.id,
+      field: 'connections',
+      message: `"${getNodeName(node)}" never leads to an End node`,
+    }));
+}
+
+/**
+ * Cycles that survive removing every loop node have nothing bounding them.
+ * Each one is reported once, on its first node, as a strongly connected component.
+ */
+function findUncontrolledCycles(nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowIssue[] {
+  const candidates = nodes.filter(node => !LOOP_NODE_TYPES.includes(getNodeType(node)));
+  const candidateIds = new Set(candidates.map(node => node.id));
+  const successors = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (!candidateIds.has(edge.source) || !candidateIds.has(edge.target)) continue;
+    successors.set(edge.source, [...(successors.get(edge.source) || []), edge.target]);
+  }
+
+  // Tarjan's algorithm
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  const connect = (id: string) => {
+    indexes.set(id, nextIndex);
+    lowLinks.set(id, nextIndex);
+    nextIndex++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const target of successors.get(id) || []) {
+      if (!indexes.has(target)) {
+        connect(target);
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indexes.get(target)!));
+      }
+    }
+
+    if (lowLinks.get(id) === indexes.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component.reverse());
+    }
+  };
+
+  for (const node of candidates) {
+    if (!indexes.has(node.id)) connect(node.id);
+  }
+
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  return components
+    .filter(component => component.length > 1 || (successors.get(component[0]) || []).includes(component[0]))
+    .map(component => ({
+      code: 'uncontrolled-cycle' as const,
+      severity: 'error' as const,
+      nodeId: component[0],
+      field: 'connections',
+      message: `Cycle without a While loop: ${[...component, component[0]].map(id => getNodeName(nodesById.get(id)!)).join(' → ')}`,
+    }));
+}
+
+function findMissingBranches(nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowIssue[] {
+  const issues: WorkflowIssue[] = [];
+
+  for (const node of nodes) {
+    const nodeType = getNodeType(node);
+    if (nodeType !== 'if-else' && nodeType !== 'if / else') continue;
+
+    const handles = new Set(edges.filter(edge => edge.source === node.id).map(edge => edge.sourceHandle));
+    for (const branch of ['if', 'else']) {
+      if (!handles.has(branch)) {
+        issues.push({
+          code: 'missing-branch',
+          severity: 'warning',
+          nodeId: node.id,
+          field: 'connections',
+          message: `"${getNodeName(node)}" has no ${branch === 'if' ? 'If' : 'Else'} branch, so runs that take it will fail`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Merges that wait for every branch while some branch sits behind an if-else,
+ * switch or error edge. Those branches may not run, and then show up in the
+ * merged output as { status: 'skipped' } or { status: 'failed' }.
+ * Only edges after the point where the branches split are considered.
+ */
+function findConditionalMerges(nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowIssue[] {
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const predecessors = (id: string) => edges.filter(edge => edge.target === id).map(edge => edge.source);
+  const hasFailureEdge = (id: string) => edges.some(edge => edge.source === id && isFailureHandle(edge.sourceHandle));
+  const isConditional = (edge: WorkflowEdge) => {
+    const sourceType = getNodeType(nodesById.get(edge.source)!);
+    return sourceType === 'if-else' || sourceType === 'if / else' || sourceType === 'switch'
+      || isFailureHandle(edge.sourceHandle) || hasFailureEdge(edge.source);
+  };
+
+  const issues: WorkflowIssue[] = [];
+  for (const node of nodes) {
+    if (getNodeType(node) !== 'merge' || normalizeMergeStrategy((node.data as any)?.mergeStrategy) === 'first-completed') continue;
+
+    const sources = Array.from(new Set(predecessors(node.id)));
+    if (sources.length < 2) continue;
+
+    // Nodes upstream of every branch run (or not) for all of them alike
+    const upstream = sources.map(source => collectReachable([source], predecessors));
+    const shared = new Set(Array.from(upstream[0]).filter(id => upstream.every(set => set.has(id))));
+    const branchNodes = new Set([node.id, ...upstream.flatMap(set => Array.from(set)).filter(id => !shared.has(id))]);
+
+    if (edges.some(edge => branchNodes.has(edge.target) && isConditional(edge))) {
+      issues.push({
+        code: 'conditional-merge',
+        severity: 'warning',
+        nodeId: node.id,
+        field: 'connections',
+        message: `"${getNodeName(node)}" waits for every branch, but some may not run because they follow an if-else, switch or error branch; those show up as skipped or failed in its output`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function collectStrings(value: unknown, found: string[] = []): string[] {
+  if (typeof value === 'string') {
+    found.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectStrings(item, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectStrings(item, found));
+  }
+  return found;
+}
+
+function findUnknownReferences(nodes: WorkflowNode[]): WorkflowIssue[] {
+  const known = new Set(BUILTIN_REFERENCE_NAMES);
+  for (const node of nodes) {
+    const data: any = node.data || {};
+    known.add(node.id);
+    known.add(node.id.replace(/-/g, '_'));
+    if (data.nodeName) known.add(data.nodeName);
+    if (data.name) known.add(data.name);
+    if (data.stateKey) known.add(data.stateKey);
+    (data.inputVariables || []).forEach((variable: { name: string }) => known.add(variable.name));
+  }
+
+  const issues: WorkflowIssue[] = [];
+  for (const node of nodes) {
+    const data: any = node.data || {};
+    const reported = new Set<string>();
+
+    for (const [field, value] of Object.entries(data)) {
+      if (SKIPPED_DATA_FIELDS.includes(field)) continue;
+
+      for (const text of collectStrings(value)) {
+        for (const reference of extractVariableReferences(text)) {
+          if (reported.has(reference)) continue;
+
+          let roots: string[];
+          try {
+            roots = getTemplateReferenceRoots(reference);
+          } catch (error) {
+            reported.add(reference);
+            issues.push({
+              code: 'invalid-reference',
+              severity: 'warning',
+              nodeId: node.id,
+              field,
+              message: `{{${reference}}} is invalid: ${error instanceof Error ? error.message : 'unknown error'}`,
+            });
+            continue;
+          }
+
+          const unknown = roots.find(root => !known.has(root) && !root.includes('__'));
+          if (unknown) {
+            reported.add(reference);
+            issues.push({
+              code: 'unknown-reference',
+              severity: 'warning',
+              nodeId: node.id,
+              field,
+              message: `{{${reference}}} refers to "${unknown}", which no node or input provides`,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return issues;
+}
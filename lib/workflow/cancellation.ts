@@ -0,0 +1,125 @@
+import { CancellationError, WorkflowError } from '@/lib/errors';
+
+/**
+ * Execution Cancellation
+ * Tracks an AbortController per running execution and provides helpers
+ * for executors to stop cooperatively when the signal fires.
+ */
+
+// In-process registry of running executions (executionId -> controller)
+type CancellationRegistry = Map<string, AbortController>;
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __executionCancellation: CancellationRegistry | undefined;
+}
+
+function getRegistry(): CancellationRegistry {
+  if (!globalThis.__executionCancellation) {
+    globalThis.__executionCancellation = new Map();
+  }
+  return globalThis.__executionCancellation;
+}
+
+/**
+ * Register a running execution and get the controller that cancels it
+ */
+export function registerExecution(executionId: string): AbortController {
+  const controller = new AbortController();
+  getRegistry().set(executionId, controller);
+  return controller;
+}
+
+/**
+ * Forget an execution once it has finished (completed, failed or cancelled)
+ */
+export function unregisterExecution(executionId: string): void {
+  getRegistry().delete(executionId);
+}
+
+/**
+ * Abort a running execution in this process.
+ * Returns false when the execution isn't running here.
+ */
+export function cancelExecution(executionId: string, reason = 'Execution cancelled'): boolean {
+  const controller = getRegistry().get(executionId);
+  if (!controller) return false;
+
+  if (!controller.signal.aborted) {
+    controller.abort(new CancellationError(reason));
+  }
+  return true;
+}
+
+/**
+ * Whether an error came from an aborted signal rather than a real failure
+ */
+export function isCancellation(error: unknown, signal?: AbortSignal): boolean {
+  if (signal?.aborted) return true;
+  if (error instanceof CancellationError) return true;
+
+  const name = (error as any)?.name;
+  return name === 'AbortError' || name === 'APIUserAbortError';
+}
+
+/**
+ * Throw the abort reason if the signal has already fired
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw toAbortError(signal.reason);
+  }
+}
+
+/**
+ * Error to throw for an aborted signal. Workflow errors used as the abort
+ * reason (cancellation, timeouts) are passed through unchanged.
+ */
+export function toAbortError(reason?: unknown): WorkflowError {
+  if (reason instanceof WorkflowError) return reason;
+  return new CancellationError();
+}
+
+/**
+ * Race a promise against the signal for SDKs that don't accept one.
+ * The underlying work may keep running, but the workflow stops waiting on it.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(toAbortError(signal.reason));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(toAbortError(signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * setTimeout-based delay that rejects as soon as the signal fires
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(toAbortError(signal.reason));
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(toAbortError(signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
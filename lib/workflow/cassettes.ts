@@ -0,0 +1,260 @@
+import 'server-only';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CassetteMissError, ValidationError } from '@/lib/errors';
+import { isCancellation } from './cancellation';
+import { redactSecrets, redactText, toSecretList } from './redaction';
+import { getLogger } from './logger';
+
+/**
+ * Record/Replay Cassettes
+ * Record mode captures every external call executors make (LLM requests,
+ * Firecrawl SDK calls, HTTP node fetches, MCP tool calls) into one JSON file
+ * per execution. Replay mode serves those responses back so the same run can
+ * be reproduced offline, e.g. in CI without provider keys.
+ */
+
+// Directory cassette files are written to and read from
+export const CASSETTE_DIR_VAR = 'WORKFLOW_CASSETTE_DIR';
+const DEFAULT_CASSETTE_DIR = '.cassettes';
+
+// Stands in for provider keys during replay so executors take the same branches
+export const REPLAY_API_KEY = 'cassette-replay';
+
+const CASSETTE_VERSION = 1;
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface RecordedError {
+  name: string;
+  message: string;
+  status?: number;
+  type?: string; // provider error type, e.g. 'overloaded_error'
+}
+
+export interface CassetteInteraction {
+  kind: string; // e.g. 'anthropic.messages', 'firecrawl.scrape', 'http.fetch'
+  request: unknown;
+  response?: unknown;
+  error?: RecordedError;
+}
+
+export interface CassetteFile {
+  version: number;
+  id: string;
+  workflowId?: string;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+export interface Cassette {
+  mode: CassetteMode;
+  file: CassetteFile;
+  secrets: string[]; // values scrubbed from everything recorded
+  served: Set<number>; // replay: interactions already handed out
+}
+
+interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export function getCassetteDir(): string {
+  return path.resolve(process.env[CASSETTE_DIR_VAR] || DEFAULT_CASSETTE_DIR);
+}
+
+export function getCassettePath(id: string): string {
+  return path.join(getCassetteDir(), `${id.replace(/[^\w.-]/g, '_')}.json`);
+}
+
+/**
+ * Start recording a run. Secrets (API keys) are replaced with [redacted]
+ * wherever they appear, including inside URLs.
+ */
+export function createCassette(id: string, options?: { workflowId?: string; secrets?: Array<string | undefined | null> }): Cassette {
+  return {
+    mode: 'record',
+    file: {
+      version: CASSETTE_VERSION,
+      id,
+      workflowId: options?.workflowId,
+      recordedAt: new Date().toISOString(),
+      interactions: [],
+    },
+    secrets: toSecretList(options?.secrets || []),
+    served: new Set(),
+  };
+}
+
+/**
+ * Load a recorded cassette for replay
+ */
+export async function loadCassette(id: string): Promise<Cassette> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getCassettePath(id), 'utf8');
+  } catch {
+    throw new ValidationError(`Cassette ${id} not found in ${getCassetteDir()}`);
+  }
+
+  const file = JSON.parse(raw) as CassetteFile;
+  if (file.version !== CASSETTE_VERSION || !Array.isArray(file.interactions)) {
+    throw new ValidationError(`Cassette ${id} has an unsupported format`);
+  }
+
+  return { mode: 'replay', file, secrets: [], served: new Set() };
+}
+
+/**
+ * Write a recorded cassette to disk and return its path
+ */
+export async function saveCassette(cassette: Cassette): Promise<string> {
+  const filePath = getCassettePath(cassette.file.id);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(cassette.file, null, 2));
+  return filePath;
+}
+
+/**
+ * API keys for a run. Replays fill in missing keys with a placeholder, since
+ * the responses come from the cassette rather than the provider.
+ */
+export function withReplayKeys<T extends Record<string, string | undefined>>(apiKeys: T | undefined, cassette?: Cassette): T | undefined {
+  if (cassette?.mode !== 'replay') return apiKeys;
+
+  const keys: Record<string, string | undefined> = { ...apiKeys };
+  for (const provider of ['anthropic', 'openai', 'groq', 'firecrawl', 'arcade']) {
+    keys[provider] ||= REPLAY_API_KEY;
+  }
+  return keys as T;
+}
+
+/**
+ * Make an external call through the cassette. Without one, `call` runs as normal.
+ * `request` identifies the call; replays match on it first and otherwise fall
+ * back to the next unserved recording of the same kind, so values that change
+ * between runs ({{now}}, request IDs) don't break the replay.
+ */
+export async function withCassette<T>(
+  cassette: Cassette | undefined,
+  kind: string,
+  request: unknown,
+  call: () => Promise<T>
+): Promise<T> {
+  if (!cassette) return await call();
+
+  const recordedRequest = redactSecrets(request, cassette.secrets);
+
+  if (cassette.mode === 'replay') {
+    const interaction = takeRecording(cassette, kind, recordedRequest);
+    if (interaction.error) throw toReplayedError(interaction.error);
+    return interaction.response as T;
+  }
+
+  try {
+    const response = await call();
+    cassette.file.interactions.push({ kind, request: recordedRequest, response: redactSecrets(response, cassette.secrets) });
+    return response;
+  } catch (error) {
+    // A cancelled run didn't get an answer worth replaying
+    if (!isCancellation(error)) {
+      cassette.file.interactions.push({ kind, request: recordedRequest, error: toRecordedError(error, cassette.secrets) });
+    }
+    throw error;
+  }
+}
+
+/**
+ * fetch() through the cassette. The response body is stored as text and
+ * rebuilt into a Response on replay.
+ */
+export async function cassetteFetch(
+  cassette: Cassette | undefined,
+  kind: string,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  if (!cassette) return await fetch(url, init);
+
+  const request = {
+    url,
+    method: init.method || 'GET',
+    headers: init.headers,
+    body: typeof init.body === 'string' ? init.body : undefined,
+  };
+
+  const recorded = await withCassette<RecordedResponse>(cassette, kind, request, async () => {
+    const response = await fetch(url, init);
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+      body: await response.text(),
+    };
+  });
+
+  // Response rejects a body for null-body statuses
+  const body = [101, 204, 205, 304].includes(recorded.status) ? null : recorded.body;
+  return new Response(body, {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.headers,
+  });
+}
+
+function takeRecording(cassette: Cassette, kind: string, request: unknown): CassetteInteraction {
+  const key = stableStringify(request);
+  const { interactions } = cassette.file;
+
+  let index = interactions.findIndex((interaction, i) =>
+    !cassette.served.has(i) && interaction.kind === kind && stableStringify(interaction.request) === key
+  );
+
+  if (index === -1) {
+    index = interactions.findIndex((interaction, i) => !cassette.served.has(i) && interaction.kind === kind);
+    if (index !== -1) {
+      getLogger().warn(`Cassette ${cassette.file.id}: ${kind} request differs from the recording, replaying the next ${kind} response`);
+    }
+  }
+
+  if (index === -1) {
+    throw new CassetteMissError(`Cassette ${cassette.file.id} has no recorded ${kind} call left to replay`, kind);
+  }
+
+  cassette.served.add(index);
+  return interactions[index];
+}
+
+function toRecordedError(error: unknown, secrets: string[]): RecordedError {
+  const err = error as any;
+  return {
+    name: err?.name || 'Error',
+    message: redactText(err?.message || String(error), secrets),
+    status: typeof err?.status === 'number' ? err.status : undefined,
+    type: err?.error?.type ?? err?.error?.error?.type,
+  };
+}
+
+// Same shape provider SDK errors have, so retry classification still works
+function toReplayedError(recorded: RecordedError): Error {
+  const error = new Error(recorded.message) as Error & { status?: number; error?: { type: string } };
+  error.name = recorded.name;
+  if (recorded.status !== undefined) error.status = recorded.status;
+  if (recorded.type) error.error = { type: recorded.type };
+  return error;
+}
+
+// Key-order independent JSON, for matching requests
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
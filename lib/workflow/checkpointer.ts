@@ -0,0 +1,229 @@
+import 'server-only';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import {
+  BaseCheckpointSaver,
+  MemorySaver,
+  copyCheckpoint,
+  WRITES_IDX_MAP,
+  type Checkpoint,
+  type CheckpointListOptions,
+  type CheckpointMetadata,
+  type CheckpointTuple,
+  type PendingWrite,
+  type SerializerProtocol,
+} from '@langchain/langgraph-checkpoint';
+import { getConvexClient, isConvexConfigured, api } from '@/lib/convex/client';
+
+/**
+ * Durable LangGraph checkpointer backed by the Convex `checkpoints` and
+ * `checkpointWrites` tables.
+ *
+ * Checkpoints are keyed by (threadId, checkpointNs, checkpointId), so any
+ * instance can resume a thread that was paused on another one.
+ */
+
+// Shape returned by convex/checkpoints.ts getTuple/list
+interface StoredCheckpoint {
+  checkpoint: {
+    threadId: string;
+    checkpointNs: string;
+    checkpointId: string;
+    parentCheckpointId?: string;
+    checkpointType: string;
+    checkpoint: ArrayBuffer;
+    metadataType: string;
+    metadata: ArrayBuffer;
+  };
+  writes: Array<{
+    taskId: string;
+    idx: number;
+    channel: string;
+    valueType: string;
+    value: ArrayBuffer;
+  }>;
+}
+
+function toArrayBuffer(data: Uint8Array | string): ArrayBuffer {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+export class ConvexCheckpointSaver extends BaseCheckpointSaver {
+  constructor(serde?: SerializerProtocol) {
+    super(serde);
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    if (!threadId) return undefined;
+
+    const stored = await getConvexClient().query(api.checkpoints.getTuple, {
+      threadId,
+      checkpointNs: config.configurable?.checkpoint_ns ?? '',
+      checkpointId: config.configurable?.checkpoint_id,
+    });
+
+    return stored ? await this.toTuple(stored as StoredCheckpoint) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const threadId = config.configurable?.thread_id;
+    if (!threadId) {
+      // Cross-thread listing isn't indexed; callers always scope by thread
+      return;
+    }
+
+    const { before, limit, filter } = options ?? {};
+    const stored = await getConvexClient().query(api.checkpoints.list, {
+      threadId,
+      checkpointNs: config.configurable?.checkpoint_ns,
+      checkpointId: config.configurable?.checkpoint_id,
+      before: before?.configurable?.checkpoint_id,
+      // Metadata filters run client-side, so only push the limit down without one
+      limit: filter ? undefined : limit,
+    });
+
+    let remaining = limit;
+    for (const entry of stored as StoredCheckpoint[]) {
+      const tuple = await this.toTuple(entry);
+
+      if (filter && !Object.entries(filter).every(([key, value]) => (tuple.metadata as any)?.[key] === value)) {
+        continue;
+      }
+
+      if (remaining !== undefined) {
+        if (remaining <= 0) break;
+        remaining -= 1;
+      }
+
+      yield tuple;
+    }
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? '';
+
+    if (threadId === undefined) {
+      throw new Error('Failed to put checkpoint: config is missing "thread_id" in its "configurable" property.');
+    }
+
+    const [[checkpointType, serializedCheckpoint], [metadataType, serializedMetadata]] = await Promise.all([
+      this.serde.dumpsTyped(copyCheckpoint(checkpoint)),
+      this.serde.dumpsTyped(metadata),
+    ]);
+
+    await getConvexClient().mutation(api.checkpoints.put, {
+      threadId,
+      checkpointNs,
+      checkpointId: checkpoint.id,
+      parentCheckpointId: config.configurable?.checkpoint_id,
+      checkpointType,
+      checkpoint: toArrayBuffer(serializedCheckpoint),
+      metadataType,
+      metadata: toArrayBuffer(serializedMetadata),
+    });
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointId = config.configurable?.checkpoint_id;
+
+    if (threadId === undefined || checkpointId === undefined) {
+      throw new Error('Failed to put writes: config is missing "thread_id" or "checkpoint_id" in its "configurable" property.');
+    }
+
+    const serializedWrites = await Promise.all(
+      writes.map(async ([channel, value], idx) => {
+        const [valueType, serializedValue] = await this.serde.dumpsTyped(value);
+        return {
+          idx: WRITES_IDX_MAP[channel] ?? idx,
+          channel,
+          valueType,
+          value: toArrayBuffer(serializedValue),
+        };
+      })
+    );
+
+    await getConvexClient().mutation(api.checkpoints.putWrites, {
+      threadId,
+      checkpointNs: config.configurable?.checkpoint_ns ?? '',
+      checkpointId,
+      taskId,
+      writes: serializedWrites,
+    });
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await getConvexClient().mutation(api.checkpoints.deleteThread, { threadId });
+  }
+
+  private async toTuple({ checkpoint: doc, writes }: StoredCheckpoint): Promise<CheckpointTuple> {
+    const [checkpoint, metadata, pendingWrites] = await Promise.all([
+      this.serde.loadsTyped(doc.checkpointType, new Uint8Array(doc.checkpoint)),
+      this.serde.loadsTyped(doc.metadataType, new Uint8Array(doc.metadata)),
+      Promise.all(
+        writes.map(async (write) => [
+          write.taskId,
+          write.channel,
+          await this.serde.loadsTyped(write.valueType, new Uint8Array(write.value)),
+        ] as [string, string, unknown])
+      ),
+    ]);
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: doc.threadId,
+          checkpoint_ns: doc.checkpointNs,
+          checkpoint_id: doc.checkpointId,
+        },
+      },
+      checkpoint,
+      metadata,
+      pendingWrites,
+    };
+
+    if (doc.parentCheckpointId !== undefined) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: doc.threadId,
+          checkpoint_ns: doc.checkpointNs,
+          checkpoint_id: doc.parentCheckpointId,
+        },
+      };
+    }
+
+    return tuple;
+  }
+}
+
+// In-memory fallback for when Convex is not configured
+declare global {
+  // eslint-disable-next-line no-var
+  var __workflowCheckpointer: MemorySaver | undefined;
+}
+
+/**
+ * Get the checkpointer for workflow graphs.
+ * Uses Convex when configured; otherwise a process-wide MemorySaver so at
+ * least resumes within the same server process keep working.
+ */
+export function createCheckpointer(): BaseCheckpointSaver {
+  if (isConvexConfigured()) {
+    return new ConvexCheckpointSaver();
+  }
+
+  if (!globalThis.__workflowCheckpointer) {
+    globalThis.__workflowCheckpointer = new MemorySaver();
+  }
+  return globalThis.__workflowCheckpointer;
+}
@@ -0,0 +1,279 @@
+import 'server-only';
+import type { Tiktoken } from 'js-tiktoken/lite';
+import { getModelInfo } from '@/lib/config/llm-config';
+import { throwIfCancelled } from './cancellation';
+import { getLogger } from './logger';
+import { ContextStrategy, WorkflowState } from './types';
+import { collectTemplateValues, extractVariableReferences, substituteVariables } from './variable-substitution';
+
+/**
+ * Context Budget
+ * Fits the values a prompt template substitutes into the model's context
+ * window, counted in tokens. Values over their share of the budget are
+ * truncated, map-reduced over chunks, or have their overflow summarized,
+ * per the node's contextStrategy; every reduction is reported as a warning.
+ */
+
+export const CONTEXT_STRATEGIES: ContextStrategy[] = ['truncate-tail', 'truncate-head', 'map-reduce', 'summarize'];
+
+// Models missing from llm-config (custom or self-hosted) get a conservative window
+const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+// Left free for the response
+const OUTPUT_RESERVE_TOKENS = 4_096;
+
+// Counts come from o200k_base; other tokenizers (Claude's) run higher
+const TOKENIZER_HEADROOM = 0.85;
+
+// No value is cut below this; a prompt over budget even then is sent as is
+const MIN_VALUE_TOKENS = 256;
+
+// Room for the notes marking where content was cut or summarized
+const MARKER_TOKENS = 24;
+
+// Largest piece one map or summarize call reads
+const MAX_CHUNK_TOKENS = 24_000;
+
+// Longest task description passed along with each map-reduce chunk
+const MAX_TASK_TOKENS = 2_000;
+
+// Share of a summarized value kept verbatim; the rest of its budget holds the summary
+const SUMMARIZE_HEAD_SHARE = 0.6;
+
+export interface ContextBudgetOptions {
+  model: string; // Full model ID, e.g. anthropic/claude-sonnet-4-5-20250929
+  strategy?: ContextStrategy | string;
+  tokenLimit?: number | string;
+  reservedTokens?: number; // Taken by the rest of the request (chat history)
+  complete?: (prompt: string) => Promise<string>; // Runs a prompt on the node's model (map-reduce, summarize)
+  signal?: AbortSignal;
+}
+
+export interface FittedPrompt {
+  text: string;
+  warnings: string[];
+}
+
+export function parseContextStrategy(value: unknown): ContextStrategy {
+  return CONTEXT_STRATEGIES.includes(value as ContextStrategy) ? value as ContextStrategy : 'truncate-tail';
+}
+
+/**
+ * Prompt tokens available for a model: its context window less room for the
+ * response, lowered further by the node's contextTokenLimit
+ */
+export function getContextBudget(model: string, tokenLimit?: number | string): number {
+  const contextWindow = getModelInfo(model)?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+  const budget = Math.floor((contextWindow - OUTPUT_RESERVE_TOKENS) * TOKENIZER_HEADROOM);
+
+  const limit = Number(tokenLimit);
+  return tokenLimit !== undefined && tokenLimit !== '' && Number.isFinite(limit) && limit > 0
+    ? Math.min(budget, Math.floor(limit))
+    : budget;
+}
+
+export async function countTokens(text: string): Promise<number> {
+  return (await getTokenizer()).encode(text).length;
+}
+
+/**
+ * Substitute a template's variables, reducing the values that don't fit the
+ * budget. The budget is shared out so small values stay whole and the large
+ * ones split what is left. References with their own | truncate are kept.
+ */
+export async function fitTemplateToBudget(
+  template: string,
+  state: WorkflowState,
+  options: ContextBudgetOptions
+): Promise<FittedPrompt> {
+  const text = substituteVariables(template, state);
+  const tokenizer = await getTokenizer();
+  const budget = getContextBudget(options.model, options.tokenLimit) - (options.reservedTokens || 0);
+  const totalTokens = tokenizer.encode(text).length;
+  if (totalTokens <= budget) {
+    return { text, warnings: [] };
+  }
+
+  const references = extractVariableReferences(template);
+  const values = collectTemplateValues(template, state).map(value => ({
+    ...value,
+    tokens: tokenizer.encode(value.value).length,
+    occurrences: references.filter(reference => reference === value.reference).length,
+  }));
+
+  const reducible = values.filter(value => !value.limited).sort((a, b) => a.tokens - b.tokens);
+  let available = budget - totalTokens + reducible.reduce((sum, value) => sum + value.tokens * value.occurrences, 0);
+  let slots = reducible.reduce((sum, value) => sum + value.occurrences, 0);
+
+  const strategy = parseContextStrategy(options.strategy);
+  // The prompt with references as placeholders tells map-reduce what to keep
+  const task = keepTokens(
+    substituteVariables(template, state, { transformValue: (_, reference) => `[${reference}]` }),
+    MAX_TASK_TOKENS,
+    'start',
+    tokenizer
+  );
+  const reduced = new Map<string, string>();
+  const warnings: string[] = [];
+
+  for (const value of reducible) {
+    const share = Math.max(Math.floor(available / slots), MIN_VALUE_TOKENS);
+    available -= Math.min(value.tokens, share) * value.occurrences;
+    slots -= value.occurrences;
+    if (value.tokens <= share) continue;
+
+    const result = await reduceText(value.value, share, strategy, task, options, tokenizer);
+    reduced.set(value.reference, result.text);
+    warnings.push(
+      `{{${value.reference}}} was ${formatTokens(value.tokens)} tokens; ${result.description} ` +
+      `to fit the ${formatTokens(budget)}-token context budget of ${options.model}.`
+    );
+  }
+
+  const fitted = substituteVariables(template, state, {
+    transformValue: (value, reference) => reduced.get(reference) ?? value,
+  });
+
+  const fittedTokens = tokenizer.encode(fitted).length;
+  if (fittedTokens > budget) {
+    warnings.push(`Prompt is still ${formatTokens(fittedTokens)} tokens, over the ${formatTokens(budget)}-token context budget of ${options.model}.`);
+  }
+  for (const warning of warnings) {
+    getLogger().warn(warning);
+  }
+
+  return { text: fitted, warnings };
+}
+
+async function reduceText(
+  text: string,
+  maxTokens: number,
+  strategy: ContextStrategy,
+  task: string,
+  options: ContextBudgetOptions,
+  tokenizer: Tiktoken
+): Promise<{ text: string; description: string }> {
+  if ((strategy === 'map-reduce' || strategy === 'summarize') && !options.complete) {
+    strategy = 'truncate-tail';
+  }
+  const keep = Math.max(maxTokens - MARKER_TOKENS, 1);
+
+  switch (strategy) {
+    case 'truncate-head':
+      return {
+        text: `[Earlier content truncated]\n\n${keepTokens(text, keep, 'end', tokenizer)}`,
+        description: `kept the last ${formatTokens(keep)}`,
+      };
+
+    case 'map-reduce': {
+      const condensed = await mapReduce(text, keep, task, options, tokenizer);
+      return {
+        text: condensed,
+        description: `condensed to ${formatTokens(tokenizer.encode(condensed).length)} by extracting the relevant parts of each chunk`,
+      };
+    }
+
+    case 'summarize': {
+      const headTokens = Math.floor(keep * SUMMARIZE_HEAD_SHARE);
+      const tokens = tokenizer.encode(text);
+      const head = tokenizer.decode(tokens.slice(0, headTokens));
+      const overflow = tokenizer.decode(tokens.slice(headTokens));
+      const summary = await summarize(overflow, keep - headTokens, options, tokenizer);
+      return {
+        text: `${head}\n\n[Summary of the remaining ${formatTokens(tokens.length - headTokens)} tokens]\n${summary}`,
+        description: `kept the first ${formatTokens(headTokens)} and summarized the rest`,
+      };
+    }
+
+    default:
+      return {
+        text: `${keepTokens(text, keep, 'start', tokenizer)}\n\n[Remaining content truncated]`,
+        description: `kept the first ${formatTokens(keep)}`,
+      };
+  }
+}
+
+/**
+ * Map each chunk to the parts relevant to the task, then combine. Repeats
+ * while the result is still over budget and shrinking.
+ */
+async function mapReduce(
+  text: string,
+  maxTokens: number,
+  task: string,
+  options: ContextBudgetOptions,
+  tokenizer: Tiktoken
+): Promise<string> {
+  let current = text;
+  for (let round = 0; round < 3; round++) {
+    const chunks = splitTokens(current, getChunkTokens(options), tokenizer);
+    const parts: string[] = [];
+    for (let index = 0; index < chunks.length; index++) {
+      throwIfCancelled(options.signal);
+      parts.push(await options.complete!(
+        'This is one part of a document that is too long to read at once. Copy out everything in it that is ' +
+        'relevant to the task below (facts, figures, names, dates, links and quotes, word for word) and leave out ' +
+        'the rest. Reply with the extracted content only.\n\n' +
+        `Task:\n${task}\n\nPart ${index + 1} of ${chunks.length}:\n${chunks[index]}`
+      ));
+    }
+
+    const combined = parts.join('\n\n');
+    const combinedTokens = tokenizer.encode(combined).length;
+    if (combinedTokens <= maxTokens) return combined;
+    if (combinedTokens >= tokenizer.encode(current).length * 0.8) break;
+    current = combined;
+  }
+  return keepTokens(current, maxTokens, 'start', tokenizer);
+}
+
+async function summarize(text: string, maxTokens: number, options: ContextBudgetOptions, tokenizer: Tiktoken): Promise<string> {
+  const chunks = splitTokens(text, getChunkTokens(options), tokenizer);
+  // Rough words per chunk; tokens run about 0.75 words
+  const words = Math.max(50, Math.floor((maxTokens * 0.75) / chunks.length));
+
+  const summaries: string[] = [];
+  for (const chunk of chunks) {
+    throwIfCancelled(options.signal);
+    summaries.push(await options.complete!(
+      `Summarize the following text in at most ${words} words. Keep key facts, figures, names and links. ` +
+      `Reply with the summary only.\n\n${chunk}`
+    ));
+  }
+  return keepTokens(summaries.join('\n\n'), maxTokens, 'start', tokenizer);
+}
+
+// Chunks leave half the model's budget for the instructions and the answer
+function getChunkTokens(options: ContextBudgetOptions): number {
+  return Math.max(MIN_VALUE_TOKENS, Math.min(MAX_CHUNK_TOKENS, Math.floor(getContextBudget(options.model) / 2)));
+}
+
+function keepTokens(text: string, maxTokens: number, side: 'start' | 'end', tokenizer: Tiktoken): string {
+  const tokens = tokenizer.encode(text);
+  if (tokens.length <= maxTokens) return text;
+  return tokenizer.decode(side === 'start' ? tokens.slice(0, maxTokens) : tokens.slice(tokens.length - maxTokens));
+}
+
+function splitTokens(text: string, chunkTokens: number, tokenizer: Tiktoken): string[] {
+  const tokens = tokenizer.encode(text);
+  const chunks: string[] = [];
+  for (let start = 0; start < tokens.length; start += chunkTokens) {
+    chunks.push(tokenizer.decode(tokens.slice(start, start + chunkTokens)));
+  }
+  return chunks;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString('en-US');
+}
+
+// The o200k_base ranks are a few MB, so they load on first use
+let tokenizerPromise: Promise<Tiktoken> | undefined;
+
+function getTokenizer(): Promise<Tiktoken> {
+  tokenizerPromise ??= Promise.all([
+    import('js-tiktoken/lite'),
+    import('js-tiktoken/ranks/o200k_base'),
+  ]).then(([{ Tiktoken }, ranks]) => new Tiktoken(ranks.default));
+  return tokenizerPromise;
+}
@@ -0,0 +1,32 @@
+import { classifyError } from './retry';
+import { TIMEOUT_HANDLE } from './timeouts';
+
+/**
+ * Error Branches
+ * Any node can route a failure to its 'error' handle instead of failing the
+ * run. The caught error is exposed to that branch as the `error` variable, so
+ * fallback nodes can use {{error.message}} and {{error.code}}.
+ */
+
+export const ERROR_HANDLE = 'error';
+
+// The `error` variable seen by nodes on an error branch
+export interface CaughtNodeError {
+  message: string;
+  code: string;
+  nodeId: string;
+  nodeName: string;
+}
+
+export function isFailureHandle(handle: string | null | undefined): boolean {
+  return handle === ERROR_HANDLE || handle === TIMEOUT_HANDLE;
+}
+
+export function toCaughtNodeError(error: unknown, nodeId: string, nodeName: string): CaughtNodeError {
+  return {
+    message: error instanceof Error ? error.message : String(error ?? 'Unknown error'),
+    code: classifyError(error),
+    nodeId,
+    nodeName,
+  };
+}
@@ -0,0 +1,392 @@
+import 'server-only';
+import { getAuthenticatedConvexClient, api } from '@/lib/convex/client';
+import { LangGraphExecutor } from './langgraph';
+import { registerExecution, unregisterExecution } from './cancellation';
+import { createNodeEventHandler, createNodeTokenHandler, createNodeToolCallHandler } from './node-events';
+import { createCassette, loadCassette, saveCassette, type Cassette } from './cassettes';
+import { createLogger, logger, type Logger } from './logger';
+
+/**
+ * Execution Streams
+ * Runs a workflow stream for an SSE route and keeps its Convex execution
+ * record in step: registration for cancellation, API keys, logger and
+ * executor setup, and the pause/timeout/cancel/complete events.
+ * Shared by execute-stream, resume and checkpoint forks.
+ */
+
+type ConvexClient = Awaited<ReturnType<typeof getAuthenticatedConvexClient>>;
+
+export type SendEvent = (event: string, data: any) => void;
+
+export interface RunParams {
+  testMode: boolean;
+  streamTokens: boolean;
+  cassette?: { mode: 'record' } | { mode: 'replay'; id: string };
+}
+
+export interface ExecutionStreamOptions {
+  convex: ConvexClient;
+  workflow: any;
+  /** Workflow ID as given in the URL, echoed in events */
+  workflowId: string;
+  threadId: string;
+  /** ID the run is cancelled by and reported under */
+  executionId: string;
+  /** Convex execution record kept in step with the run, when there is one */
+  executionRecordId?: any;
+  userId?: string;
+  sendEvent: SendEvent;
+  /** Cancels the run when it fires (the client disconnecting) */
+  signal: AbortSignal;
+  params: Partial<RunParams>;
+  /** Event announcing the run once it has started, and its route-specific fields */
+  startEvent: { event: string; data?: Record<string, any> };
+  start: (
+    executor: LangGraphExecutor,
+    run: { signal: AbortSignal; testMode?: boolean; cassette?: Cassette }
+  ) => Promise<AsyncIterable<any>>;
+}
+
+/**
+ * SSE response whose events are written by `run`. An error thrown by `run`
+ * is sent as an `error` event; the stream closes when `run` settles.
+ */
+export function createEventStreamResponse(run: (sendEvent: SendEvent) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const sendEvent: SendEvent = (event, data) => {
+        try {
+          const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+          controller.enqueue(encoder.encode(message));
+        } catch (error) {
+          console.error('Failed to send SSE event:', error);
+        }
+      };
+
+      try {
+        await run(sendEvent);
+      } catch (error) {
+        sendEvent('error', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString(),
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable nginx buffering
+    },
+  });
+}
+
+/**
+ * Read ?testMode, ?streamTokens and ?cassette/?cassetteId from a run request
+ */
+export function readRunParams(searchParams: URLSearchParams): RunParams | { error: string } {
+  const flag = (name: string) => {
+    const value = searchParams.get(name);
+    return value === '1' || value === 'true';
+  };
+  const cassetteMode = searchParams.get('cassette');
+  const cassetteId = searchParams.get('cassetteId');
+
+  if (cassetteMode && cassetteMode !== 'record' && cassetteMode !== 'replay') {
+    return { error: 'cassette must be "record" or "replay"' };
+  }
+  if (cassetteMode === 'replay' && !cassetteId) {
+    return { error: 'cassetteId is required to replay a cassette' };
+  }
+
+  return {
+    testMode: flag('testMode'),
+    streamTokens: flag('streamTokens'),
+    cassette: cassetteMode === 'record'
+      ? { mode: 'record' }
+      : cassetteMode === 'replay' ? { mode: 'replay', id: cassetteId! } : undefined,
+  };
+}
+
+/**
+ * Load a workflow by custom ID, falling back to its Convex ID
+ */
+export async function findWorkflow(convex: ConvexClient, workflowId: string) {
+  let workflowDoc = await convex.query(api.workflows.getWorkflowByCustomId, {
+    customId: workflowId,
+  });
+
+  if (!workflowDoc && workflowId.startsWith('j')) {
+    try {
+      workflowDoc = await convex.query(api.workflows.getWorkflow, {
+        id: workflowId as any,
+      });
+    } catch (e) {
+      // Not a valid Convex ID
+    }
+  }
+
+  return workflowDoc;
+}
+
+/**
+ * Persist a new run so it can be cancelled from any instance. Runs still go
+ * ahead (under a generated ID) when the record can't be written.
+ */
+export async function createExecutionRecord(convex: ConvexClient, workflowDocId: any, input: any, threadId: string) {
+  let executionRecordId: any = null;
+  try {
+    executionRecordId = await convex.mutation(api.executions.createExecution, {
+      workflowId: workflowDocId,
+      input,
+      threadId,
+    });
+  } catch (e) {
+    console.warn('Failed to create execution record, continuing without persistence:', e);
+  }
+
+  return {
+    executionId: (executionRecordId || `exec_${Date.now()}`) as string,
+    executionRecordId,
+  };
+}
+
+/**
+ * API keys for a run - the user's own keys first, then the environment
+ */
+export async function loadRunApiKeys(userId?: string) {
+  const { getLLMApiKey } = await import('@/lib/api/llm-keys');
+
+  return {
+    anthropic: (userId ? await getLLMApiKey('anthropic', userId) : null) || process.env.ANTHROPIC_API_KEY,
+    groq: (userId ? await getLLMApiKey('groq', userId) : null) || process.env.GROQ_API_KEY,
+    openai: (userId ? await getLLMApiKey('openai', userId) : null) || process.env.OPENAI_API_KEY,
+    firecrawl: process.env.FIRECRAWL_API_KEY, // Firecrawl keys are still environment-only for now
+    arcade: process.env.ARCADE_API_KEY,
+  };
+}
+
+/**
+ * Run a workflow stream to the end (or to its next pause), sending its
+ * progress as events and recording the outcome on the execution record
+ */
+export async function runExecutionStream(options: ExecutionStreamOptions): Promise<void> {
+  const { convex, workflow, workflowId, threadId, executionId, executionRecordId, sendEvent, params } = options;
+
+  const abortController = registerExecution(executionId);
+  options.signal.addEventListener('abort', () => {
+    abortController.abort();
+  }, { once: true });
+
+  // Pick up cancellations made on other instances via the execution record
+  const cancellationPoll = executionRecordId
+    ? setInterval(async () => {
+        try {
+          const record = await convex.query(api.executions.getExecution, { id: executionRecordId });
+          if (record?.status === 'cancelled' && !abortController.signal.aborted) {
+            abortController.abort();
+          }
+        } catch (e) {
+          // Transient Convex errors shouldn't stop the run
+        }
+      }, 2000)
+    : null;
+
+  let cassette: Cassette | undefined;
+  // The run's own logger once its keys are known to redact
+  let log: Logger = logger;
+
+  try {
+    const apiKeys = await loadRunApiKeys(options.userId);
+
+    log = createLogger({
+      context: { executionId },
+      secrets: Object.values(apiKeys),
+      onLog: (entry) => sendEvent('log', entry),
+    });
+
+    const updateRecord = async (
+      mutation: 'updateExecution' | 'completeExecution' | 'cancelExecution',
+      fields: Record<string, any>
+    ) => {
+      if (!executionRecordId) return;
+      await convex.mutation(api.executions[mutation] as any, { id: executionRecordId, ...fields })
+        .catch((e: unknown) => log.warn('Failed to update execution record', e));
+    };
+
+    // Recording is named after this execution; replays read an earlier one
+    if (params.cassette?.mode === 'record') {
+      cassette = createCassette(executionId, {
+        workflowId: workflow.id,
+        secrets: Object.values(apiKeys),
+      });
+    } else if (params.cassette?.mode === 'replay') {
+      cassette = await loadCassette(params.cassette.id);
+    }
+
+    const nodeResults: Record<string, any> = {};
+    let executor: LangGraphExecutor;
+    try {
+      executor = new LangGraphExecutor(
+        workflow,
+        createNodeEventHandler(workflow, sendEvent, nodeResults),
+        apiKeys,
+        {
+          logger: log,
+          onNodeToken: params.streamTokens ? createNodeTokenHandler(sendEvent) : undefined,
+          onNodeToolCall: createNodeToolCallHandler(sendEvent),
+        }
+      );
+    } catch (graphBuildError) {
+      log.error('Failed to build LangGraph', graphBuildError);
+      sendEvent('error', {
+        error: graphBuildError instanceof Error ? graphBuildError.message : 'Graph compilation failed',
+        timestamp: new Date().toISOString(),
+      });
+      await updateRecord('completeExecution', {
+        error: graphBuildError instanceof Error ? graphBuildError.message : 'Graph compilation failed',
+      });
+      return;
+    }
+
+    const executionStream = await options.start(executor, {
+      signal: abortController.signal,
+      testMode: params.testMode,
+      cassette,
+    });
+
+    // Link the run's trace from the execution record
+    const traceId = executor.getTraceId();
+    if (traceId) {
+      updateRecord('updateExecution', { traceId });
+    }
+
+    sendEvent(options.startEvent.event, {
+      workflowId,
+      executionId,
+      threadId,
+      ...(traceId ? { traceId } : {}),
+      ...options.startEvent.data,
+      ...(params.testMode ? { testMode: true } : {}),
+      ...(params.cassette
+        ? { cassette: { mode: params.cassette.mode, id: params.cassette.mode === 'record' ? executionId : params.cassette.id } }
+        : {}),
+      timestamp: new Date().toISOString(),
+    });
+
+    let finalState: any = null;
+
+    try {
+      for await (const stateUpdate of executionStream) {
+        const mergedState = {
+          ...stateUpdate,
+          nodeResults: {
+            ...stateUpdate.nodeResults,
+            ...nodeResults,
+          },
+        };
+
+        finalState = mergedState;
+
+        sendEvent('state_update', {
+          nodeResults: mergedState.nodeResults,
+          currentNodeId: mergedState.currentNodeId,
+          pendingAuth: mergedState.pendingAuth,
+          timestamp: new Date().toISOString(),
+        });
+
+        // Check for pending auth/approval
+        if (mergedState.pendingAuth) {
+          sendEvent('workflow_paused', {
+            reason: 'pending_authorization',
+            pendingAuth: mergedState.pendingAuth,
+            executionId,
+            threadId,
+            timestamp: new Date().toISOString(),
+          });
+
+          await updateRecord('updateExecution', {
+            status: 'waiting-auth',
+            currentNodeId: mergedState.currentNodeId || undefined,
+            nodeResults: mergedState.nodeResults,
+          });
+          return;
+        }
+      }
+    } catch (streamError) {
+      log.error('Stream iteration error', streamError);
+      const error = streamError instanceof Error ? streamError.message : 'Stream error';
+      sendEvent('error', {
+        error,
+        timestamp: new Date().toISOString(),
+      });
+      await updateRecord('updateExecution', { nodeResults: finalState?.nodeResults ?? nodeResults });
+      await updateRecord('completeExecution', { error });
+      return;
+    }
+
+    // Node results carry each agent's serving model, so the record shows
+    // which fallback model actually ran
+    await updateRecord('updateExecution', { nodeResults: finalState?.nodeResults ?? nodeResults });
+
+    if (finalState?.status === 'timeout') {
+      await updateRecord('completeExecution', {
+        error: finalState.error,
+        status: 'timeout',
+      });
+
+      sendEvent('workflow_timeout', {
+        workflowId,
+        executionId,
+        threadId,
+        results: finalState.nodeResults || {},
+        error: finalState.error,
+        errorCode: finalState.errorCode,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (finalState?.status === 'cancelled') {
+      await updateRecord('cancelExecution', { reason: finalState.error });
+
+      sendEvent('workflow_cancelled', {
+        workflowId,
+        executionId,
+        threadId,
+        results: finalState.nodeResults || {},
+        reason: finalState.error,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    sendEvent('workflow_completed', {
+      workflowId,
+      executionId,
+      results: finalState?.nodeResults || {},
+      status: 'completed',
+      timestamp: new Date().toISOString(),
+    });
+
+    await updateRecord('completeExecution', {
+      error: finalState?.status === 'failed' ? finalState.error : undefined,
+    });
+  } finally {
+    if (cancellationPoll) clearInterval(cancellationPoll);
+    unregisterExecution(executionId);
+    // Keep whatever was recorded, even for failed or paused runs. Awaited so
+    // the save is still reported on the stream before it closes
+    if (cassette?.mode === 'record') {
+      await saveCassette(cassette)
+        .then((filePath) => log.info(`Cassette saved to ${filePath}`))
+        .catch((e) => log.warn('Failed to save cassette', e));
+    }
+  }
+}
@@ -1,26 +1,62 @@
 import 'server-only';
-import { WorkflowNode, WorkflowState } from '../types';
-import { substituteVariables } from '../variable-substitution';
+import { NodeToolCall, WorkflowNode, WorkflowState } from '../types';
+import { countTokens, fitTemplateToBudget, getContextBudget } from '../context-budget';
 import { resolveMCPServers, migrateMCPData } from '@/lib/mcp/resolver';
+import { isCancellation, throwIfCancelled, toAbortError } from '../cancellation';
+import { REPLAY_API_KEY, type Cassette } from '../cassettes';
+import { ErrorCodes } from '@/lib/errors';
+import { classifyError, RETRYABLE_ERROR_CODES } from '../retry';
+import { recordToolNames } from '../tracing';
+import { getLogger } from '../logger';
+import { getProviderApiKey, resolveModel } from '@/lib/llm/registry';
+import { callMCPTool, connectMCPServer, listMCPTools, type MCPSession, type MCPToolInfo } from '@/lib/mcp/client';
+import type { ChatMessage, ChatOptions, ChatProvider, ChatRequest, ChatResponse, ExecutedToolCall, ResponseFormat, ToolCall, ToolDefinition } from '@/lib/llm/types';
+
+const DEFAULT_AGENT_MODEL = 'anthropic/claude-sonnet-4-5-20250929';
+
+/**
+ * Shape a canned response (MOCK_AGENT_RESPONSE or a pinned output) like a real agent result
+ */
+export function createMockAgentOutput(node: WorkflowNode, output: unknown) {
+  const chatHistoryUpdates = node.data.includeChatHistory
+    ? [
+        { role: 'user', content: node.data.instructions || '' },
+        { role: 'assistant', content: typeof output === 'string' ? output : JSON.stringify(output) },
+      ]
+    : [];
+
+  return {
+    __agentValue: output,
+    __agentToolCalls: [],
+    __chatHistoryUpdates: chatHistoryUpdates,
+    __variableUpdates: { lastOutput: output },
+  };
+}
+
+export interface AgentStreamHandlers {
+  onToken?: (token: string) => void; // Response text as the model generates it
+  onReset?: (text: string) => void; // Replaces the text so far when a failed model's partial output is dropped
+  onToolCall?: (toolCall: NodeToolCall) => void; // Each tool call once its result is in
+}
 
 /**
  * Execute Agent Node - Calls LLM with instructions and tools
  * Server-side only - called from API routes
+ * Tool calls repeat for up to `maxSteps` model calls (default 5)
+ * Provider errors move the run down the node's `fallbackModels`
  */
 export async function executeAgentNode(
   node: WorkflowNode,
   state: WorkflowState,
-  apiKeys?: { anthropic?: string; groq?: string; openai?: string; firecrawl?: string }
+  apiKeys?: { anthropic?: string; groq?: string; openai?: string; firecrawl?: string },
+  signal?: AbortSignal,
+  cassette?: Cassette,
+  streams?: AgentStreamHandlers
 ): Promise<any> {
   const { data } = node;
 
   try {
-    // Substitute variables in instructions
-    const originalInstructions = data.instructions || 'Process the input';
-    const instructions = substituteVariables(originalInstructions, state);
-
-    // Build context from previous node output
-    const lastOutput = state.variables?.lastOutput;
+    throwIfCancelled(signal);
 
     // Migrate data if using old format
     const migratedData = migrateMCPData(data);
@@ -55,411 +91,124 @@ export async function executeAgentNode(
       }
 
       if (mockOutput !== undefined) {
-        const mockChatUpdates = data.includeChatHistory
-          ? [
-              { role: 'user', content: data.instructions || '' },
-              { role: 'assistant', content: typeof mockOutput === 'string' ? mockOutput : JSON.stringify(mockOutput) },
-            ]
-          : [];
-
-        return {
-          __agentValue: mockOutput,
-          __agentToolCalls: [],
-          __chatHistoryUpdates: mockChatUpdates,
-          __variableUpdates: { lastOutput: mockOutput },
-        };
+        return createMockAgentOutput(node, mockOutput);
       }
     }
 
-    // Truncate lastOutput if it's too large to avoid rate limits
-    let truncatedLastOutput = lastOutput;
-    if (lastOutput && typeof lastOutput === 'string' && lastOutput.length > 8000) {
-      truncatedLastOutput = lastOutput.substring(0, 8000) + '\n\n[Content truncated to save tokens...]';
-      console.warn(`⚠️ Truncating lastOutput from ${lastOutput.length} to 8000 chars to avoid rate limits`);
-    } else if (lastOutput && typeof lastOutput === 'object') {
-      const lastOutputStr = JSON.stringify(lastOutput);
-      if (lastOutputStr.length > 8000) {
-        truncatedLastOutput = JSON.stringify(lastOutput).substring(0, 8000) + '...[truncated]';
-        console.warn(`⚠️ Truncating lastOutput object from ${lastOutputStr.length} to 8000 chars`);
+    // The node's model, then its fallbacks in order
+    const models = resolveAgentModels([data.model || DEFAULT_AGENT_MODEL, ...(data.fallbackModels || [])], apiKeys, cassette);
+    let active = 0;
+
+    // Text streamed so far, so a failed call's partial output can be taken back
+    let streamed = '';
+    const onToken = streams?.onToken && ((token: string) => {
+      streamed += token;
+      streams.onToken!(token);
+    });
+
+    // Call the active model, moving to the next one when its provider fails.
+    // The rest of the run stays on the model that answered.
+    const chat = async (request: Omit<ChatRequest, 'model'>, options: Omit<ChatOptions, 'apiKey'>): Promise<ChatResponse> => {
+      for (;;) {
+        const { id, provider, model, apiKey } = models[active];
+        const streamedBefore = streamed;
+        try {
+          return await provider.chat({ ...request, model }, { ...options, apiKey });
+        } catch (error) {
+          // Only provider trouble (rate limits, overload, 5xx, network, timeouts)
+          // falls back; a bad request, key or model name fails as itself
+          const code = classifyError(error);
+          const providerFailure = RETRYABLE_ERROR_CODES.some(retryable => retryable.code === code);
+          if (isCancellation(error, signal) || !providerFailure || active === models.length - 1) {
+            throw error;
+          }
+          if (streamed !== streamedBefore) {
+            streamed = streamedBefore;
+            streams?.onReset?.(streamed);
+          }
+          active++;
+          getLogger().warn(`${id} failed (${error instanceof Error ? error.message : 'Unknown error'}), falling back to ${models[active].id}`);
+        }
       }
-    }
+    };
 
-    // Use the already-substituted instructions from line 20
-    // Don't re-process or append context if variables are already substituted
-    const contextualPrompt = instructions;
+    // Substitute variables in instructions, reducing values too large for the
+    // model's context (the chat history counts against it). The prompt has to
+    // fit every model in the chain, so the smallest context window decides.
+    const budgetModel = models.reduce((smallest, candidate) =>
+      getContextBudget(candidate.id) < getContextBudget(smallest.id) ? candidate : smallest
+    ).id;
+    const history = data.includeChatHistory ? state.chatHistory as ChatMessage[] : [];
+    const { text: instructions, warnings } = await fitTemplateToBudget(data.instructions || 'Process the input', state, {
+      model: budgetModel,
+      strategy: data.contextStrategy,
+      tokenLimit: data.contextTokenLimit,
+      reservedTokens: history.length > 0 ? await countTokens(history.map(message => message.content).join('\n')) : 0,
+      complete: async prompt => (await chat({ messages: [{ role: 'user', content: prompt }] }, { signal, cassette })).text,
+      signal,
+    });
 
     // Prepare messages
-    const messages = data.includeChatHistory && state.chatHistory.length > 0
-      ? [
-          ...state.chatHistory,
-          { role: 'user' as const, content: contextualPrompt },
-        ]
-      : [{ role: 'user' as const, content: contextualPrompt }];
-
-    // Parse model string (handle models with slashes like groq/openai/gpt-oss-120b)
-    const modelString = data.model || 'anthropic/claude-sonnet-4-5-20250929';
-    let provider: string;
-    let modelName: string;
-
-    if (modelString.includes('/')) {
-      const firstSlashIndex = modelString.indexOf('/');
-      provider = modelString.substring(0, firstSlashIndex);
-      modelName = modelString.substring(firstSlashIndex + 1);
-    } else {
-      provider = 'openai';
-      modelName = modelString;
-    }
+    const messages: ChatMessage[] = [...history, { role: 'user', content: instructions }];
 
-    // Use native SDKs for better MCP support
-    let responseText = '';
-    interface LLMUsage {
-      input_tokens?: number;
-      output_tokens?: number;
-      total_tokens?: number;
-      prompt_tokens?: number;
-      completion_tokens?: number;
-      [key: string]: unknown;
-    }
-    let usage: LLMUsage = {
-      input_tokens: 0,
-      output_tokens: 0,
-      total_tokens: 0,
-      prompt_tokens: 0,
-      completion_tokens: 0,
+    const request: Omit<ChatRequest, 'model'> = {
+      messages,
+      responseFormat: getResponseFormat(data),
     };
-    let toolCalls: any[] = [];
-
-    // Check if MCP tools are configured
-    // mcpTools already resolved above from mcpServerIds or mcpTools
-    const hasMcpTools = mcpTools.length > 0;
 
-    if (provider === 'anthropic' && apiKeys?.anthropic) {
-      // Use native Anthropic SDK for MCP support
-      const Anthropic = (await import('@anthropic-ai/sdk')).default;
-      const client = new Anthropic({ apiKey: apiKeys.anthropic });
+    const maxSteps = parseMaxSteps(data.maxSteps);
+    const chatOptions = { signal, cassette, onToken };
 
-      if (hasMcpTools) {
-        // Separate Arcade from real MCP tools
-        const arcadeTools = mcpTools.filter((mcp: any) => mcp.name?.toLowerCase().includes('arcade'));
-        const realMcpTools = mcpTools.filter((mcp: any) => !mcp.name?.toLowerCase().includes('arcade'));
-
-        if (arcadeTools.length > 0) {
-          console.warn('⚠️ Arcade tools detected in MCP config - these will be skipped');
-        }
+    // mcpTools already resolved above from mcpServerIds or mcpTools
+    const tools = maxSteps > 1 && mcpTools.length > 0
+      ? await loadAgentTools(mcpTools, apiKeys, signal, cassette)
+      : [];
 
-        // Build MCP servers configuration
-        const mcpServers = realMcpTools.map((mcp: any) => ({
-          type: 'url' as const,
-          url: mcp.url.includes('{FIRECRAWL_API_KEY}')
-            ? mcp.url.replace('{FIRECRAWL_API_KEY}', apiKeys.firecrawl || '')
-            : mcp.url,
-          name: mcp.name,
-          authorization_token: mcp.accessToken,
-        }));
-
-        // Retry logic for overloaded errors (529)
-        let response;
-        let retries = 3;
-        let lastError: any = null;
-        
-        while (retries > 0) {
-          try {
-            response = await client.beta.messages.create({
-              model: modelName,
-              max_tokens: 3000, // Reduced from 4096 to stay within rate limits
-              messages: messages as any,
-              mcp_servers: mcpServers as any,
-              betas: ['mcp-client-2025-04-04'],
-            } as any);
-            break; // Success, exit retry loop
-          } catch (error: any) {
-            lastError = error;
-            const errorMessage = error?.message || error?.error?.message || '';
-            const errorType = error?.error?.type || '';
-            
-            // Check if it's an overloaded error (529) or rate limit (429)
-            const isRetryable = (errorType === 'overloaded_error' || errorType === 'rate_limit_error' || 
-                                errorMessage.includes('529') || errorMessage.includes('429') || 
-                                errorMessage.includes('Overloaded') || errorMessage.includes('rate limit'));
-            
-            if (isRetryable && retries > 1) {
-              const delay = Math.pow(2, 4 - retries) * 1000; // Exponential backoff: 2s, 4s, 8s
-              const errorName = errorType === 'rate_limit_error' || errorMessage.includes('429') ? 'rate limited (429)' : 'overloaded (529)';
-              console.warn(`⚠️ API ${errorName}, retrying in ${delay}ms... (${retries - 1} attempts left)`);
-              await new Promise(resolve => setTimeout(resolve, delay));
-              retries--;
-              continue;
-            }
-            throw error; // Not retryable or out of retries, throw immediately
-          }
-        }
-        
-        if (!response) {
-          throw lastError || new Error('Failed to get API response after retries');
-        }
+    // Tool-use loop: run the tools the model asks for and send back their
+    // results until it answers. The last step withholds tools so it must.
+    const conversation = [...messages];
+    const toolCalls: NodeToolCall[] = [];
+    let response!: ChatResponse;
+    for (let step = 1; step <= maxSteps; step++) {
+      throwIfCancelled(signal);
+      const lastStep = step === maxSteps;
+
+      response = await chat({
+        ...request,
+        messages: conversation,
+        ...(tools.length > 0 && {
+          tools: tools.map(tool => tool.definition),
+          toolChoice: lastStep ? 'none' : 'auto',
+        }),
+      }, chatOptions);
+
+      if (response.toolCalls.length === 0) break;
+      if (lastStep) {
+        getLogger().warn(`Agent reached its ${maxSteps} step limit with tool calls pending; using the text it returned`);
+        break;
+      }
 
-        // Extract text and tool information from content
-        // Handle both standard tool_use and mcp_tool_use formats
-        const toolUses = response.content.filter((item: any) =>
-          item.type === 'tool_use' || item.type === 'mcp_tool_use'
-        );
-        const toolResults = response.content.filter((item: any) =>
-          item.type === 'tool_result' || item.type === 'mcp_tool_result'
-        );
-        const textBlocks = response.content.filter((item: any) => item.type === 'text');
-
-        responseText = textBlocks.map((item: any) => item.text).join('\n');
-        usage = (response.usage as any) || {};
-
-        // Format tool calls for logging and UI display
-        toolCalls = toolUses.map((item: any, idx: number) => {
-          const toolCall: any = {
-            type: item.type,
-            name: item.name,
-            server_name: item.server_name || 'MCP',
-            arguments: item.input, // Map 'input' to 'arguments' for UI compatibility
-            tool_use_id: item.id,
-          };
-
-          // Include tool result if available - extract output correctly for both formats
-          if (toolResults[idx]) {
-            const result = toolResults[idx] as any;
-            if (result.is_error) {
-              toolCall.output = { error: result.content };
-            } else if (Array.isArray(result.content)) {
-              toolCall.output = result.content[0]?.text || result.content;
-            } else {
-              toolCall.output = result.content;
-            }
-          }
+      const results = await Promise.all(response.toolCalls.map(async call => {
+        const result = await runAgentTool(call, tools, signal, cassette);
+        const nodeCall = toNodeToolCall(result, step);
+        toolCalls.push(nodeCall);
+        streams?.onToolCall?.(nodeCall);
+        return result;
+      }));
+
+      conversation.push(
+        { role: 'assistant', content: response.text, toolCalls: response.toolCalls },
+        ...results.map(result => ({
+          role: 'tool' as const,
+          toolCallId: result.id,
+          content: JSON.stringify(result.output),
+        }))
+      );
+    }
 
-          return toolCall;
-        });
-      } else {
-        // Regular Anthropic call without MCP
-        // Retry logic for overloaded errors (529)
-        let response;
-        let retries = 3;
-        let lastError: any = null;
-        
-        while (retries > 0) {
-          try {
-            response = await client.messages.create({
-              model: modelName,
-              max_tokens: 3000, // Reduced from 4096 to stay within rate limits
-              messages: messages as any,
-            });
-            break; // Success, exit retry loop
-          } catch (error: any) {
-            lastError = error;
-            const errorMessage = error?.message || error?.error?.message || '';
-            const errorType = error?.error?.type || '';
-            
-            // Check if it's an overloaded error (529) or rate limit (429)
-            const isRetryable = (errorType === 'overloaded_error' || errorType === 'rate_limit_error' || 
-                                errorMessage.includes('529') || errorMessage.includes('429') || 
-                                errorMessage.includes('Overloaded') || errorMessage.includes('rate limit'));
-            
-            if (isRetryable && retries > 1) {
-              const delay = Math.pow(2, 4 - retries) * 1000; // Exponential backoff: 2s, 4s, 8s
-              const errorName = errorType === 'rate_limit_error' || errorMessage.includes('429') ? 'rate limited (429)' : 'overloaded (529)';
-              console.warn(`⚠️ API ${errorName}, retrying in ${delay}ms... (${retries - 1} attempts left)`);
-              await new Promise(resolve => setTimeout(resolve, delay));
-              retries--;
-              continue;
-            }
-            throw error; // Not retryable or out of retries, throw immediately
-          }
-        }
-        
-        if (!response) {
-          throw lastError || new Error('Failed to get API response after retries');
-        }
+    const responseText = response.text;
 
-        responseText = response.content[0].type === 'text' ? response.content[0].text : '';
-        usage = (response.usage as any) || {};
-      }
-    } else if (provider === 'openai' && apiKeys?.openai) {
-      const hasMcpTools = mcpTools && mcpTools.length > 0;
-
-      if (hasMcpTools) {
-        // Use native OpenAI SDK for function calling
-        const OpenAI = (await import('openai')).default;
-        const client = new OpenAI({ apiKey: apiKeys.openai });
-
-        // Convert MCP tools to OpenAI function format
-        const tools = mcpTools.map((mcp: any) => ({
-          type: "function" as const,
-          function: {
-            name: mcp.name || mcp.toolName || 'unknown_tool',
-            description: mcp.description || 'No description',
-            parameters: {
-              type: "object",
-              properties: mcp.schema?.properties || {},
-              required: mcp.schema?.required || []
-            }
-          }
-        }));
-
-        // First call with tools
-        const response = await client.chat.completions.create({
-          model: modelName,
-          messages: messages as any,
-          tools,
-          tool_choice: "auto"
-        });
-
-        const message = response.choices[0].message;
-        usage = (response.usage as unknown as LLMUsage) || ({} as LLMUsage);
-
-        // Handle tool calls
-        if (message.tool_calls && message.tool_calls.length > 0) {
-          // Execute MCP tools
-          const toolResults = await Promise.all(
-            message.tool_calls.map(async (call: any) => {
-              try {
-                // Find the MCP server for this tool
-                const mcpServer = mcpTools.find((m: any) =>
-                  (m.name || m.toolName) === call.function.name
-                );
-
-                if (!mcpServer) {
-                  throw new Error(`MCP server not found for tool: ${call.function.name}`);
-                }
-
-                // Parse arguments
-                const args = JSON.parse(call.function.arguments);
-
-                // Call MCP tool via HTTP
-                const mcpResponse = await fetch(mcpServer.url, {
-                  method: 'POST',
-                  headers: {
-                    'Content-Type': 'application/json',
-                    ...(mcpServer.authToken && { 'Authorization': `Bearer ${mcpServer.authToken}` })
-                  },
-                  body: JSON.stringify({
-                    jsonrpc: '2.0',
-                    id: Date.now(),
-                    method: 'tools/call',
-                    params: {
-                      name: call.function.name,
-                      arguments: args
-                    }
-                  })
-                });
-
-                const result = await mcpResponse.json();
-                return {
-                  tool_call_id: call.id,
-                  role: "tool" as const,
-                  content: JSON.stringify(result.result || result)
-                };
-              } catch (error) {
-                return {
-                  tool_call_id: call.id,
-                  role: "tool" as const,
-                  content: JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' })
-                };
-              }
-            })
-          );
-
-          // Second call with tool results
-          const finalResponse = await client.chat.completions.create({
-            model: modelName,
-            messages: [
-              ...messages as any,
-              message,
-              ...toolResults
-            ]
-          });
-
-          responseText = finalResponse.choices[0].message.content || '';
-          usage = {
-            ...usage,
-            prompt_tokens: (usage.prompt_tokens || 0) + (finalResponse.usage?.prompt_tokens || 0),
-            completion_tokens: (usage.completion_tokens || 0) + (finalResponse.usage?.completion_tokens || 0),
-            total_tokens: (usage.total_tokens || 0) + (finalResponse.usage?.total_tokens || 0),
-          };
-
-          // Track tool calls
-          toolCalls = message.tool_calls.map((call: any, idx) => ({
-            id: call.id,
-            name: call.function.name,
-            arguments: JSON.parse(call.function.arguments),
-            output: toolResults[idx] ? JSON.parse(toolResults[idx].content) : null
-          }));
-        } else {
-          responseText = message.content || '';
-        }
-      } else {
-        // Regular OpenAI call without MCP tools
-        const { ChatOpenAI } = await import('@langchain/openai');
-        const model = new ChatOpenAI({
-          apiKey: apiKeys.openai,
-          model: modelName,
-        });
-
-        const response = await model.invoke(messages);
-        responseText = response.content as string;
-        usage = response.response_metadata?.usage || {};
-      }
-    } else if (provider === 'groq' && apiKeys?.groq) {
-      const hasMcpTools = mcpTools && mcpTools.length > 0;
-
-      if (hasMcpTools) {
-        // Use Groq Responses API for MCP support
-        const OpenAI = (await import('openai')).default;
-        const client = new OpenAI({
-          apiKey: apiKeys.groq,
-          baseURL: 'https://api.groq.com/openai/v1',
-        });
-
-        // Convert MCP tools to Groq Responses API format
-        const tools = mcpTools.map((mcp: any) => ({
-          type: "mcp" as const,
-          server_label: mcp.name || mcp.toolName || 'unknown_tool',
-          server_url: mcp.url,
-        }));
-
-        // Use Responses API endpoint for MCP support
-        const response = await client.responses.create({
-          model: modelName,
-          input: messages[messages.length - 1].content as string,
-          tools,
-        } as any);
-
-        responseText = (response as any).output_text || '';
-        usage = (response as any).usage || {};
-
-        // Track tool calls if available
-        const outputs = (response as any).output || [];
-        toolCalls = outputs
-          .filter((o: any) => o.type === 'tool_use')
-          .map((o: any) => ({
-            id: o.id,
-            name: o.name,
-            arguments: o.input,
-            output: null,
-          }));
-      } else {
-        // Regular Groq chat completions for non-MCP calls
-        const { ChatOpenAI } = await import('@langchain/openai');
-        const model = new ChatOpenAI({
-          apiKey: apiKeys.groq,
-          model: modelName,
-          configuration: {
-            baseURL: 'https://api.groq.com/openai/v1',
-          },
-        });
-
-        const response = await model.invoke(messages);
-        responseText = response.content as string;
-        usage = response.response_metadata?.usage || {};
-      }
-    } else {
-      throw new Error(`No API key available for provider: ${provider}`);
-    }
+    recordToolNames(toolCalls);
 
     // Prepare chat history updates (IMMUTABLE - don't mutate state)
     const serverChatUpdates = data.includeChatHistory
@@ -474,7 +223,7 @@ export async function executeAgentNode(
       try {
         output = JSON.parse(responseText);
       } catch (e) {
-        console.warn('Could not parse JSON output, using raw text');
+        getLogger().warn('Could not parse JSON output, using raw text');
       }
     }
 
@@ -484,30 +233,250 @@ export async function executeAgentNode(
       __agentToolCalls: toolCalls,
       __chatHistoryUpdates: serverChatUpdates,
       __variableUpdates: { lastOutput: output },
+      __agentModel: models[active].id,
+      __warnings: warnings,
     };
   } catch (error) {
-    console.error('Agent execution error:', error);
+    if (isCancellation(error, signal)) {
+      throw toAbortError(signal?.reason);
+    }
+
+    getLogger().error('Agent execution error', error);
 
-    // User-friendly error messages
+    // User-friendly error messages; the provider error stays as `cause` for
+    // retry classification
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const errorCode = classifyError(error);
 
     if (errorMessage.includes('API key') || errorMessage.includes('api_key')) {
-      throw new Error('Missing API key. Please add your LLM provider key in Settings.');
+      throw new Error('Missing API key. Please add your LLM provider key in Settings.', { cause: error });
     }
 
-    if (errorMessage.includes('rate limit') || errorMessage.includes('429')) {
-      throw new Error('Rate limited. Please wait a moment and try again.');
+    if (errorCode === ErrorCodes.RATE_LIMIT_ERROR) {
+      throw new Error('Rate limited. Please wait a moment and try again.', { cause: error });
     }
 
-    if (errorMessage.includes('overloaded') || errorMessage.includes('529')) {
-      throw new Error('API is temporarily overloaded. Please wait a moment and try again.');
+    if (errorCode === ErrorCodes.OVERLOADED_ERROR) {
+      throw new Error('API is temporarily overloaded. Please wait a moment and try again.', { cause: error });
     }
 
     if (errorMessage.includes('No API key available')) {
-      throw new Error('No API key configured. Please add an Anthropic, OpenAI, or Groq API key in your .env.local file.');
+      throw new Error('No API key configured. Please add an Anthropic, OpenAI, or Groq API key in your .env.local file.', { cause: error });
+    }
+
+    throw new Error(`Agent execution failed: ${errorMessage}`, { cause: error });
+  }
+}
+
+function getMCPToolName(mcp: any): string {
+  return mcp.name || mcp.toolName || 'unknown_tool';
+}
+
+function resolveMCPUrl(url: string, apiKeys?: { firecrawl?: string }): string {
+  return url.includes('{FIRECRAWL_API_KEY}') ? url.replace('{FIRECRAWL_API_KEY}', apiKeys?.firecrawl || '') : url;
+}
+
+/**
+ * JSON output: the node's output schema when it has a valid one, otherwise plain JSON mode
+ */
+function getResponseFormat(data: WorkflowNode['data']): ResponseFormat | undefined {
+  if (data.outputFormat !== 'JSON') return undefined;
+
+  const rawSchema = data.jsonOutputSchema ?? data.jsonSchema;
+  if (rawSchema) {
+    try {
+      const schema = typeof rawSchema === 'string' ? JSON.parse(rawSchema) : rawSchema;
+      if (schema && typeof schema === 'object') {
+        return { type: 'json_schema', name: 'output', schema };
+      }
+    } catch {
+      getLogger().warn('Invalid JSON output schema, requesting plain JSON');
+    }
+  }
+  return { type: 'json' };
+}
+
+// A model the agent can call, with its provider and key
+interface AgentModel {
+  id: string; // Full model ID, e.g. openai/gpt-4o
+  provider: ChatProvider;
+  model: string; // Model name on the provider
+  apiKey?: string;
+}
+
+/**
+ * Resolve the node's model and fallbacks, skipping with a warning any whose
+ * provider is unknown or has no API key. Fails with the first model's error
+ * when none of them can be called.
+ */
+function resolveAgentModels(
+  modelIds: unknown[],
+  apiKeys: Record<string, string | undefined>,
+  cassette?: Cassette
+): AgentModel[] {
+  const ids = modelIds
+    .filter((id): id is string => typeof id === 'string' && id.trim() !== '')
+    .map(id => id.trim())
+    .filter((id, index, all) => all.indexOf(id) === index);
+
+  const models: AgentModel[] = [];
+  const skipped: Array<{ id: string; error: unknown }> = [];
+  for (const id of ids) {
+    try {
+      const { provider, model } = resolveModel(id);
+      const apiKey = getProviderApiKey(provider, apiKeys) || (cassette?.mode === 'replay' ? REPLAY_API_KEY : undefined);
+      if (!apiKey && provider.requiresApiKey) {
+        throw new Error(`No API key available for provider: ${provider.id}`);
+      }
+      models.push({ id, provider, model, apiKey });
+    } catch (error) {
+      skipped.push({ id, error });
+    }
+  }
+
+  if (models.length === 0) {
+    throw skipped[0].error;
+  }
+  for (const { id, error } of skipped) {
+    getLogger().warn(`Skipping model ${id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return models;
+}
+
+// Model calls per agent run when the node doesn't set maxSteps
+const DEFAULT_MAX_STEPS = 5;
+
+function parseMaxSteps(value: number | string | undefined): number {
+  const steps = Number(value);
+  return Number.isFinite(steps) && steps >= 1 ? Math.floor(steps) : DEFAULT_MAX_STEPS;
+}
+
+// A tool offered to the model and the MCP server that runs it
+interface AgentTool {
+  definition: ToolDefinition;
+  toolName: string; // Name on the MCP server, before sanitizing
+  session: MCPSession;
+}
+
+/**
+ * Connect to the node's MCP servers and collect their tools. Legacy configs
+ * with a `schema` describe one tool themselves; other servers are asked for
+ * their tool list. A server that can't be reached is skipped with a warning.
+ */
+async function loadAgentTools(
+  mcpTools: any[],
+  apiKeys: { firecrawl?: string } | undefined,
+  signal?: AbortSignal,
+  cassette?: Cassette
+): Promise<AgentTool[]> {
+  const arcadeTools = mcpTools.filter((mcp: any) => mcp.name?.toLowerCase().includes('arcade'));
+  if (arcadeTools.length > 0) {
+    getLogger().warn('Arcade tools detected in MCP config - these will be skipped');
+  }
+
+  const discovered = await Promise.all(mcpTools
+    .filter((mcp: any) => !mcp.name?.toLowerCase().includes('arcade'))
+    .map(async (mcp: any) => {
+      try {
+        const session = await connectMCPServer({
+          name: getMCPToolName(mcp),
+          url: resolveMCPUrl(mcp.url, apiKeys),
+          accessToken: mcp.accessToken,
+          authToken: mcp.authToken,
+          headers: resolveMCPHeaders(mcp.headers),
+        }, { signal, cassette });
+
+        const serverTools: MCPToolInfo[] = mcp.schema
+          ? [{ name: mcp.toolName || getMCPToolName(mcp), description: mcp.description, inputSchema: mcp.schema }]
+          : await listMCPTools(session, { signal, cassette });
+        return serverTools.map(tool => ({ tool, session }));
+      } catch (error) {
+        if (isCancellation(error, signal)) throw error;
+        getLogger().warn(`Skipping MCP server ${getMCPToolName(mcp)}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return [];
+      }
+    }));
+
+  const entries = discovered.flat();
+  const nameCounts = new Map<string, number>();
+  for (const { tool } of entries) {
+    const name = toToolName(tool.name);
+    nameCounts.set(name, (nameCounts.get(name) || 0) + 1);
+  }
+
+  // Tools with the same name on two servers get the server name as a prefix
+  return entries.map(({ tool, session }) => {
+    const name = toToolName(tool.name);
+    return {
+      definition: {
+        name: nameCounts.get(name)! > 1 ? toToolName(`${session.server.name}_${tool.name}`) : name,
+        description: tool.description || 'No description',
+        parameters: {
+          type: 'object',
+          properties: tool.inputSchema?.properties || {},
+          required: tool.inputSchema?.required || [],
+        },
+      },
+      toolName: tool.name,
+      session,
+    };
+  });
+}
+
+// Providers accept tool names matching ^[a-zA-Z0-9_-]{1,64}$
+function toToolName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64) || 'tool';
+}
+
+// Header values may reference environment variables as ${VAR} or {VAR}
+function resolveMCPHeaders(headers?: Record<string, string>): Record<string, string> | undefined {
+  if (!headers) return undefined;
+  return Object.fromEntries(Object.entries(headers).map(([key, value]) => [
+    key,
+    typeof value === 'string'
+      ? value.replace(/\$?\{([A-Z0-9_]+)\}/g, (match, name) => process.env[name] ?? match)
+      : value,
+  ]));
+}
+
+/**
+ * Run a tool call the model made on the MCP server that offers the tool.
+ * Failures are returned to the model as the tool's output.
+ */
+async function runAgentTool(
+  call: ToolCall,
+  tools: AgentTool[],
+  signal?: AbortSignal,
+  cassette?: Cassette
+): Promise<ExecutedToolCall> {
+  const tool = tools.find(candidate => candidate.definition.name === call.name);
+  try {
+    if (!tool) {
+      throw new Error(`MCP server not found for tool: ${call.name}`);
     }
 
-    throw new Error(`Agent execution failed: ${errorMessage}`);
+    const output = await callMCPTool(tool.session, tool.toolName, call.arguments, { signal, cassette });
+    return { id: call.id, name: call.name, server: tool.session.server.name, arguments: call.arguments, output };
+  } catch (error) {
+    if (isCancellation(error, signal)) throw error;
+    return {
+      id: call.id,
+      name: call.name,
+      server: tool?.session.server.name,
+      arguments: call.arguments,
+      output: { error: error instanceof Error ? error.message : 'Unknown error' },
+    };
   }
 }
 
+// Tool call as shown in the node result
+function toNodeToolCall(call: ExecutedToolCall, step: number): NodeToolCall {
+  return {
+    id: call.id,
+    name: call.name,
+    ...(call.server && { server_name: call.server }),
+    arguments: call.arguments,
+    output: call.output,
+    step,
+  };
+}
@@ -2,6 +2,10 @@ import 'server-only';
 import { WorkflowNode, WorkflowState } from '../types';
 import { substituteVariables } from '../variable-substitution';
 import Arcade from '@arcadeai/arcadejs';
+import { isCancellation, toAbortError } from '../cancellation';
+import { withCassette, type Cassette } from '../cassettes';
+import { traceToolCall } from '../tracing';
+import { getLogger } from '../logger';
 
 /**
  * Execute Arcade Node - Uses Arcade SDK for tool execution
@@ -11,9 +15,12 @@ import Arcade from '@arcadeai/arcadejs';
 export async function executeArcadeNode(
   node: WorkflowNode,
   state: WorkflowState,
-  apiKey?: string
+  apiKey?: string,
+  signal?: AbortSignal,
+  cassette?: Cassette
 ): Promise<any> {
   const { data } = node;
+  const log = getLogger();
 
   try {
     // Get Arcade configuration
@@ -36,7 +43,7 @@ export async function executeArcadeNode(
       }
     }
 
-    console.log('📝 Arcade Input (after substitution):', JSON.stringify(substitutedInput, null, 2));
+    log.debug('Arcade input (after substitution)', substitutedInput);
 
     const arcadeApiKey = apiKey ?? process.env.ARCADE_API_KEY;
 
@@ -44,18 +51,21 @@ export async function executeArcadeNode(
       throw new Error('ARCADE_API_KEY not configured in .env.local');
     }
 
-    console.log('🎮 Arcade Node Execution:', { tool: arcadeTool, userId: arcadeUserId });
+    log.info(`Running Arcade tool ${arcadeTool}`, { userId: arcadeUserId });
 
     // Initialize Arcade client
     const client = new Arcade({ apiKey: arcadeApiKey });
 
     // Step 1: Authorize the tool
-    const auth = await client.tools.authorize({
+    const authRequest = {
       tool_name: arcadeTool,
       user_id: arcadeUserId,
-    });
+    };
+    const auth = await traceToolCall(`${arcadeTool} (authorize)`, () => withCassette(cassette, 'arcade.authorize', authRequest, () =>
+      client.tools.authorize(authRequest, { signal })
+    ));
 
-    console.log('🔐 Arcade Auth Status:', auth.status);
+    log.debug(`Arcade authorization status: ${auth.status}`);
 
     if (!auth?.id) {
       throw new Error('Authorization failed: missing authorization id from Arcade');
@@ -67,7 +77,7 @@ export async function executeArcadeNode(
     }
 
     if (auth.status !== 'completed') {
-      console.log('⚠️ Authorization required:', auth.url);
+      log.info(`Authorization required for ${arcadeTool}`);
 
       return {
         __arcadePendingAuth: true,
@@ -80,16 +90,19 @@ export async function executeArcadeNode(
       };
     }
 
-    console.log('✅ Authorization successful!');
+    log.debug('Arcade authorization completed');
 
     // Step 2: Execute the tool
-    const result = await client.tools.execute({
+    const executeRequest = {
       tool_name: arcadeTool,
       input: substitutedInput,
       user_id: arcadeUserId,
-    });
+    };
+    const result = await traceToolCall(arcadeTool, () => withCassette(cassette, 'arcade.execute', executeRequest, () =>
+      client.tools.execute(executeRequest, { signal })
+    ));
 
-    console.log('🎯 Arcade Result:', JSON.stringify(result, null, 2).substring(0, 500));
+    log.debug('Arcade result', result);
 
     // Extract the output value
     const output = result.output?.value || result.output || result;
@@ -104,7 +117,11 @@ export async function executeArcadeNode(
     };
 
   } catch (error: any) {
-    console.error('❌ Arcade execution error:', error);
-    throw new Error(`Arcade execution failed: ${error.message || 'Unknown error'}`);
+    if (isCancellation(error, signal)) {
+      throw toAbortError(signal?.reason);
+    }
+
+    log.error('Arcade execution error', error);
+    throw new Error(`Arcade execution failed: ${error.message || 'Unknown error'}`, { cause: error });
   }
 }
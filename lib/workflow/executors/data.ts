@@ -1,5 +1,8 @@
 import { WorkflowNode, WorkflowState } from '../types';
 import CodeInterpreter from '@e2b/code-interpreter';
+import { abortable, isCancellation, throwIfCancelled, toAbortError } from '../cancellation';
+import { traceToolCall } from '../tracing';
+import { getLogger } from '../logger';
 
 /**
  * Execute Data Nodes - Transform, Set State
@@ -20,10 +23,12 @@ import CodeInterpreter from '@e2b/code-interpreter';
  * - Supports JavaScript and TypeScript
  * - 5-minute timeout per execution
  * - Automatic cleanup after execution
+ * - Sandbox is killed early if the execution is cancelled
  */
 export async function executeDataNode(
   node: WorkflowNode,
-  state: WorkflowState
+  state: WorkflowState,
+  signal?: AbortSignal
 ): Promise<any> {
   const { data } = node;
   const nodeType = data.nodeType || node.type;
@@ -32,7 +37,7 @@ export async function executeDataNode(
     switch (nodeType) {
       case 'transform':
       case 'data-transform':
-        return await executeTransform(data, state);
+        return await executeTransform(data, state, signal);
 
       case 'set-state':
       case 'set state':
@@ -45,8 +50,11 @@ export async function executeDataNode(
         throw new Error(`Unknown data node type: ${nodeType}`);
     }
   } catch (error) {
-    // Log error with context
-    console.error(`Data node ${node.id} (${nodeType}) failed:`, error);
+    if (isCancellation(error, signal)) {
+      throw toAbortError(signal?.reason);
+    }
+
+    getLogger().error(`Data node (${nodeType}) failed`, error);
 
     // Re-throw with more context
     throw new Error(
@@ -60,14 +68,14 @@ export async function executeDataNode(
 /**
  * Execute transform using E2B sandbox or fallback to Function constructor
  */
-async function executeTransform(data: any, state: WorkflowState): Promise<any> {
+async function executeTransform(data: any, state: WorkflowState, signal?: AbortSignal): Promise<any> {
   // Get the transform script from node data
   // Support both transformScript (UI) and transformation (templates)
   const transformScript = data.transformScript || data.transformation;
 
   // If no transform script, just pass through the input
   if (!transformScript || transformScript.trim() === '') {
-    console.log('⚠️ No transform script provided, passing through input');
+    getLogger().warn('No transform script provided, passing through input');
     return state.variables.lastOutput || {};
   }
 
@@ -76,9 +84,10 @@ async function executeTransform(data: any, state: WorkflowState): Promise<any> {
 
   if (useE2B) {
     try {
-      return await executeTransformE2B(transformScript, state);
+      return await executeTransformE2B(transformScript, state, signal);
     } catch (error) {
-      console.error('❌ E2B execution failed, falling back to Function:', error);
+      if (isCancellation(error, signal)) throw error;
+      getLogger().error('E2B execution failed, falling back to Function', error);
       // Fall through to fallback execution
     }
   }
@@ -91,8 +100,9 @@ async function executeTransform(data: any, state: WorkflowState): Promise<any> {
  * Execute transform using E2B CodeInterpreter (SECURE)
  * Now uses JavaScript/TypeScript execution
  */
-async function executeTransformE2B(transformScript: string, state: WorkflowState): Promise<any> {
-  console.log('🔒 Executing transform in E2B sandbox...');
+async function executeTransformE2B(transformScript: string, state: WorkflowState, signal?: AbortSignal): Promise<any> {
+  getLogger().info('Executing transform in E2B sandbox');
+  throwIfCancelled(signal);
 
   // Prepare the data for the sandbox
   const sandboxedInput = JSON.parse(JSON.stringify(state.variables.lastOutput || {}));
@@ -105,7 +115,15 @@ async function executeTransformE2B(transformScript: string, state: WorkflowState
     apiKey: process.env.E2B_API_KEY,
   });
 
+  // Kill the sandbox as soon as the execution is cancelled
+  const killOnAbort = () => {
+    sandbox.kill().catch(() => {});
+  };
+  signal?.addEventListener('abort', killOnAbort, { once: true });
+
   try {
+    throwIfCancelled(signal);
+
     // Prepare the code to execute using JavaScript
     // We wrap the user's code in a function that provides the context
     const codeToExecute = `
@@ -124,10 +142,10 @@ const result = transform();
 console.log(JSON.stringify(result));
 `;
 
-    console.log('🔍 E2B code to execute:', codeToExecute);
+    getLogger().debug('E2B code to execute', codeToExecute);
 
     // Execute in the sandbox using JavaScript
-    const execution = await sandbox.runCode(codeToExecute);
+    const execution = await abortable(traceToolCall('e2b_run_code', () => sandbox.runCode(codeToExecute)), signal);
 
     // Check for errors
     if (execution.error) {
@@ -138,7 +156,7 @@ console.log(JSON.stringify(result));
     const resultText = execution.logs.stdout.join('\n');
     const result = JSON.parse(resultText);
 
-    console.log('✅ E2B execution successful:', result);
+    getLogger().debug('E2B execution result', result);
 
     // Update state with the result
     state.variables['lastOutput'] = result;
@@ -146,7 +164,10 @@ console.log(JSON.stringify(result));
     return result;
   } finally {
     // Always close the sandbox
-    await sandbox.kill();
+    signal?.removeEventListener('abort', killOnAbort);
+    if (!signal?.aborted) {
+      await sandbox.kill();
+    }
   }
 }
 
@@ -154,7 +175,7 @@ console.log(JSON.stringify(result));
  * Fallback execution using Function constructor (LESS SECURE)
  */
 async function executeTransformFallback(transformScript: string, state: WorkflowState): Promise<any> {
-  console.log('⚠️ Using fallback Function execution (not recommended for production)');
+  getLogger().warn('Using fallback Function execution (not recommended for production)');
 
   // Enhanced security patterns to prevent malicious code execution
   const dangerousPatterns = [
@@ -199,10 +220,11 @@ async function executeTransformFallback(transformScript: string, state: Workflow
       variables: JSON.parse(JSON.stringify(state.variables))
     };
 
-    // Debug: Log the state structure
-    console.log('🔍 Transform Debug - state.variables.input:', JSON.stringify(state.variables.input, null, 2));
-    console.log('🔍 Transform Debug - input (lastOutput):', JSON.stringify(sandboxedInput, null, 2));
-    console.log('🔍 Transform Debug - ALL state.variables keys:', Object.keys(state.variables));
+    getLogger().debug('Transform input', {
+      input: state.variables.input,
+      lastOutput: sandboxedInput,
+      variables: Object.keys(state.variables),
+    });
 
     // Use strict mode to prevent certain unsafe operations
     const strictScript = `"use strict";\n${transformScript}\n//# sourceURL=transform-script.js`;
@@ -225,7 +247,7 @@ async function executeTransformFallback(transformScript: string, state: Workflow
       throw new Error('Transform output too large (>1MB)');
     }
 
-    console.log('🔍 Transform Debug - result:', JSON.stringify(result, null, 2));
+    getLogger().debug('Transform result', result);
 
     // Update state with the result
     state.variables['lastOutput'] = result;
@@ -243,9 +265,7 @@ async function executeSetState(data: any, state: WorkflowState): Promise<any> {
     let rawValue = data.stateValue || null;
     const valueType = data.valueType || 'string';
 
-    console.log('🔧 Set State - Key:', key);
-    console.log('🔧 Set State - Raw Value:', rawValue);
-    console.log('🔧 Set State - Type:', valueType);
+    getLogger().debug(`Set state ${key}`, { rawValue, valueType });
 
     // Import variable substitution
     const { substituteVariables } = await import('../variable-substitution');
@@ -253,7 +273,7 @@ async function executeSetState(data: any, state: WorkflowState): Promise<any> {
     // Substitute variables in the value (e.g., {{lastOutput.price}})
     if (typeof rawValue === 'string') {
       rawValue = substituteVariables(rawValue, state);
-      console.log('🔧 Set State - After substitution:', rawValue);
+      getLogger().debug('Set state value after substitution', rawValue);
     }
 
     // Parse value based on type
@@ -303,7 +323,7 @@ async function executeSetState(data: any, state: WorkflowState): Promise<any> {
         finalValue = rawValue;
     }
 
-    console.log('🔧 Set State - Final Value:', finalValue);
+    getLogger().debug(`Set state ${key} =`, finalValue);
 
     // Set the state variable
     state.variables[key] = finalValue;
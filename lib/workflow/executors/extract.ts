@@ -1,6 +1,10 @@
 import 'server-only';
 import { WorkflowNode, WorkflowState } from '../types';
-import { substituteVariables } from '../variable-substitution';
+import { fitTemplateToBudget } from '../context-budget';
+import { isCancellation, toAbortError } from '../cancellation';
+import { withCassette, type Cassette } from '../cassettes';
+import { traceLLMCall } from '../tracing';
+import { getLogger } from '../logger';
 
 /**
  * Execute Extract Node - Uses LLM with JSON schema to extract structured data
@@ -9,17 +13,13 @@ import { substituteVariables } from '../variable-substitution';
 export async function executeExtractNode(
   node: WorkflowNode,
   state: WorkflowState,
-  apiKeys?: { anthropic?: string; groq?: string; openai?: string; firecrawl?: string }
+  apiKeys?: { anthropic?: string; groq?: string; openai?: string; firecrawl?: string },
+  signal?: AbortSignal,
+  cassette?: Cassette
 ): Promise<any> {
   const { data } = node;
 
   try {
-    // Substitute variables in instructions
-    const instructions = substituteVariables(data.instructions || 'Extract information from the input', state);
-
-    // Build context from previous node output
-    const lastOutput = state.variables?.lastOutput;
-
     // Validate API keys are provided
     if (!apiKeys) {
       throw new Error('API keys are required for server-side execution');
@@ -29,14 +29,25 @@ export async function executeExtractNode(
     const OpenAI = (await import('openai')).default;
     const client = new OpenAI({ apiKey: apiKeys?.openai });
 
-    // Build full prompt with context
-    let fullPrompt = instructions;
-    if (lastOutput) {
-      const contextData = typeof lastOutput === 'string'
-        ? lastOutput
-        : JSON.stringify(lastOutput, null, 2);
-      fullPrompt = `${fullPrompt}\n\nData to extract from:\n${contextData.substring(0, 10000)}`;
-    }
+    // The previous node's output goes in as a reference, so it shares the
+    // context budget with whatever the instructions substitute
+    const model = data.mcpTools?.length ? 'gpt-4.1' : data.model || 'gpt-5-mini';
+    const template = `${data.instructions || 'Extract information from the input'}${
+      state.variables?.lastOutput ? '\n\nData to extract from:\n{{lastOutput}}' : ''
+    }`;
+    const { text: fullPrompt, warnings } = await fitTemplateToBudget(template, state, {
+      model,
+      strategy: data.contextStrategy,
+      tokenLimit: data.contextTokenLimit,
+      complete: async prompt => {
+        const request = { model, messages: [{ role: 'user' as const, content: prompt }] };
+        const completion = await traceLLMCall('openai', model, () => withCassette(cassette, 'openai.chat', request, () =>
+          client.chat.completions.create(request, { signal })
+        ));
+        return completion.choices[0]?.message?.content || '';
+      },
+      signal,
+    });
 
     // Parse JSON schema
     const schema = typeof data.jsonSchema === 'string'
@@ -55,57 +66,69 @@ export async function executeExtractNode(
         require_approval: 'never' as const,
       }));
 
-      const response = await client.responses.create({
-        model: 'gpt-4.1',
+      const request = {
+        model,
         tools,
         input: fullPrompt,
         text: {
           format: {
-            type: 'json_schema',
+            type: 'json_schema' as const,
             name: 'extraction',
             schema,
             strict: true,
           },
         },
-      });
+      };
+      const response = await traceLLMCall('openai', request.model, () => withCassette(cassette, 'openai.responses', request, () =>
+        client.responses.create(request, { signal })
+      ));
 
       const extractedData = JSON.parse(response.output_text || '{}');
 
       return {
         extractedData,
-        model: 'gpt-4.1',
+        model,
         tokensUsed: response.usage?.total_tokens || 0,
         mcpToolsUsed: response.output.filter((item: any) => item.type === 'mcp_call').length,
+        __warnings: warnings,
         __variableUpdates: { lastOutput: extractedData }, // Return as separate field for reducer
       };
     }
 
     // No MCP - use regular Chat Completions with JSON mode
-    const completion = await client.chat.completions.create({
-      model: data.model || 'gpt-5-mini',
+    const request = {
+      model,
       messages: [
-        { role: 'user', content: fullPrompt },
+        { role: 'user' as const, content: fullPrompt },
       ],
       response_format: {
-        type: 'json_schema',
+        type: 'json_schema' as const,
         json_schema: {
           name: 'extraction',
           schema,
           strict: true,
         },
       },
-    });
+    };
+    const completion = await traceLLMCall('openai', request.model, () => withCassette(cassette, 'openai.chat', request, () =>
+      client.chat.completions.create(request, { signal })
+    ));
 
     const extractedData = JSON.parse(completion.choices[0].message.content || '{}');
 
     return {
       extractedData,
-      model: data.model,
+      model,
       tokensUsed: completion.usage?.total_tokens || 0,
+      __warnings: warnings,
       __variableUpdates: { lastOutput: extractedData }, // Return as separate field for reducer
     };
   } catch (error) {
-    console.error('Extract execution error:', error);
-    throw new Error(`Failed to execute extract: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (isCancellation(error, signal)) {
+      throw toAbortError(signal?.reason);
+    }
+
+    getLogger().error('Extract execution error', error);
+    throw new Error(`Failed to execute extract: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
@@ -1,12 +1,19 @@
 import { WorkflowNode, WorkflowState } from '../types';
 import { substituteVariables } from '../variable-substitution';
+import { isCancellation, toAbortError } from '../cancellation';
+import { cassetteFetch, type Cassette } from '../cassettes';
+import { traceHTTPRequest } from '../tracing';
+import { getLogger } from '../logger';
+import { APIError } from '@/lib/errors';
 
 /**
  * Execute HTTP Request Node
  */
 export async function executeHTTPNode(
   node: WorkflowNode,
-  state: WorkflowState
+  state: WorkflowState,
+  signal?: AbortSignal,
+  cassette?: Cassette
 ): Promise<any> {
   const { data } = node;
   const nodeData = data as any;
@@ -42,19 +49,20 @@ export async function executeHTTPNode(
       body = substituteVariables(nodeData.httpBody, state);
     }
 
-    console.log('HTTP Request:', { method, url, headers, body });
+    getLogger().info(`HTTP ${method} ${url}`, { headers, body });
 
     // Make the request
-    const response = await fetch(url, {
+    const response = await traceHTTPRequest(method, url, () => cassetteFetch(cassette, 'http.fetch', url, {
       method,
       headers,
       body,
-    });
+      signal,
+    }));
 
     const responseData = await response.json().catch(() => response.text());
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      throw new APIError(`HTTP ${response.status}: ${response.statusText}`, response.status, url);
     }
 
     return {
@@ -66,7 +74,11 @@ export async function executeHTTPNode(
       method,
     };
   } catch (error) {
-    console.error('HTTP request error:', error);
-    throw new Error(`HTTP request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (isCancellation(error, signal)) {
+      throw toAbortError(signal?.reason);
+    }
+
+    getLogger().error('HTTP request error', error);
+    throw new Error(`HTTP request failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
@@ -1,7 +1,10 @@
 import { WorkflowNode, WorkflowState, WorkflowEdge } from '../types';
+import { evaluateSwitch, getSwitchCases } from '../switch';
+import { evaluateWorkflowExpression } from '../expressions';
+import { getLogger } from '../logger';
 
 /**
- * Execute Logic Nodes - If/Else, While, User Approval
+ * Execute Logic Nodes - If/Else, Switch, While, User Approval
  */
 
 // Type for the executor callback (used by LangGraph)
@@ -28,6 +31,9 @@ export async function executeLogicNode(
     case 'if-else':
       return await executeIfElse(data, state);
 
+    case 'switch':
+      return evaluateSwitch(getSwitchCases(data), state);
+
     case 'while':
       return await executeWhile(node, data, state);
 
@@ -45,81 +51,28 @@ async function executeIfElse(data: any, state: WorkflowState): Promise<any> {
 
   const conditionExpr = data.condition || 'true';
 
-  try {
-    // Get input from previous node, but prefer original classification data for conditions
-    let input = state.variables['lastOutput'] || state.variables['input'] || {};
-    
-    // For classification-based conditions, use the original classification data
-    if (conditionExpr.includes('classification') && state.variables.originalClassification) {
-      input = state.variables.originalClassification;
-      console.log('Using original classification data for condition evaluation');
-    }
-
-    console.log('Evaluating If/Else condition:', conditionExpr);
-    console.log('Available input:', input);
-
-    // Create evaluation function with input, state, and lastOutput context
-    const lastOutput = state.variables['lastOutput'];
-    
-    // Enhanced evaluation with better error handling and debugging
-    let result;
-    try {
-      const evalFunction = new Function('input', 'state', 'lastOutput', `return ${conditionExpr}`);
-      result = evalFunction(input, state, lastOutput);
-    } catch (evalError) {
-      console.error('Condition evaluation error:', evalError);
-
-      // Try alternative evaluation with better type coercion
-      if (conditionExpr.includes('==')) {
-        const parts = conditionExpr.split('==');
-        if (parts.length === 2) {
-          const left = parts[0].trim();
-          const right = parts[1].trim().replace(/['"]/g, '');
-
-          try {
-            const leftEval = new Function('input', 'state', 'lastOutput', `return ${left}`);
-            const leftValue = leftEval(input, state, lastOutput);
-
-            // Try both strict and loose equality
-            const strictMatch = leftValue === right;
-            const looseMatch = String(leftValue).toLowerCase().trim() === String(right).toLowerCase().trim();
-
-            console.log('🔍 Condition fallback evaluation:', {
-              leftExpr: left,
-              leftValue,
-              rightValue: right,
-              strictMatch,
-              looseMatch,
-            });
-
-            result = strictMatch || looseMatch;
-          } catch (e) {
-            console.error('Fallback evaluation also failed:', e);
-            result = false;
-          }
-        }
-      } else {
-        result = false;
-      }
-    }
-
-    console.log('Condition result:', result);
-
-    return {
-      condition: Boolean(result),
-      branch: result ? 'if' : 'else',
-      evaluatedCondition: conditionExpr,
-    };
-  } catch (error) {
-    console.error('Failed to evaluate condition:', error);
-    // Default to false if evaluation fails
-    return {
-      condition: false,
-      branch: 'else',
-      evaluatedCondition: conditionExpr,
-      error: error instanceof Error ? error.message : 'Evaluation failed',
-    };
+  // Get input from previous node, but prefer original classification data for conditions
+  let input = state.variables['lastOutput'] || state.variables['input'] || {};
+
+  // For classification-based conditions, use the original classification data
+  if (conditionExpr.includes('classification') && state.variables.originalClassification) {
+    input = state.variables.originalClassification;
+    getLogger().debug('Using original classification data for condition evaluation');
   }
+
+  getLogger().debug(`Evaluating If/Else condition: ${conditionExpr}`);
+
+  // Invalid or failing conditions throw so the node fails (and can take its error branch)
+  // instead of quietly taking the else branch
+  const result = evaluateWorkflowExpression(conditionExpr, state, { input });
+
+  getLogger().info(`Condition is ${Boolean(result)}, taking ${result ? 'if' : 'else'} branch`);
+
+  return {
+    condition: Boolean(result),
+    branch: result ? 'if' : 'else',
+    evaluatedCondition: conditionExpr,
+  };
 }
 
 async function executeWhile(node: WorkflowNode, data: any, state: WorkflowState): Promise<any> {
@@ -144,9 +97,7 @@ async function executeUserApproval(data: any, state: WorkflowState): Promise<any
   // This converts {{lastOutput.task}} to the actual task value
   const message = substituteVariables(rawMessage, state);
 
-  console.log('User Approval - Raw message:', rawMessage);
-  console.log('User Approval - Substituted message:', message);
-  console.log('User Approval - State variables:', Object.keys(state.variables));
+  getLogger().debug('User approval message', { rawMessage, message });
 
   // Return special response to signal workflow should pause
   return {
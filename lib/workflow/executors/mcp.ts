@@ -4,6 +4,10 @@ import { substituteVariables } from '../variable-substitution';
 import FirecrawlApp from '@mendable/firecrawl-js';
 import { getServerAPIKeys } from '@/lib/api/config';
 import { resolveMCPServer } from '@/lib/mcp/resolver';
+import { abortable, isCancellation, throwIfCancelled, toAbortError } from '../cancellation';
+import { withCassette, type Cassette } from '../cassettes';
+import { traceToolCall } from '../tracing';
+import { getLogger } from '../logger';
 
 /**
  * Extract specific field from Firecrawl response
@@ -125,7 +129,9 @@ async function executeGenericMCPServer(serverConfig: any, state: WorkflowState):
 export async function executeMCPNode(
   node: WorkflowNode,
   state: WorkflowState,
-  apiKey?: string
+  apiKey?: string,
+  signal?: AbortSignal,
+  cassette?: Cassette
 ): Promise<any> {
   const { data } = node;
 
@@ -145,7 +151,7 @@ export async function executeMCPNode(
     if (resolvedServer) {
       mcpServers = [resolvedServer];
     } else {
-      console.warn(`Could not resolve MCP server ID: ${nodeData.mcpServerId}`);
+      getLogger().warn(`Could not resolve MCP server ID: ${nodeData.mcpServerId}`);
     }
   }
 
@@ -158,17 +164,19 @@ export async function executeMCPNode(
   const results: any[] = [];
 
   for (const serverConfig of mcpServers) {
+    throwIfCancelled(signal);
+
     // For all servers (including Firecrawl), use API routes
     if (serverConfig.name.toLowerCase().includes('firecrawl')) {
       // Server-side Firecrawl execution - use Firecrawl SDK directly
-      console.log('🖥️ MCP executor running Firecrawl on server side');
+      getLogger().debug('MCP executor running Firecrawl on server side');
 
-      const apiKeys = getServerAPIKeys();
-      if (!apiKeys.firecrawl) {
+      const firecrawlKey = apiKey || getServerAPIKeys().firecrawl;
+      if (!firecrawlKey) {
         throw new Error('FIRECRAWL_API_KEY not configured. Add it to your .env.local file:\nFIRECRAWL_API_KEY=your_key_here');
       }
 
-      const firecrawl = new FirecrawlApp({ apiKey: apiKeys.firecrawl });
+      const firecrawl = new FirecrawlApp({ apiKey: firecrawlKey });
       
       // Get the action and parameters from the node data
       const nodeData = data as any;
@@ -219,34 +227,48 @@ export async function executeMCPNode(
       let result: any;
       
       try {
+        // The Firecrawl SDK doesn't take a signal, so stop waiting on abort
         switch (action) {
-          case 'scrape':
-            result = await firecrawl.scrape(getUrl(), {
-              formats: nodeData.useJsonMode ? ['json'] : ['markdown', 'html'],
-            });
+          case 'scrape': {
+            const url = getUrl();
+            const options = { formats: nodeData.useJsonMode ? ['json' as const] : ['markdown' as const, 'html' as const] };
+            result = await abortable(traceToolCall('firecrawl_scrape', () => withCassette(cassette, 'firecrawl.scrape', { url, options }, () =>
+              firecrawl.scrape(url, options)
+            )), signal);
             break;
+          }
             
-          case 'search':
-            result = await firecrawl.search(getSearchQuery(), {
-              limit: nodeData.searchLimit || 5,
-            });
+          case 'search': {
+            const query = getSearchQuery();
+            const options = { limit: nodeData.searchLimit || 5 };
+            result = await abortable(traceToolCall('firecrawl_search', () => withCassette(cassette, 'firecrawl.search', { query, options }, () =>
+              firecrawl.search(query, options)
+            )), signal);
             break;
+          }
             
-          case 'map':
-            result = await firecrawl.map(getUrl());
+          case 'map': {
+            const url = getUrl();
+            result = await abortable(traceToolCall('firecrawl_map', () => withCassette(cassette, 'firecrawl.map', { url }, () =>
+              firecrawl.map(url)
+            )), signal);
             break;
+          }
             
-          case 'crawl':
-            result = await firecrawl.crawl(getUrl(), {
-              limit: nodeData.crawlLimit || 10,
-            });
+          case 'crawl': {
+            const url = getUrl();
+            const options = { limit: nodeData.crawlLimit || 10 };
+            result = await abortable(traceToolCall('firecrawl_crawl', () => withCassette(cassette, 'firecrawl.crawl', { url, options }, () =>
+              firecrawl.crawl(url, options)
+            )), signal);
             break;
+          }
             
           default:
             throw new Error(`Unknown Firecrawl action: ${action}`);
         }
         
-        console.log('✅ MCP Firecrawl server-side execution completed successfully');
+        getLogger().info(`Firecrawl ${action} completed`);
         
         // Extract specific field based on configuration
         let outputData = result;
@@ -275,8 +297,12 @@ export async function executeMCPNode(
         };
         
       } catch (error) {
-        console.error('❌ MCP Firecrawl server-side execution failed:', error);
-        throw new Error(`Firecrawl ${action} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        if (isCancellation(error, signal)) {
+          throw toAbortError(signal?.reason);
+        }
+
+        getLogger().error(`Firecrawl ${action} failed`, error);
+        throw new Error(`Firecrawl ${action} failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
       }
     } else {
       // Generic MCP server support (DeepWiki, etc.)
@@ -291,7 +317,7 @@ export async function executeMCPNode(
         state.variables.lastOutput = result.data;
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`${serverConfig.name} execution error:`, error);
+        getLogger().error(`${serverConfig.name} execution error`, error);
         results.push({
           server: serverConfig.name,
           error: errorMessage,
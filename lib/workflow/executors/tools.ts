@@ -1,5 +1,6 @@
 import 'server-only';
 import { WorkflowNode, WorkflowState } from '../types';
+import { getLogger } from '../logger';
 
 /**
  * Execute Tools Nodes - File Search, Guardrails
@@ -73,8 +74,8 @@ async function executeGuardrails(data: any, state: WorkflowState): Promise<any>
   if (data.jailbreakEnabled) enabledChecks.push('Jailbreak');
   if (data.hallucinationEnabled) enabledChecks.push('Hallucination');
 
-  console.log('🛡️ Guardrails check:', enabledChecks.join(', '));
-  console.log('📝 Checking text:', textToCheck.substring(0, 100));
+  getLogger().info(`Guardrails check: ${enabledChecks.join(', ')}`);
+  getLogger().debug('Checking text', textToCheck.substring(0, 100));
 
   // Server-side implementation: basic checks
   // TODO: Integrate with actual content moderation APIs
@@ -0,0 +1,608 @@
+import { ExpressionError } from '@/lib/errors';
+
+/**
+ * Expressions
+ * The small expression language used by if-else, while, switch, for-each items,
+ * sub-workflow input mappings and {{ }} templates. Source text is parsed into
+ * an AST and interpreted against a plain scope, so it never reaches
+ * `new Function` and can't reach globals, prototypes or assign anything.
+ *
+ * Supported: literals, arrays, property access (`a.b`, `a?.b`, `a["b"]`, `a[0]`),
+ * `! - +`, arithmetic, comparison, `&& || ??`, `cond ? a : b`, the helper
+ * functions in EXPRESSION_FUNCTIONS and the allow-listed string/array methods.
+ * Property access is null-safe: reading through null/undefined gives undefined.
+ */
+
+type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'identifier'; name: string }
+  | { type: 'array'; elements: ExpressionNode[] }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode; computed: boolean }
+  | { type: 'call'; callee: ExpressionNode; args: ExpressionNode[] }
+  | { type: 'unary'; operator: string; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode };
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'name'; value: string; position: number }
+  | { type: 'punctuator'; value: string; position: number }
+  | { type: 'end'; value: ''; position: number };
+
+export type ExpressionScope = Record<string, unknown>;
+
+export interface EvaluateExpressionOptions {
+  // Resolves identifiers that aren't in the scope
+  resolve?: (name: string) => unknown;
+}
+
+// Longest first so "===" wins over "==" and "="
+const PUNCTUATORS = [
+  '===', '!==', '?.', '??', '==', '!=', '<=', '>=', '&&', '||',
+  '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '.', ',', '(', ')', '[', ']',
+];
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+};
+
+const KEYWORDS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+// Never readable, even as own properties
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const STRING_METHODS = new Set([
+  'includes', 'startsWith', 'endsWith', 'toLowerCase', 'toUpperCase', 'trim',
+  'indexOf', 'slice', 'split', 'substring', 'replace',
+]);
+const ARRAY_METHODS = new Set(['includes', 'indexOf', 'join', 'slice']);
+const NUMBER_METHODS = new Set(['toFixed']);
+
+const isEmptyValue = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === 'object' && !Array.isArray(value) && Object.keys(value as object).length === 0);
+
+const toText = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const toNumbers = (values: unknown[]): number[] => values.flat().map(Number);
+
+/**
+ * Helper functions callable by name, e.g. `len(lastOutput.items) > 0`
+ */
+export const EXPRESSION_FUNCTIONS: Record<string, (...args: any[]) => unknown> = {
+  len: value => {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (value && typeof value === 'object') return Object.keys(value).length;
+    return 0;
+  },
+  lower: value => toText(value).toLowerCase(),
+  upper: value => toText(value).toUpperCase(),
+  trim: value => toText(value).trim(),
+  contains: (value, search) => {
+    if (typeof value === 'string') return value.includes(toText(search));
+    if (Array.isArray(value)) return value.includes(search);
+    if (value && typeof value === 'object') return Object.prototype.hasOwnProperty.call(value, toText(search));
+    return false;
+  },
+  startsWith: (value, prefix) => toText(value).startsWith(toText(prefix)),
+  endsWith: (value, suffix) => toText(value).endsWith(toText(suffix)),
+  isEmpty: value => isEmptyValue(value),
+  number: value => Number(value),
+  string: value => toText(value),
+  keys: value => (value && typeof value === 'object' ? Object.keys(value) : []),
+  first: value => (Array.isArray(value) || typeof value === 'string' ? value[0] : undefined),
+  last: value => (Array.isArray(value) || typeof value === 'string' ? value[value.length - 1] : undefined),
+  min: (...values) => Math.min(...toNumbers(values)),
+  max: (...values) => Math.max(...toNumbers(values)),
+  round: (value, digits = 0) => {
+    const factor = 10 ** Number(digits);
+    return Math.round(Number(value) * factor) / factor;
+  },
+  abs: value => Math.abs(Number(value)),
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[index + 1] || ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(index))!;
+      tokens.push({ type: 'number', value: Number(match[0]), position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(index))!;
+      tokens.push({ type: 'name', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = index;
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          const escaped = source[index + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped === 'r' ? '\r' : escaped;
+          index += 2;
+        } else {
+          value += source[index++];
+        }
+      }
+      if (index >= source.length) {
+        throw new ExpressionError(`Unterminated string starting at position ${start + 1}`, source, start);
+      }
+      index++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find(p => source.startsWith(p, index));
+    // "a?.5:1" is a ternary, not optional chaining
+    if (punctuator && !(punctuator === '?.' && /[0-9]/.test(source[index + 2] || ''))) {
+      tokens.push({ type: 'punctuator', value: punctuator, position: index });
+      index += punctuator.length;
+      continue;
+    }
+    if (punctuator === '?.') {
+      tokens.push({ type: 'punctuator', value: '?', position: index });
+      index++;
+      continue;
+    }
+
+    if (char === '=' && source[index + 1] === '>') {
+      throw new ExpressionError(`Arrow functions are not supported (position ${index + 1})`, source, index);
+    }
+    if (char === '=') {
+      throw new ExpressionError(`Assignment is not allowed at position ${index + 1} (use == to compare)`, source, index);
+    }
+    throw new ExpressionError(`Unexpected character "${char}" at position ${index + 1}`, source, index);
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private source: string, private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      this.fail(token);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isPunctuator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuator' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    if (!this.isPunctuator(value)) {
+      const token = this.peek();
+      const found = token.type === 'end' ? 'end of expression' : `"${token.value}"`;
+      throw new ExpressionError(`Expected "${value}" but found ${found} at position ${token.position + 1}`, this.source, token.position);
+    }
+    this.index++;
+  }
+
+  private fail(token: Token): never {
+    if (token.type === 'end') {
+      throw new ExpressionError('Unexpected end of expression', this.source, token.position);
+    }
+    throw new ExpressionError(`Unexpected "${token.value}" at position ${token.position + 1}`, this.source, token.position);
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (!this.isPunctuator('?')) return test;
+
+    this.index++;
+    const consequent = this.parseConditional();
+    this.expect(':');
+    const alternate = this.parseConditional();
+    return { type: 'conditional', test, consequent, alternate };
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    while (true) {
+      const token = this.peek();
+      if (token.type !== 'punctuator') break;
+      const precedence = BINARY_PRECEDENCE[token.value];
+      if (precedence === undefined || precedence <= minPrecedence) break;
+
+      this.index++;
+      const right = this.parseBinary(precedence);
+      left = { type: 'binary', operator: token.value, left, right };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'punctuator' && (token.value === '!' || token.value === '-' || token.value === '+')) {
+      this.index++;
+      return { type: 'unary', operator: token.value, argument: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    while (true) {
+      if (this.isPunctuator('.') || this.isPunctuator('?.')) {
+        this.index++;
+        if (this.isPunctuator('[')) {
+          node = this.parseComputedMember(node);
+          continue;
+        }
+        const name = this.next();
+        if (name.type !== 'name') return this.fail(name);
+        node = { type: 'member', object: node, property: { type: 'literal', value: name.value }, computed: false };
+      } else if (this.isPunctuator('[')) {
+        node = this.parseComputedMember(node);
+      } else if (this.isPunctuator('(')) {
+        node = this.parseCall(node);
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseComputedMember(object: ExpressionNode): ExpressionNode {
+    this.expect('[');
+    const property = this.parseConditional();
+    this.expect(']');
+    return { type: 'member', object, property, computed: true };
+  }
+
+  private parseCall(callee: ExpressionNode): ExpressionNode {
+    const position = this.peek().position;
+
+    if (callee.type === 'identifier') {
+      if (!Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, callee.name)) {
+        throw new ExpressionError(`Unknown function "${callee.name}"`, this.source, position);
+      }
+    } else if (callee.type === 'member' && !callee.computed) {
+      const method = String((callee.property as { value: unknown }).value);
+      if (!STRING_METHODS.has(method) && !ARRAY_METHODS.has(method) && !NUMBER_METHODS.has(method)) {
+        throw new ExpressionError(`Unknown method "${method}"`, this.source, position);
+      }
+    } else {
+      throw new ExpressionError(`Only helper functions and methods can be called (position ${position + 1})`, this.source, position);
+    }
+
+    this.expect('(');
+    const args: ExpressionNode[] = [];
+    while (!this.isPunctuator(')')) {
+      args.push(this.parseConditional());
+      if (!this.isPunctuator(',')) break;
+      this.index++;
+    }
+    this.expect(')');
+    return { type: 'call', callee, args };
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'name':
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return { type: 'literal', value: KEYWORDS[token.value] };
+        }
+        return { type: 'identifier', name: token.value };
+
+      case 'punctuator':
+        if (token.value === '(') {
+          const node = this.parseConditional();
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '[') {
+          const elements: ExpressionNode[] = [];
+          while (!this.isPunctuator(']')) {
+            elements.push(this.parseConditional());
+            if (!this.isPunctuator(',')) break;
+            this.index++;
+          }
+          this.expect(']');
+          return { type: 'array', elements };
+        }
+        return this.fail(token);
+
+      default:
+        return this.fail(token);
+    }
+  }
+}
+
+const MAX_CACHED_EXPRESSIONS = 500;
+const parseCache = new Map<string, ExpressionNode>();
+
+/**
+ * Parse an expression, throwing ExpressionError for syntax errors, unknown
+ * functions or methods
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  if (!source.trim()) {
+    throw new ExpressionError('Expression is empty', source, 0);
+  }
+
+  const ast = new Parser(source, tokenize(source)).parse();
+
+  if (parseCache.size >= MAX_CACHED_EXPRESSIONS) {
+    parseCache.clear();
+  }
+  parseCache.set(source, ast);
+  return ast;
+}
+
+/**
+ * The parse error message for an expression, or null when it is valid
+ */
+export function getExpressionError(source: string): string | null {
+  try {
+    parseExpression(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid expression';
+  }
+}
+
+/**
+ * Names an expression reads from its scope (helper function names excluded)
+ */
+export function getExpressionIdentifiers(source: string): string[] {
+  const names = new Set<string>();
+
+  const visit = (node: ExpressionNode) => {
+    switch (node.type) {
+      case 'identifier':
+        names.add(node.name);
+        break;
+      case 'array':
+        node.elements.forEach(visit);
+        break;
+      case 'member':
+        visit(node.object);
+        if (node.computed) visit(node.property);
+        break;
+      case 'call':
+        if (node.callee.type !== 'identifier') visit(node.callee);
+        node.args.forEach(visit);
+        break;
+      case 'unary':
+        visit(node.argument);
+        break;
+      case 'binary':
+        visit(node.left);
+        visit(node.right);
+        break;
+      case 'conditional':
+        visit(node.test);
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+    }
+  };
+
+  visit(parseExpression(source));
+  return Array.from(names);
+}
+
+function readProperty(target: unknown, key: unknown): unknown {
+  if (target === null || target === undefined) return undefined;
+  if (typeof key !== 'string' && typeof key !== 'number') return undefined;
+
+  const name = String(key);
+  if (BLOCKED_PROPERTIES.has(name)) return undefined;
+
+  if (typeof target === 'string') {
+    if (name === 'length') return target.length;
+    return /^\d+$/.test(name) ? target[Number(name)] : undefined;
+  }
+  if (typeof target !== 'object') return undefined;
+  if (Array.isArray(target) && name === 'length') return target.length;
+  if (!Object.prototype.hasOwnProperty.call(target, name)) return undefined;
+
+  const value = (target as Record<string, unknown>)[name];
+  return typeof value === 'function' ? undefined : value;
+}
+
+function callMethod(source: string, target: unknown, method: string, args: unknown[]): unknown {
+  // Optional-call semantics: lastOutput.toLowerCase() on a missing output is undefined
+  if (target === null || target === undefined) return undefined;
+
+  if (typeof target === 'string' && STRING_METHODS.has(method)) {
+    return (String.prototype as any)[method].apply(target, args);
+  }
+  if (Array.isArray(target) && ARRAY_METHODS.has(method)) {
+    return (Array.prototype as any)[method].apply(target, args);
+  }
+  if (typeof target === 'number' && NUMBER_METHODS.has(method)) {
+    return (Number.prototype as any)[method].apply(target, args);
+  }
+
+  const kind = Array.isArray(target) ? 'array' : typeof target;
+  throw new ExpressionError(`${method}() is not available on ${kind} values`, source);
+}
+
+function evaluateNode(
+  source: string,
+  node: ExpressionNode,
+  scope: ExpressionScope,
+  options: EvaluateExpressionOptions
+): unknown {
+  const evaluate = (child: ExpressionNode) => evaluateNode(source, child, scope, options);
+
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      if (Object.prototype.hasOwnProperty.call(scope, node.name)) {
+        return scope[node.name];
+      }
+      return options.resolve?.(node.name);
+
+    case 'array':
+      return node.elements.map(evaluate);
+
+    case 'member':
+      return readProperty(evaluate(node.object), evaluate(node.property));
+
+    case 'call': {
+      const args = node.args.map(evaluate);
+      if (node.callee.type === 'identifier') {
+        return EXPRESSION_FUNCTIONS[node.callee.name](...args);
+      }
+      if (node.callee.type === 'member') {
+        return callMethod(source, evaluate(node.callee.object), String(evaluate(node.callee.property)), args);
+      }
+      throw new ExpressionError('Only helper functions and methods can be called', source);
+    }
+
+    case 'unary': {
+      const value = evaluate(node.argument) as any;
+      if (node.operator === '!') return !value;
+      if (node.operator === '-') return -value;
+      return +value;
+    }
+
+    case 'binary': {
+      if (node.operator === '&&') {
+        const left = evaluate(node.left);
+        return left ? evaluate(node.right) : left;
+      }
+      if (node.operator === '||') {
+        const left = evaluate(node.left);
+        return left ? left : evaluate(node.right);
+      }
+      if (node.operator === '??') {
+        const left = evaluate(node.left);
+        return left ?? evaluate(node.right);
+      }
+
+      const left = evaluate(node.left) as any;
+      const right = evaluate(node.right) as any;
+      switch (node.operator) {
+        case '==': return left == right;
+        case '!=': return left != right;
+        case '===': return left === right;
+        case '!==': return left !== right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '%': return left % right;
+        default:
+          throw new ExpressionError(`Unsupported operator "${node.operator}"`, source);
+      }
+    }
+
+    case 'conditional':
+      return evaluate(node.test) ? evaluate(node.consequent) : evaluate(node.alternate);
+  }
+}
+
+/**
+ * Evaluate an expression against a scope. Parse and evaluation errors are
+ * thrown as ExpressionError.
+ */
+export function evaluateExpression(
+  source: string,
+  scope: ExpressionScope,
+  options: EvaluateExpressionOptions = {}
+): unknown {
+  const ast = parseExpression(source);
+
+  try {
+    return evaluateNode(source, ast, scope, options);
+  } catch (error) {
+    if (error instanceof ExpressionError) throw error;
+    const message = error instanceof Error ? error.message : 'Evaluation failed';
+    throw new ExpressionError(`Expression "${source}" failed: ${message}`, source);
+  }
+}
+
+/**
+ * Evaluate an expression against workflow state. `input`, `lastOutput` and
+ * `state` are in scope, and any other name is read from state.variables
+ * (so a node's output can be referenced by its ID).
+ */
+export function evaluateWorkflowExpression(
+  source: string,
+  state: { variables?: Record<string, any> },
+  extras: ExpressionScope = {}
+): unknown {
+  const variables = state.variables || {};
+
+  return evaluateExpression(
+    source,
+    {
+      input: variables.input,
+      lastOutput: variables.lastOutput,
+      state,
+      ...extras,
+    },
+    { resolve: name => readProperty(variables, name) }
+  );
+}
@@ -0,0 +1,106 @@
+import { ValidationError } from '@/lib/errors';
+import type { WorkflowEdge, WorkflowNode } from './types';
+
+/**
+ * For-Each Node
+ * The body is every node reachable from the 'item' handle, with edges looping
+ * back to the for-each node. It runs once per array item (fanned out with
+ * LangGraph Send under a concurrency limit) and the per-item results are
+ * collected in item order before the 'done' branch continues.
+ */
+
+export const FOR_EACH_ITEM_HANDLE = 'item';
+export const FOR_EACH_DONE_HANDLE = 'done';
+
+export const DEFAULT_FOR_EACH_CONCURRENCY = 4;
+const MAX_FOR_EACH_CONCURRENCY = 20;
+const MAX_FOR_EACH_ITEMS = 1000;
+
+// Nodes that pause for a person or bound the run can't sit inside a body
+const DISALLOWED_BODY_NODE_TYPES = ['start', 'end', 'user-approval', 'user approval', 'approval'];
+
+export function parseForEachConcurrency(value: number | string | undefined | null): number {
+  const parsed = typeof value === 'number' ? value : Number.parseInt(String(value ?? ''), 10);
+  if (!Number.isFinite(parsed) || parsed < 1) return DEFAULT_FOR_EACH_CONCURRENCY;
+  return Math.min(Math.floor(parsed), MAX_FOR_EACH_CONCURRENCY);
+}
+
+/**
+ * Coerce the evaluated items expression into an array (JSON array strings are parsed)
+ */
+export function toForEachItems(value: unknown, nodeId: string): any[] {
+  let items = value;
+  if (typeof items === 'string') {
+    try {
+      items = JSON.parse(items);
+    } catch {
+      // Reported below
+    }
+  }
+
+  if (!Array.isArray(items)) {
+    const received = items === null ? 'null' : typeof items;
+    throw new ValidationError(`For-each items must evaluate to an array, got ${received}`, nodeId);
+  }
+
+  if (items.length > MAX_FOR_EACH_ITEMS) {
+    throw new ValidationError(`For-each received ${items.length} items, the limit is ${MAX_FOR_EACH_ITEMS}`, nodeId);
+  }
+
+  return items;
+}
+
+const getNodeType = (node: WorkflowNode | undefined) => (node?.data as any)?.nodeType || node?.type;
+
+/**
+ * Body node IDs of every for-each node in the workflow.
+ * A nested for-each node and its own body belong to the outer body as well.
+ */
+export function collectForEachBodies(nodes: WorkflowNode[], edges: WorkflowEdge[]): Map<string, Set<string>> {
+  const bodies = new Map<string, Set<string>>();
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+  for (const node of nodes) {
+    if (getNodeType(node) !== 'for-each') continue;
+
+    const body = new Set<string>();
+    const queue = edges
+      .filter(edge => edge.source === node.id && edge.sourceHandle === FOR_EACH_ITEM_HANDLE)
+      .map(edge => edge.target);
+
+    while (queue.length > 0) {
+      const currentId = queue.shift()!;
+      if (currentId === node.id || body.has(currentId) || !nodesById.has(currentId)) continue;
+
+      const bodyNode = nodesById.get(currentId)!;
+      const bodyNodeType = getNodeType(bodyNode);
+      if (bodyNodeType === 'note') continue;
+      if (DISALLOWED_BODY_NODE_TYPES.includes(bodyNodeType)) {
+        throw new ValidationError(
+          `"${(bodyNode.data as any)?.nodeName || currentId}" can't be inside the body of for-each "${(node.data as any)?.nodeName || node.id}". Loop the body back to the for-each node instead.`,
+          currentId
+        );
+      }
+
+      body.add(currentId);
+      for (const edge of edges) {
+        if (edge.source === currentId) queue.push(edge.target);
+      }
+    }
+
+    // The body is only entered through the item handle
+    for (const edge of edges) {
+      if (!body.has(edge.target) || body.has(edge.source)) continue;
+      if (edge.source === node.id && edge.sourceHandle === FOR_EACH_ITEM_HANDLE) continue;
+      if (getNodeType(nodesById.get(edge.source)) === 'note') continue;
+      throw new ValidationError(
+        `Node "${(nodesById.get(edge.target)?.data as any)?.nodeName || edge.target}" is in the body of for-each "${(node.data as any)?.nodeName || node.id}" but is also connected from outside it`,
+        edge.target
+      );
+    }
+
+    bodies.set(node.id, body);
+  }
+
+  return bodies;
+}
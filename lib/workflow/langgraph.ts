@@ -11,9 +11,10 @@
  */
 
 import 'server-only';
-import { StateGraph, Annotation, START, END, MemorySaver, Command, Send, interrupt, isInterrupted } from "@langchain/langgraph";
-import { Workflow, WorkflowState, NodeExecutionResult, WorkflowNode, WorkflowEdge, WorkflowPendingAuth } from './types';
-import { executeAgentNode } from './executors/agent';
+import { StateGraph, Annotation, START, END, BaseCheckpointSaver, copyCheckpoint, Command, Send, interrupt, isInterrupted, isGraphInterrupt, type LangGraphRunnableConfig } from "@langchain/langgraph";
+import { context, trace, type Span } from '@opentelemetry/api';
+import { Workflow, WorkflowState, NodeExecutionResult, WorkflowNode, WorkflowEdge, WorkflowPendingAuth, WorkflowCheckpoint, ForEachItemResult, NodeToolCall } from './types';
+import { executeAgentNode, createMockAgentOutput, type AgentStreamHandlers } from './executors/agent';
 import { executeMCPNode } from './executors/mcp';
 import { executeLogicNode } from './executors/logic';
 import { executeDataNode } from './executors/data';
@@ -22,6 +23,21 @@ import { executeHTTPNode } from './executors/http';
 import { executeExtractNode } from './executors/extract';
 import { executeArcadeNode } from './executors/arcade';
 import { createOrUpdateArcadeAuthRecord } from '../arcade/auth-store';
+import { createCheckpointer } from './checkpointer';
+import { normalizeRetryPolicy, withRetry, classifyError } from './retry';
+import { abortable, isCancellation, throwIfCancelled, toAbortError } from './cancellation';
+import { createDeadline, formatTimeout, parseTimeoutMinutes, TIMEOUT_HANDLE } from './timeouts';
+import { getPinnedOutput } from './pinned-outputs';
+import { collectForEachBodies, parseForEachConcurrency, toForEachItems, FOR_EACH_ITEM_HANDLE } from './for-each';
+import { combineBranchOutputs, missingBranchOutput, normalizeMergeStrategy, type MergeBranchStatus } from './merge';
+import { evaluateSwitch, getSwitchCases, SWITCH_DEFAULT_HANDLE } from './switch';
+import { ERROR_HANDLE, isFailureHandle, toCaughtNodeError } from './error-branches';
+import { assertSubWorkflowDepth, buildSubWorkflowInput, getSubWorkflowOutput, loadSubWorkflow } from './sub-workflow';
+import { evaluateWorkflowExpression } from './expressions';
+import { cassetteFetch, withCassette, withReplayKeys, type Cassette } from './cassettes';
+import { getTraceId, markSpanFailed, startSpan, traceHTTPRequest, traceToolCall, withSpan } from './tracing';
+import { logger, withLogger, type Logger } from './logger';
+import { CancellationError, ErrorCodes, TimeoutError, ValidationError, WorkflowError } from '@/lib/errors';
 
 interface ArcadePendingResponse {
   __arcadePendingAuth: true;
@@ -81,6 +97,31 @@ export const WorkflowStateAnnotation = Annotation.Root({
     reducer: (left, right) => [...left, ...right],
     default: () => [],
   }),
+
+  // Test mode: nodes with a pinned output return it instead of calling their service.
+  // Kept in state so resumed, forked and run-from-node runs inherit it
+  testMode: Annotation<boolean>({
+    reducer: (_, right) => right,
+    default: () => false,
+  }),
+});
+
+/**
+ * For-each fan-out state: one Send per item, results appended as items finish
+ */
+const ForEachMapAnnotation = Annotation.Root({
+  items: Annotation<any[]>({
+    reducer: (_, right) => right,
+    default: () => [],
+  }),
+  parent: Annotation<typeof WorkflowStateAnnotation.State | null>({
+    reducer: (_, right) => right,
+    default: () => null,
+  }),
+  results: Annotation<ForEachItemResult[]>({
+    reducer: (left, right) => [...left, ...right],
+    default: () => [],
+  }),
 });
 
 /**
@@ -92,23 +133,42 @@ export class LangGraphExecutor {
   private graph: any; // Compiled StateGraph
   private apiKeys?: { anthropic?: string; groq?: string; openai?: string; firecrawl?: string; arcade?: string };
   private onNodeUpdate?: (nodeId: string, result: NodeExecutionResult) => void;
-  private checkpointer: MemorySaver;
+  private checkpointer: BaseCheckpointSaver;
   private parallelNodeIds = new Set<string>();
   private activeThreadId?: string;
   private activeExecutionId?: string;
   private pendingAuth: WorkflowPendingAuth | null = null;
   private lastStreamState: any = null;
   private edgesBySource: Map<string, WorkflowEdge[]> = new Map();
+  private forEachBodies: Map<string, Set<string>> = new Map();
+  private forEachGraphs: Map<string, { body: any; map: any }> = new Map();
+  private subWorkflowPath: string[] = []; // IDs of the workflows running this one as a sub-workflow
+  private cassette?: Cassette; // Records or replays external calls for the current run
+  private runSpan?: Span; // Trace span of the current run; node spans nest under it
+  private nodeSpans = new WeakSet<Span>();
+  private log: Logger; // Redacting logger; routes pass one that streams into the execution's log
+  private onNodeToken?: (nodeId: string, token: string, reset?: boolean) => void; // Agent output as it is generated
+  private onNodeToolCall?: (nodeId: string, toolCall: NodeToolCall) => void; // Agent tool calls as they finish
 
   constructor(
     workflow: Workflow,
     onNodeUpdate?: (nodeId: string, result: NodeExecutionResult) => void,
-    apiKeys?: { anthropic?: string; groq?: string; openai?: string; firecrawl?: string; arcade?: string }
+    apiKeys?: { anthropic?: string; groq?: string; openai?: string; firecrawl?: string; arcade?: string },
+    options?: {
+      subWorkflowPath?: string[];
+      logger?: Logger;
+      onNodeToken?: (nodeId: string, token: string, reset?: boolean) => void;
+      onNodeToolCall?: (nodeId: string, toolCall: NodeToolCall) => void;
+    }
   ) {
     
     this.workflow = workflow;
     this.onNodeUpdate = onNodeUpdate;
     this.apiKeys = apiKeys;
+    this.subWorkflowPath = options?.subWorkflowPath ?? [];
+    this.log = (options?.logger ?? logger).child({ workflowId: workflow.id });
+    this.onNodeToken = options?.onNodeToken;
+    this.onNodeToolCall = options?.onNodeToolCall;
 
     // Checkpointing ENABLED for interrupt support
     // Required for:
@@ -116,8 +176,9 @@ export class LangGraphExecutor {
     // - Arcade auth pauses
     // - Resuming workflows after server restarts
     // - Time-travel debugging
-    // Note: MemorySaver is lightweight and doesn't impact performance
-    this.checkpointer = new MemorySaver();
+    // Persisted in Convex so paused threads survive deploys and can be
+    // resumed from any instance (falls back to in-process memory)
+    this.checkpointer = createCheckpointer();
 
     // Build the LangGraph StateGraph
     this.graph = this.buildGraph();
@@ -127,17 +188,11 @@ export class LangGraphExecutor {
    * Build LangGraph StateGraph from workflow definition
    */
   private buildGraph() {
-    console.log('Building LangGraph from workflow:', {
-      workflowId: this.workflow.id,
+    this.log.debug('Building LangGraph from workflow', {
       workflowName: this.workflow.name,
       nodes: this.workflow.nodes.length,
       edges: this.workflow.edges.length,
-      nodeIds: this.workflow.nodes.map(n => n.id),
-      nodeTypes: this.workflow.nodes.map(n => (n.data as any)?.nodeType || n.type),
-      edgeSources: this.workflow.edges.map(e => e.source),
-      edgeTargets: this.workflow.edges.map(e => e.target),
-      fullNodes: this.workflow.nodes,
-      fullEdges: this.workflow.edges,
+      nodeTypes: Object.fromEntries(this.workflow.nodes.map(n => [n.id, (n.data as any)?.nodeType || n.type])),
     });
     
     const builder = new StateGraph(WorkflowStateAnnotation);
@@ -151,11 +206,11 @@ export class LangGraphExecutor {
     for (const edge of this.workflow.edges) {
       // Validate that both source and target nodes exist
       if (!validNodeIds.has(edge.source)) {
-        console.warn(`⚠️ Skipping edge ${edge.id}: source node '${edge.source}' does not exist`);
+        this.log.warn(`Skipping edge ${edge.id}: source node '${edge.source}' does not exist`);
         continue;
       }
       if (!validNodeIds.has(edge.target)) {
-        console.warn(`⚠️ Skipping edge ${edge.id}: target node '${edge.target}' does not exist`);
+        this.log.warn(`Skipping edge ${edge.id}: target node '${edge.target}' does not exist`);
         continue;
       }
 
@@ -165,7 +220,11 @@ export class LangGraphExecutor {
       this.edgesBySource.get(edge.source)!.push(edge);
     }
 
-    console.log('Edges by source:', Object.fromEntries(this.edgesBySource));
+    // For-each bodies run inside their for-each node's own graph, not this one
+    this.forEachBodies = collectForEachBodies(this.workflow.nodes, Array.from(this.edgesBySource.values()).flat());
+    this.forEachGraphs.clear();
+    const forEachBodyNodeIds = new Set(Array.from(this.forEachBodies.values()).flatMap(body => Array.from(body)));
+    const inGraph = (nodeId: string) => !forEachBodyNodeIds.has(nodeId);
 
     // Add nodes to the graph
     for (const node of this.workflow.nodes) {
@@ -173,7 +232,11 @@ export class LangGraphExecutor {
 
       // Skip note nodes entirely - they are visual-only sticky notes
       if (nodeType === 'note') {
-        console.log(`Skipping note node ${node.id} (visual only)`);
+        this.log.debug(`Skipping note node ${node.id} (visual only)`);
+        continue;
+      }
+
+      if (forEachBodyNodeIds.has(node.id)) {
         continue;
       }
 
@@ -193,6 +256,14 @@ export class LangGraphExecutor {
         continue;
       }
 
+      if (nodeType === 'merge') {
+        const targets = this.getRoutableTargets(node.id);
+        const errorTargets = this.getRoutableTargets(node.id, ERROR_HANDLE);
+        const merge = this.createMergeNodeExecutor(node, targets, errorTargets, inGraph);
+        builder.addNode(node.id, merge.executor, { ends: merge.ends });
+        continue;
+      }
+
       // Create node executor function
       const nodeExecutor = this.createNodeExecutor(node);
       const outgoingEdges = this.edgesBySource.get(node.id) || [];
@@ -213,13 +284,27 @@ export class LangGraphExecutor {
     const conditionalNodes = new Set<string>();
     const whileLoopNodes = new Set<string>();
 
-    for (const [sourceId, sourceEdges] of Array.from(this.edgesBySource.entries())) {
+    for (const [sourceId, allSourceEdges] of Array.from(this.edgesBySource.entries())) {
       const sourceNode = this.workflow.nodes.find(n => n.id === sourceId);
       const sourceType = (sourceNode?.data as any)?.nodeType || sourceNode?.type;
 
+      if (forEachBodyNodeIds.has(sourceId)) {
+        continue;
+      }
+
+      // Merge nodes route themselves once their branches have arrived
+      if (sourceType === 'merge') {
+        continue;
+      }
+
+      // A for-each node's item edges lead into its body; only 'done' continues here
+      const sourceEdges = sourceType === 'for-each'
+        ? allSourceEdges.filter(edge => edge.sourceHandle !== FOR_EACH_ITEM_HANDLE)
+        : allSourceEdges;
+
       // Skip edges from note nodes (notes are visual only)
       if (sourceType === 'note') {
-        console.log(`Skipping edges from note node ${sourceId}`);
+        this.log.debug(`Skipping edges from note node ${sourceId}`);
         continue;
       }
 
@@ -236,8 +321,8 @@ export class LangGraphExecutor {
 
       if (sourceType === 'if-else' || sourceType === 'if / else') {
         if (!conditionalNodes.has(sourceId)) {
-          const routingFunction = this.createConditionalRouter(sourceId);
-          const pathMap: Record<string, string> = {};
+          const routingFunction = this.createConditionalRouter(sourceId, sourceEdges, inGraph);
+          const pathMap: Record<string, string> = this.buildMergeTriggerPathMap(sourceEdges, inGraph);
 
           for (const edge of sourceEdges) {
             const handle = edge.sourceHandle || 'default';
@@ -250,12 +335,43 @@ export class LangGraphExecutor {
         continue;
       }
 
+      if (sourceType === 'switch') {
+        const targetEdges = sourceEdges.filter(edge => {
+          const targetNode = this.workflow.nodes.find(n => n.id === edge.target);
+          const targetType = (targetNode?.data as any)?.nodeType || targetNode?.type;
+          return targetNode && targetType !== 'note';
+        });
+        const pathMap: Record<string, string> = { [END]: END, ...this.buildMergeTriggerPathMap(targetEdges, inGraph) };
+        for (const edge of targetEdges) {
+          pathMap[edge.target] = edge.target;
+        }
+
+        builder.addConditionalEdges(sourceId as any, this.createSwitchRouter(sourceId, targetEdges, inGraph), pathMap as any);
+        continue;
+      }
+
+      // Nodes with a timeout or error branch route there instead of failing the run
+      if (sourceEdges.some(edge => isFailureHandle(edge.sourceHandle))) {
+        const targetEdges = sourceEdges.filter(edge => {
+          const targetNode = this.workflow.nodes.find(n => n.id === edge.target);
+          const targetType = (targetNode?.data as any)?.nodeType || targetNode?.type;
+          return targetNode && targetType !== 'note';
+        });
+        const pathMap: Record<string, string> = { [END]: END, ...this.buildMergeTriggerPathMap(targetEdges, inGraph) };
+        for (const edge of targetEdges) {
+          pathMap[edge.target] = edge.target;
+        }
+
+        builder.addConditionalEdges(sourceId as any, this.createFailureRouter(sourceId, targetEdges, inGraph), pathMap as any);
+        continue;
+      }
+
       // For regular nodes, add their outgoing edges
       for (const edge of sourceEdges) {
         // Verify target node exists
         const targetNode = this.workflow.nodes.find(n => n.id === edge.target);
         if (!targetNode) {
-          console.warn(`⚠️ Skipping edge ${edge.id}: target node '${edge.target}' not found`);
+          this.log.warn(`Skipping edge ${edge.id}: target node '${edge.target}' not found`);
           continue;
         }
 
@@ -263,7 +379,7 @@ export class LangGraphExecutor {
         const targetType = (targetNode.data as any)?.nodeType || targetNode.type;
 
         if (targetType === 'note') {
-          console.log(`Skipping edge to note node ${edge.target}`);
+          this.log.debug(`Skipping edge to note node ${edge.target}`);
           continue;
         }
 
@@ -274,14 +390,13 @@ export class LangGraphExecutor {
     }
 
     // Connect LangGraph's START to our start node
-    console.log('Connecting LangGraph START to workflow start node...');
     const startNode = this.workflow.nodes.find(n => {
       const nodeType = (n.data as any)?.nodeType || n.type;
       return nodeType === 'start';
     });
 
     if (startNode) {
-      console.log(`Connecting LangGraph START to start node: ${startNode.id}`);
+      this.log.debug(`Connecting LangGraph START to start node: ${startNode.id}`);
       builder.addEdge(START, startNode.id as any);
     }
 
@@ -292,13 +407,17 @@ export class LangGraphExecutor {
     });
 
     for (const endNode of endNodes) {
-      console.log(`Connecting end node ${endNode.id} to LangGraph END`);
+      this.log.debug(`Connecting end node ${endNode.id} to LangGraph END`);
       builder.addEdge(endNode.id as any, END);
     }
 
     // Compile the graph WITH checkpointing (required for interrupts/approvals)
     try {
-      return builder.compile({ checkpointer: this.checkpointer });
+      // A sub-workflow shares its parent's checkpointer, which LangGraph only
+      // does for graphs compiled without one of their own
+      return this.subWorkflowPath.length > 0
+        ? builder.compile()
+        : builder.compile({ checkpointer: this.checkpointer });
     } catch (error) {
       // Provide descriptive error messages for common issues
       if (error instanceof Error && error.message.includes('is not reachable')) {
@@ -361,8 +480,12 @@ export class LangGraphExecutor {
    * Create node executor function for LangGraph (CLEAN VERSION)
    */
   private createNodeExecutor(node: WorkflowNode) {
-    return async (state: typeof WorkflowStateAnnotation.State) => {
-      console.log(`Executing node: ${node.id}`);
+    const log = this.nodeLog(node.id);
+
+    const execute = async (state: typeof WorkflowStateAnnotation.State, config?: LangGraphRunnableConfig) => {
+      log.info('Node started', { nodeType: (node.data as any)?.nodeType || node.type });
+      const signal = config?.signal;
+      throwIfCancelled(signal);
 
       // Notify UI
       const result: NodeExecutionResult = {
@@ -372,12 +495,57 @@ export class LangGraphExecutor {
       };
       this.onNodeUpdate?.(node.id, result);
 
+      const retryPolicy = normalizeRetryPolicy((node.data as any)?.retry);
+      const timeoutMs = parseTimeoutMinutes((node.data as any)?.timeoutMinutes);
+      const pinned = state.testMode ? getPinnedOutput(node.data) : undefined;
+      if (pinned) {
+        result.pinned = true;
+      } else if (retryPolicy.maxAttempts > 1) {
+        result.attempt = 1;
+        result.maxAttempts = retryPolicy.maxAttempts;
+      }
+
       try {
-        // Execute the node (pure, server-side)
-        const output = await this.executeNodePure(node, state);
+        // Execute the node (pure, server-side), retrying transient failures per node policy
+        const output = pinned ? this.createPinnedNodeOutput(node, pinned.output) : await withRetry(
+          async (attempt) => {
+            if (attempt > 1) {
+              result.status = 'running';
+              result.attempt = attempt;
+              result.error = undefined;
+              result.errorCode = undefined;
+              result.nextRetryAt = undefined;
+              this.onNodeUpdate?.(node.id, result);
+            }
 
-        // Log full output shape for debugging
-        console.log(`Node ${node.id} output shape:`, {
+            // Each attempt gets the full node timeout
+            const deadline = createDeadline(signal, timeoutMs, () => new TimeoutError(
+              `Node timed out after ${formatTimeout(timeoutMs!)}`,
+              timeoutMs!,
+              node.id
+            ));
+            try {
+              return await abortable(this.executeNodePure(node, state, deadline.signal), deadline.signal);
+            } finally {
+              deadline.clear();
+            }
+          },
+          retryPolicy,
+          {
+            shouldAbort: isGraphInterrupt,
+            signal,
+            onRetry: ({ attempt, maxAttempts, error, errorCode, delayMs }) => {
+              log.warn(`Attempt ${attempt}/${maxAttempts} failed (${errorCode}), retrying in ${delayMs}ms`, error);
+              result.status = 'retrying';
+              result.error = error instanceof Error ? error.message : 'Unknown error';
+              result.errorCode = errorCode;
+              result.nextRetryAt = new Date(Date.now() + delayMs).toISOString();
+              this.onNodeUpdate?.(node.id, result);
+            },
+          }
+        );
+
+        log.debug('Output shape', {
           outputType: typeof output,
           outputKeys: output && typeof output === 'object' && output !== null ? Object.keys(output) : [],
           hasAgentValue: output && typeof output === 'object' && output !== null && '__agentValue' in output,
@@ -386,37 +554,53 @@ export class LangGraphExecutor {
 
         // Check if output is a pending approval (user-approval node)
         if (output && typeof output === 'object' && output !== null && '__pendingApproval' in output) {
-          console.log(`Detected pending approval from node ${node.id}`);
+          log.info('Waiting for approval');
           return await this.handlePendingApproval(node, result, output as ApprovalPendingResponse);
         }
 
         // Extract tool calls and chat history if this is an agent node
         let actualOutput = output;
         let toolCalls: any = undefined;
+        let servedModel: string | undefined;
         let chatHistoryUpdates: any[] = [];
         let variableUpdates: Record<string, any> = {};
 
         if (output && typeof output === 'object' && output !== null && '__agentValue' in output) {
           actualOutput = output.__agentValue;
           toolCalls = (output as any).__agentToolCalls;
+          servedModel = (output as any).__agentModel;
           chatHistoryUpdates = (output as any).__chatHistoryUpdates || [];
           variableUpdates = (output as any).__variableUpdates || {};
 
-          console.log(`Extracted from agent output:`, {
+          log.debug('Extracted from agent output', {
             actualOutput: typeof actualOutput === 'string' ? actualOutput.substring(0, 100) : actualOutput,
             toolCallsCount: Array.isArray(toolCalls) ? toolCalls.length : 0,
+            model: servedModel,
             toolCalls: toolCalls,
             chatHistoryUpdates: chatHistoryUpdates.length,
             variableUpdates: Object.keys(variableUpdates),
           });
         }
 
+        // Warnings (inputs reduced to fit the model's context) go on the result, not the output
+        let warnings: string[] | undefined;
+        if (output && typeof output === 'object' && Array.isArray((output as any).__warnings)) {
+          warnings = (output as any).__warnings.length > 0 ? (output as any).__warnings : undefined;
+          if (actualOutput === output) {
+            const { __warnings: _warnings, ...rest } = output as any;
+            actualOutput = rest;
+          }
+        }
+
         // Update result
         result.output = actualOutput;
         result.toolCalls = toolCalls;
+        result.model = servedModel;
+        result.warnings = warnings;
         result.status = 'completed';
         result.completedAt = new Date().toISOString();
         this.onNodeUpdate?.(node.id, result);
+        log.info(pinned ? 'Node completed (pinned output)' : 'Node completed');
 
         // For while loops, extract the iteration counter from output
         // Merge with any agent-provided variable updates
@@ -434,7 +618,7 @@ export class LangGraphExecutor {
         if (actualOutput && typeof actualOutput === 'object' && '__appendToLoopResults' in actualOutput) {
           const newResult = actualOutput.__appendToLoopResults;
           loopResultsUpdate = [newResult]; // Will be appended by reducer
-          console.log(`Appending result to loopResults array`);
+          log.debug('Appending result to loopResults array');
 
           // Remove the signal from lastOutput
           const { __appendToLoopResults, ...cleanOutput } = actualOutput;
@@ -450,7 +634,7 @@ export class LangGraphExecutor {
 
           if (iterationKey in actualOutput) {
             mergedVariableUpdates[iterationKey] = actualOutput[iterationKey];
-            console.log(`Saving iteration counter: ${iterationKey} = ${actualOutput[iterationKey]}`);
+            log.debug(`Saving iteration counter: ${iterationKey} = ${actualOutput[iterationKey]}`);
           }
         }
 
@@ -464,14 +648,186 @@ export class LangGraphExecutor {
           ...(loopResultsUpdate ? { loopResults: loopResultsUpdate } : {}),
         };
       } catch (error) {
+        // A pause (approval or authorization, possibly inside a sub-workflow)
+        // isn't a failure; the node runs again on resume
+        if (isGraphInterrupt(error)) {
+          throw error;
+        }
+
+        const abortError = isCancellation(error, signal)
+          ? toAbortError(signal?.reason)
+          : undefined;
+
+        if (error instanceof TimeoutError || abortError instanceof TimeoutError) {
+          const timeoutError = (abortError ?? error) as TimeoutError;
+          result.status = 'timeout';
+          result.error = timeoutError.message;
+          result.errorCode = timeoutError.code;
+          result.nextRetryAt = undefined;
+          result.completedAt = new Date().toISOString();
+          this.onNodeUpdate?.(node.id, result);
+
+          // Only the node's own timeout can be handled; a workflow deadline stops the run
+          if (!abortError && (this.hasTimeoutBranch(node.id) || this.hasFailureBranch(node.id, ERROR_HANDLE))) {
+            log.warn(`Timed out, routing to ${this.hasTimeoutBranch(node.id) ? 'timeout' : 'error'} branch`);
+            return this.createFailureUpdate(node, result, timeoutError);
+          }
+
+          log.error(timeoutError.message);
+          throw timeoutError;
+        }
+
+        if (abortError instanceof CancellationError) {
+          const cancellation = abortError;
+          result.status = 'cancelled';
+          result.error = cancellation.message;
+          result.errorCode = cancellation.code;
+          result.nextRetryAt = undefined;
+          result.completedAt = new Date().toISOString();
+          this.onNodeUpdate?.(node.id, result);
+          log.info('Node cancelled');
+
+          throw cancellation;
+        }
+
         result.status = 'failed';
         result.error = error instanceof Error ? error.message : 'Unknown error';
+        result.errorCode = classifyError(error);
+        result.nextRetryAt = undefined;
         result.completedAt = new Date().toISOString();
         this.onNodeUpdate?.(node.id, result);
 
+        if (this.hasFailureBranch(node.id, ERROR_HANDLE)) {
+          log.warn('Node failed, routing to error branch', error);
+          return this.createFailureUpdate(node, result, error);
+        }
+
+        log.error('Node failed', error);
         throw error;
       }
     };
+
+    // Executors pick the node's logger up with getLogger()
+    return (state: typeof WorkflowStateAnnotation.State, config?: LangGraphRunnableConfig) =>
+      withLogger(log, () => this.traceNode(node, () => execute(state, config)));
+  }
+
+  private nodeLog(nodeId: string): Logger {
+    return this.log.child({ nodeId });
+  }
+
+  /**
+   * Token and tool call callbacks for an agent node. For-each bodies run many
+   * items at once under the same node ID, so their output only arrives with the result.
+   */
+  private agentStreamHandlers(nodeId: string): AgentStreamHandlers | undefined {
+    const { onNodeToken, onNodeToolCall } = this;
+    if (!onNodeToken && !onNodeToolCall) return undefined;
+
+    for (const body of Array.from(this.forEachBodies.values())) {
+      if (body.has(nodeId)) return undefined;
+    }
+    return {
+      onToken: onNodeToken && ((token) => onNodeToken(nodeId, token)),
+      onReset: onNodeToken && ((text) => onNodeToken(nodeId, text, true)),
+      onToolCall: onNodeToolCall && ((toolCall) => onNodeToolCall(nodeId, toolCall)),
+    };
+  }
+
+  /**
+   * Run a node inside its trace span. Nodes nest under the node running them
+   * (for-each bodies) or else directly under the run's span.
+   */
+  private traceNode<T>(node: WorkflowNode, run: () => Promise<T>): Promise<T> {
+    const activeSpan = trace.getActiveSpan();
+    const parent = activeSpan && this.nodeSpans.has(activeSpan)
+      ? context.active()
+      : this.runSpan ? trace.setSpan(context.active(), this.runSpan) : context.active();
+    const nodeType = (node.data as any)?.nodeType || node.type;
+
+    return withSpan(`node ${(node.data as any)?.nodeName || node.data?.label || node.id}`, {
+      'workflow.node.id': node.id,
+      'workflow.node.type': nodeType,
+    }, async (span) => {
+      this.nodeSpans.add(span);
+      const update: any = await run();
+      const result: NodeExecutionResult | undefined = update?.nodeResults?.[node.id];
+      if (result) {
+        span.setAttribute('workflow.node.status', result.status);
+        if (result.attempt) span.setAttribute('workflow.node.attempts', result.attempt);
+        if (result.pinned) span.setAttribute('workflow.node.pinned', true);
+        // Failures routed to an error or timeout branch still failed
+        if (result.status === 'failed' || result.status === 'timeout') {
+          markSpanFailed(span, new Error(result.error || result.status));
+        }
+      }
+      return update;
+    }, {
+      parent,
+      isFailure: (error) => !isGraphInterrupt(error),
+    });
+  }
+
+  /**
+   * Start the trace span for a run (or resume, fork, ...) of this workflow.
+   * Ended by wrapStreamWithInterruptHandling once the stream finishes.
+   */
+  private startRunSpan(operation: string, attributes: Record<string, string | boolean | undefined> = {}) {
+    this.runSpan = startSpan(`workflow ${operation}`, {
+      'workflow.id': this.workflow.id,
+      'workflow.name': this.workflow.name,
+      'workflow.thread_id': this.activeThreadId,
+      'workflow.execution_id': this.activeExecutionId,
+      ...attributes,
+    });
+    return this.runSpan;
+  }
+
+  private endRunSpan(span: Span | undefined, state: any, error?: unknown) {
+    if (!span) return;
+
+    if (error) {
+      markSpanFailed(span, error);
+    } else if (state?.pendingAuth) {
+      span.setAttribute('workflow.status', 'paused');
+    } else {
+      const status = ['failed', 'cancelled', 'timeout'].includes(state?.status) ? state.status : 'completed';
+      span.setAttribute('workflow.status', status);
+      if (status === 'failed' || status === 'timeout') {
+        markSpanFailed(span, new Error(state.error || status));
+      }
+    }
+    span.end();
+  }
+
+  /**
+   * Trace ID of the current run, for linking it from the execution record
+   */
+  getTraceId(): string | undefined {
+    return getTraceId(this.runSpan);
+  }
+
+  /**
+   * State update for a failure that continues down a timeout or error branch.
+   * Nodes on that branch see the caught error as the `error` variable.
+   */
+  private createFailureUpdate(node: WorkflowNode, result: NodeExecutionResult, error: unknown) {
+    const nodeName = (node.data as any)?.nodeName || (node.data as any)?.name || node.id;
+    return {
+      variables: { error: toCaughtNodeError(error, node.id, nodeName) },
+      currentNodeId: node.id,
+      nodeResults: { [node.id]: result },
+      pendingAuth: null,
+    };
+  }
+
+  /**
+   * Output for a node whose pinned output stands in for the real call (test mode)
+   */
+  private createPinnedNodeOutput(node: WorkflowNode, output: any) {
+    this.nodeLog(node.id).debug('Using pinned output (test mode)');
+    const nodeType = (node.data as any)?.nodeType || node.type;
+    return nodeType === 'agent' ? createMockAgentOutput(node, output) : output;
   }
 
   /**
@@ -479,7 +835,8 @@ export class LangGraphExecutor {
    */
   private async executeNodePure(
     node: WorkflowNode,
-    state: typeof WorkflowStateAnnotation.State
+    state: typeof WorkflowStateAnnotation.State,
+    signal?: AbortSignal
   ): Promise<any> {
     const nodeType = (node.data as any)?.nodeType || node.type;
     const data = node.data as any;
@@ -507,12 +864,12 @@ export class LangGraphExecutor {
 
       case 'agent': {
         // Use the proper executeAgentNode which handles MCP tools
-        console.log(`Agent node ${node.id} configuration:`, {
+        this.nodeLog(node.id).debug('Agent configuration', {
           hasMcpTools: !!data.mcpTools,
           mcpToolsCount: data.mcpTools?.length || 0,
           mcpTools: data.mcpTools,
         });
-        const result = await executeAgentNode(node, state as WorkflowState, this.apiKeys);
+        const result = await executeAgentNode(node, state as WorkflowState, this.getApiKeys(), signal, this.cassette, this.agentStreamHandlers(node.id));
         return result;
       }
 
@@ -525,17 +882,23 @@ export class LangGraphExecutor {
 
         if (server.name.toLowerCase().includes('firecrawl')) {
           const FirecrawlApp = (await import('@mendable/firecrawl-js')).default;
-          const firecrawl = new FirecrawlApp({ apiKey: this.apiKeys?.firecrawl });
+          const firecrawl = new FirecrawlApp({ apiKey: this.getApiKeys()?.firecrawl });
 
           if (action === 'scrape') {
             const url = data.scrapeUrl || state.variables.lastOutput || state.variables.input;
-            const result = await firecrawl.scrape(url, { formats: ['markdown'] });
+            const options = { formats: ['markdown' as const] };
+            const result = await abortable(traceToolCall('firecrawl_scrape', () => withCassette(this.cassette, 'firecrawl.scrape', { url, options }, () =>
+              firecrawl.scrape(url, options)
+            )), signal);
             return result.markdown || result;
           }
 
           if (action === 'search') {
             const query = data.searchQuery || state.variables.lastOutput;
-            const result = await firecrawl.search(query, { limit: 5 });
+            const options = { limit: 5 };
+            const result = await abortable(traceToolCall('firecrawl_search', () => withCassette(this.cassette, 'firecrawl.search', { query, options }, () =>
+              firecrawl.search(query, options)
+            )), signal);
             return result;
           }
         }
@@ -555,16 +918,24 @@ export class LangGraphExecutor {
       case 'http': {
         const url = data.httpUrl || '';
         const method = data.httpMethod || 'GET';
-        const response = await fetch(url, { method });
+        const response = await traceHTTPRequest(method, url, () =>
+          cassetteFetch(this.cassette, 'http.fetch', url, { method, signal })
+        );
         return await response.json();
       }
 
-      case 'if-else': {
-        const condition = data.condition || 'true';
-        const evalFn = new Function('input', 'state', 'lastOutput', `return ${condition}`);
-        const result = evalFn(state.variables.input, state, state.variables.lastOutput);
-        return { condition: Boolean(result), branch: result ? 'if' : 'else' };
-      }
+      case 'if-else':
+        // Evaluated once here; the router follows the recorded branch
+        return await executeLogicNode(node, {
+          variables: state.variables,
+          chatHistory: state.chatHistory,
+        });
+
+      case 'switch':
+        return evaluateSwitch(getSwitchCases(data), {
+          variables: state.variables,
+          chatHistory: state.chatHistory,
+        });
 
       case 'while': {
         // Execute while loop check using the proper method
@@ -575,41 +946,365 @@ export class LangGraphExecutor {
         return await this.executeWhileNode(node, tempState, state);
       }
 
+      case 'for-each':
+        return await this.executeForEachNode(node, state, signal);
+
+      case 'merge':
+        return this.executeMergeNode(node, state);
+
+      case 'sub-workflow':
+        return await this.executeSubWorkflowNode(node, state, signal);
+
       case 'end':
         return { message: 'Workflow completed', finalOutput: state.variables.lastOutput };
 
       default:
         // For node types not in executeNodePure, fall back to the full executeNode implementation
-        console.log(`WARNING: Node type '${nodeType}' not in executeNodePure, using executeNode fallback`);
+        this.nodeLog(node.id).debug(`Node type '${nodeType}' not in executeNodePure, using executeNode fallback`);
         const tempState = {
           variables: state.variables,
           chatHistory: state.chatHistory,
         };
-        return await this.executeNode(node, tempState);
+        return await this.executeNode(node, tempState, signal);
     }
   }
 
   /**
-   * Create conditional router for if-else nodes
+   * Create conditional router for if-else nodes: follows the branch the node
+   * recorded, so the route always matches its result
    */
-  private createConditionalRouter(nodeId: string) {
-    return async (state: typeof WorkflowStateAnnotation.State) => {
-      const node = this.workflow.nodes.find(n => n.id === nodeId);
-      if (!node) return 'default';
-
-      // Execute the if-else condition
-      const tempState: WorkflowState = {
-        variables: state.variables,
-        chatHistory: state.chatHistory,
-      };
+  private createConditionalRouter(nodeId: string, edges: WorkflowEdge[], inGraph: (nodeId: string) => boolean) {
+    const withMergeTriggers = (handle: string) => {
+      const skippedMerges = this.getSkippedMerges(edges, edges.filter(edge => edge.sourceHandle === handle), inGraph);
+      return skippedMerges.length > 0 ? [handle, ...skippedMerges] : handle;
+    };
 
-      const result = await executeLogicNode(node, tempState);
+    return (state: typeof WorkflowStateAnnotation.State) => {
+      if (this.hasFailed(nodeId, state)) return withMergeTriggers(ERROR_HANDLE);
 
       // Return the branch handle ('if' or 'else')
-      return result.branch || 'else';
+      return withMergeTriggers(state.nodeResults?.[nodeId]?.output?.branch || 'else');
+    };
+  }
+
+  /**
+   * Run another saved workflow with a nested executor. It is invoked from inside
+   * this node, so LangGraph treats it as a subgraph: its checkpoints live under
+   * this run's thread, and an approval inside it pauses this run and resumes
+   * the child where it stopped.
+   */
+  private async executeSubWorkflowNode(
+    node: WorkflowNode,
+    state: typeof WorkflowStateAnnotation.State,
+    signal?: AbortSignal
+  ) {
+    const data: any = node.data || {};
+    const path = [...this.subWorkflowPath, this.workflow.id];
+
+    const subWorkflow = await loadSubWorkflow(data.subWorkflowId, node.id);
+    assertSubWorkflowDepth(path, subWorkflow.id, node.id);
+
+    const input = buildSubWorkflowInput(subWorkflow, data.subWorkflowInputs, {
+      variables: state.variables,
+      chatHistory: state.chatHistory,
+    }, node.id);
+
+    // Child node IDs mean nothing to this workflow's UI; only surface pauses
+    const child = new LangGraphExecutor(subWorkflow, (childNodeId, childResult) => {
+      if (!childResult.pendingAuth) return;
+      this.pendingAuth = childResult.pendingAuth;
+      this.onNodeUpdate?.(node.id, {
+        nodeId: node.id,
+        status: childResult.status,
+        output: childResult.output,
+        pendingAuth: childResult.pendingAuth,
+        startedAt: childResult.startedAt,
+      });
+    }, this.apiKeys, { subWorkflowPath: path, logger: this.nodeLog(node.id) });
+
+    this.nodeLog(node.id).info(`Running sub-workflow ${subWorkflow.id} (depth ${path.length})`);
+    const finalState = await child.runAsSubWorkflow(input, {
+      threadId: this.activeThreadId,
+      executionId: this.activeExecutionId,
+      testMode: state.testMode,
+      signal,
+      cassette: this.cassette,
+    });
+
+    this.pendingAuth = null;
+    return getSubWorkflowOutput(subWorkflow, finalState);
+  }
+
+  /**
+   * Create router for switch nodes: follows the edges on the matched case's
+   * handle, ending the branch when that case isn't connected
+   */
+  private createSwitchRouter(nodeId: string, edges: WorkflowEdge[], inGraph: (nodeId: string) => boolean) {
+    return (state: typeof WorkflowStateAnnotation.State) => {
+      const branch = this.hasFailed(nodeId, state)
+        ? ERROR_HANDLE
+        : state.nodeResults?.[nodeId]?.output?.branch || SWITCH_DEFAULT_HANDLE;
+      const taken = edges.filter(edge => (edge.sourceHandle || SWITCH_DEFAULT_HANDLE) === branch);
+      const targets = [...taken.map(edge => edge.target), ...this.getSkippedMerges(edges, taken, inGraph)];
+      return targets.length > 0 ? targets : END;
+    };
+  }
+
+  /**
+   * Outgoing targets of a node, skipping note nodes. Without a handle only the
+   * regular (non-failure) edges are included.
+   */
+  private getRoutableTargets(nodeId: string, handle?: string): string[] {
+    const targets: string[] = [];
+    for (const edge of this.edgesBySource.get(nodeId) || []) {
+      if (handle ? edge.sourceHandle !== handle : isFailureHandle(edge.sourceHandle)) continue;
+      const targetNode = this.workflow.nodes.find(n => n.id === edge.target);
+      const targetType = (targetNode?.data as any)?.nodeType || targetNode?.type;
+      if (targetNode && targetType !== 'note' && !targets.includes(edge.target)) {
+        targets.push(edge.target);
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Merge nodes are triggered each time one of their branches finishes but only
+   * continue once the merge strategy is satisfied, so they route with Command
+   * instead of static edges. `ends` lists every node the merge can route to.
+   */
+  private createMergeNodeExecutor(node: WorkflowNode, targets: string[], errorTargets: string[], inGraph: (nodeId: string) => boolean) {
+    const executor = this.createNodeExecutor(node);
+    // Merges behind the edges not taken are woken too (see getSkippedMerges)
+    const mergesBehind = (skippedTargets: string[]) => this.getMergesBehind(skippedTargets, inGraph)
+      .filter(mergeId => mergeId !== node.id && !targets.includes(mergeId) && !errorTargets.includes(mergeId));
+    const onSuccess = [...targets, ...mergesBehind(errorTargets)];
+    const onFailure = [...errorTargets, ...mergesBehind(targets)];
+
+    const mergeExecutor = async (state: typeof WorkflowStateAnnotation.State, config?: LangGraphRunnableConfig) => {
+      if (!this.isMergeReady(node, state)) {
+        this.nodeLog(node.id).debug('Merge waiting for remaining branches');
+        return new Command({ goto: [] });
+      }
+
+      const update = await executor(state, config);
+      const status = (update as any)?.nodeResults?.[node.id]?.status;
+      const failed = status === 'failed' || status === 'timeout';
+      return new Command({ update, goto: failed ? onFailure : onSuccess });
+    };
+
+    return { executor: mergeExecutor, ends: Array.from(new Set([...onSuccess, ...onFailure])) };
+  }
+
+  /**
+   * Branches feeding a merge node, in connection order
+   */
+  private getMergeSources(nodeId: string): string[] {
+    const sources: string[] = [];
+    for (const edge of this.workflow.edges) {
+      if (edge.target !== nodeId || sources.includes(edge.source)) continue;
+      const sourceNode = this.workflow.nodes.find(n => n.id === edge.source);
+      const sourceType = (sourceNode?.data as any)?.nodeType || sourceNode?.type;
+      if (sourceNode && sourceType !== 'note') {
+        sources.push(edge.source);
+      }
+    }
+    return sources;
+  }
+
+  /**
+   * Where each branch feeding a merge stands since the merge last ran (so
+   * merges inside loops wait for the current iteration), in connection order
+   */
+  private getMergeBranches(nodeId: string, state: typeof WorkflowStateAnnotation.State) {
+    const previous = state.nodeResults?.[nodeId];
+    const mergedAt = previous?.status === 'completed' || previous?.status === 'failed' ? previous.completedAt : undefined;
+    const skipped = new Map<string, boolean>();
+
+    return this.getMergeSources(nodeId).map(sourceId => {
+      const result = this.getResultSince(sourceId, state, mergedAt);
+      const status: MergeBranchStatus = result?.status === 'completed'
+        ? 'completed'
+        : result?.status === 'failed' || result?.status === 'timeout'
+          ? 'failed'
+          : this.isSkippedSince(sourceId, state, mergedAt, skipped) ? 'skipped' : 'pending';
+      return { sourceId, status, result };
+    });
+  }
+
+  private getResultSince(nodeId: string, state: typeof WorkflowStateAnnotation.State, since?: string) {
+    const result = state.nodeResults?.[nodeId];
+    return result && (!since || String(result.completedAt || '') > since) ? result : undefined;
+  }
+
+  /**
+   * Whether a node can no longer run in this pass of a merge: it hasn't run
+   * since `since`, and every edge into it comes from a node that was skipped too,
+   * took another if-else or switch branch, or failed onto its error branch.
+   * Nodes on a loop are assumed to come back around.
+   */
+  private isSkippedSince(
+    nodeId: string,
+    state: typeof WorkflowStateAnnotation.State,
+    since: string | undefined,
+    skipped: Map<string, boolean>
+  ): boolean {
+    const known = skipped.get(nodeId);
+    if (known !== undefined) return known;
+    skipped.set(nodeId, false);
+
+    const isSkipped = !this.getResultSince(nodeId, state, since) && this.workflow.edges
+      .filter(edge => edge.target === nodeId)
+      .every(edge => {
+        const sourceNode = this.workflow.nodes.find(n => n.id === edge.source);
+        const sourceType = (sourceNode?.data as any)?.nodeType || sourceNode?.type;
+        if (!sourceNode || sourceType === 'note') return true;
+
+        const result = this.getResultSince(edge.source, state, since);
+        if (!result) return this.isSkippedSince(edge.source, state, since, skipped);
+
+        if (result.status === 'failed' || result.status === 'timeout') {
+          const handle = result.status === 'timeout' && this.hasTimeoutBranch(edge.source) ? TIMEOUT_HANDLE : ERROR_HANDLE;
+          return edge.sourceHandle !== handle;
+        }
+        if (result.status !== 'completed') return false;
+
+        if (sourceType === 'if-else' || sourceType === 'if / else') {
+          return edge.sourceHandle !== result.output?.branch;
+        }
+        if (sourceType === 'switch') {
+          return (edge.sourceHandle || SWITCH_DEFAULT_HANDLE) !== (result.output?.branch || SWITCH_DEFAULT_HANDLE);
+        }
+        return isFailureHandle(edge.sourceHandle);
+      });
+
+    skipped.set(nodeId, isSkipped);
+    return isSkipped;
+  }
+
+  /**
+   * Merge nodes downstream of `targets`. A router that leaves targets out
+   * triggers these as well, since a merge waiting on a branch that won't
+   * run has nothing else to wake it.
+   */
+  private getMergesBehind(targets: string[], inGraph: (nodeId: string) => boolean): string[] {
+    const merges: string[] = [];
+    const seen = new Set<string>();
+    const queue = [...targets];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (seen.has(id) || !inGraph(id)) continue;
+      seen.add(id);
+
+      const node = this.workflow.nodes.find(n => n.id === id);
+      if (((node?.data as any)?.nodeType || node?.type) === 'merge') {
+        merges.push(id);
+      }
+      queue.push(...(this.edgesBySource.get(id) || []).map(edge => edge.target));
+    }
+
+    return merges;
+  }
+
+  private isMergeReady(node: WorkflowNode, state: typeof WorkflowStateAnnotation.State): boolean {
+    const strategy = normalizeMergeStrategy((node.data as any)?.mergeStrategy);
+    const branches = this.getMergeBranches(node.id, state);
+    const arrived = branches.some(branch => branch.status === 'completed' || branch.status === 'failed');
+    const settled = branches.every(branch => branch.status !== 'pending');
+
+    if (strategy === 'first-completed') {
+      // Fires once; branches finishing afterwards are ignored
+      if (state.nodeResults?.[node.id]?.status === 'completed') return false;
+      return branches.some(branch => branch.status === 'completed') || (arrived && settled);
+    }
+
+    // A merge none of whose branches ran was skipped itself
+    return arrived && settled;
+  }
+
+  private executeMergeNode(node: WorkflowNode, state: typeof WorkflowStateAnnotation.State) {
+    const strategy = normalizeMergeStrategy((node.data as any)?.mergeStrategy);
+    let branches = this.getMergeBranches(node.id, state);
+
+    if (strategy === 'first-completed') {
+      // Stable sort keeps connection order for branches that finished together
+      branches = branches
+        .filter(branch => branch.status === 'completed')
+        .sort((a, b) => String(a.result?.completedAt || '').localeCompare(String(b.result?.completedAt || '')));
+      if (branches.length === 0) {
+        throw new WorkflowError('Merge has no completed branch: every branch failed or was skipped', ErrorCodes.NODE_EXECUTION_ERROR, node.id);
+      }
+    }
+
+    const combined = branches.map(branch => {
+      const sourceNode = this.workflow.nodes.find(n => n.id === branch.sourceId);
+      const name = (sourceNode?.data as any)?.nodeName || (sourceNode?.data as any)?.name || branch.sourceId;
+      const output = branch.status === 'completed'
+        ? branch.result?.output
+        : missingBranchOutput(branch.status === 'failed' ? 'failed' : 'skipped', branch.result?.error);
+      return { nodeId: branch.sourceId, name, output };
+    });
+
+    const missing = branches.filter(branch => branch.status !== 'completed').length;
+    this.nodeLog(node.id).info(`Merge combining ${combined.length} branches (${strategy})${missing > 0 ? `, ${missing} failed or skipped` : ''}`);
+    return combineBranchOutputs(strategy, combined);
+  }
+
+  private hasTimeoutBranch(nodeId: string): boolean {
+    return this.hasFailureBranch(nodeId, TIMEOUT_HANDLE);
+  }
+
+  private hasFailureBranch(nodeId: string, handle: string): boolean {
+    return (this.edgesBySource.get(nodeId) || []).some(edge => edge.sourceHandle === handle);
+  }
+
+  // Set when a failure was routed to a branch instead of failing the run
+  private hasFailed(nodeId: string, state: typeof WorkflowStateAnnotation.State): boolean {
+    const status = state.nodeResults?.[nodeId]?.status;
+    return status === 'failed' || status === 'timeout';
+  }
+
+  /**
+   * Create router for nodes with a timeout or error branch: a timeout follows
+   * the timeout handle (or the error handle when there is none), a failure
+   * follows the error handle, everything else fans out to the regular edges
+   */
+  private createFailureRouter(nodeId: string, edges: WorkflowEdge[], inGraph: (nodeId: string) => boolean) {
+    const edgesFor = (handle: string) => edges.filter(edge => edge.sourceHandle === handle);
+    const timeoutEdges = edgesFor(TIMEOUT_HANDLE);
+    const errorEdges = edgesFor(ERROR_HANDLE);
+    const defaultEdges = edges.filter(edge => !isFailureHandle(edge.sourceHandle));
+
+    return (state: typeof WorkflowStateAnnotation.State) => {
+      const status = state.nodeResults?.[nodeId]?.status;
+      const taken = status === 'timeout'
+        ? (timeoutEdges.length > 0 ? timeoutEdges : errorEdges)
+        : status === 'failed' ? errorEdges : defaultEdges;
+      const targets = [...taken.map(edge => edge.target), ...this.getSkippedMerges(edges, taken, inGraph)];
+      return targets.length > 0 ? targets : END;
     };
   }
 
+  /**
+   * Merges waiting behind the edges a router didn't take
+   */
+  private getSkippedMerges(edges: WorkflowEdge[], taken: WorkflowEdge[], inGraph: (nodeId: string) => boolean): string[] {
+    const takenTargets = taken.map(edge => edge.target);
+    const skippedTargets = edges.map(edge => edge.target).filter(target => !takenTargets.includes(target));
+    return this.getMergesBehind(skippedTargets, inGraph).filter(mergeId => !takenTargets.includes(mergeId));
+  }
+
+  /**
+   * Path map entries letting a router trigger the merges behind its edges
+   */
+  private buildMergeTriggerPathMap(edges: WorkflowEdge[], inGraph: (nodeId: string) => boolean): Record<string, string> {
+    const pathMap: Record<string, string> = {};
+    for (const mergeId of this.getMergesBehind(edges.map(edge => edge.target), inGraph)) {
+      pathMap[mergeId] = mergeId;
+    }
+    return pathMap;
+  }
+
   private shouldUseParallelRouting(nodeType: string | undefined, edges: WorkflowEdge[]): boolean {
     if (!edges || edges.length <= 1) {
       return false;
@@ -620,7 +1315,7 @@ export class LangGraphExecutor {
     }
 
     const normalized = nodeType.toLowerCase();
-    if (['if-else', 'if / else', 'while', 'user-approval', 'user approval'].includes(normalized)) {
+    if (['if-else', 'if / else', 'switch', 'while', 'user-approval', 'user approval'].includes(normalized)) {
       return false;
     }
 
@@ -662,8 +1357,14 @@ export class LangGraphExecutor {
 
   private buildWhilePathMap(nodeId: string, edges: WorkflowEdge[]) {
     const pathMap: Record<string, string> = {};
+    const loopEdges = edges.filter(edge => edge.sourceHandle !== ERROR_HANDLE);
 
-    for (const edge of edges) {
+    const errorEdge = edges.find(edge => edge.sourceHandle === ERROR_HANDLE);
+    if (errorEdge) {
+      pathMap[ERROR_HANDLE] = errorEdge.target;
+    }
+
+    for (const edge of loopEdges) {
       const handle = (edge.sourceHandle || edge.label || '').toLowerCase();
 
       if (['continue', 'true', 'yes', 'loop', 'next'].includes(handle)) {
@@ -677,12 +1378,12 @@ export class LangGraphExecutor {
       }
     }
 
-    if (!pathMap['continue'] && edges[0]) {
-      pathMap['continue'] = edges[0].target;
+    if (!pathMap['continue'] && loopEdges[0]) {
+      pathMap['continue'] = loopEdges[0].target;
     }
 
     if (!pathMap['break']) {
-      console.warn(`While loop ${nodeId}: no explicit break edge found, defaulting to END`);
+      this.nodeLog(nodeId).warn('While loop has no explicit break edge, defaulting to END');
       pathMap['break'] = END as unknown as string;
     }
 
@@ -696,9 +1397,10 @@ export class LangGraphExecutor {
     return async (state: typeof WorkflowStateAnnotation.State) => {
       const node = this.workflow.nodes.find(n => n.id === nodeId);
       if (!node) {
-        console.warn(`While loop router: node ${nodeId} not found, breaking`);
+        this.log.warn(`While loop router: node ${nodeId} not found, breaking`);
         return 'break';
       }
+      if (this.hasFailed(nodeId, state)) return ERROR_HANDLE;
 
       const iterationKey = `${nodeId}__iterationCount`;
       const result = state.nodeResults?.[nodeId];
@@ -707,7 +1409,8 @@ export class LangGraphExecutor {
       const maxIterations = this.parseMaxIterations((node.data as any)?.maxIterations);
       const currentIteration = Number(state.variables?.[iterationKey] || 0);
 
-      console.log(`While loop router for ${nodeId}:`, {
+      const log = this.nodeLog(nodeId);
+      log.debug('While loop router', {
         currentIteration,
         maxIterations,
         loopOutputCondition: loopOutput?.condition,
@@ -716,29 +1419,29 @@ export class LangGraphExecutor {
 
       // Check if loop already decided to break
       if (loopOutput?.condition === false || loopOutput?.stoppedReason === 'condition_false') {
-        console.log(`While loop ${nodeId}: loop output says break (condition=false)`);
+        log.debug('While loop breaking: condition is false');
         return 'break';
       }
 
       // Check for max_iterations reason
       if (loopOutput?.stoppedReason === 'max_iterations') {
-        console.log(`While loop ${nodeId}: loop output says break (max_iterations reached)`);
+        log.debug('While loop breaking: max iterations reached');
         return 'break';
       }
 
       if (currentIteration >= maxIterations) {
-        console.log(`While loop ${nodeId}: iteration count (${currentIteration}) >= max (${maxIterations}), breaking`);
+        log.debug(`While loop breaking: iteration count (${currentIteration}) >= max (${maxIterations})`);
         return 'break';
       }
 
       const shouldContinue = this.getWhileCondition(node, state, currentIteration, loopOutput);
 
       if (shouldContinue) {
-        console.log(`While loop ${nodeId}: condition true, continuing`);
+        log.debug('While loop condition true, continuing');
         return 'continue';
       }
 
-      console.log(`While loop ${nodeId}: condition false, breaking`);
+      log.debug('While loop condition false, breaking');
       return 'break';
     };
   }
@@ -759,24 +1462,11 @@ export class LangGraphExecutor {
     const conditionExpr = (node.data as any)?.whileCondition || (node.data as any)?.condition || 'false';
 
     try {
-      const evalFunction = new Function(
-        'input',
-        'state',
-        'lastOutput',
-        'iteration',
-        `return ${conditionExpr}`
-      );
-
       return Boolean(
-        evalFunction(
-          state.variables.input,
-          state,
-          state.variables.lastOutput,
-          currentIteration
-        )
+        evaluateWorkflowExpression(conditionExpr, state, { iteration: currentIteration })
       );
     } catch (error) {
-      console.error(`ERROR: While loop ${node.id}: condition evaluation error`, error);
+      this.nodeLog(node.id).error('While loop condition evaluation error', error);
       return false;
     }
   }
@@ -793,7 +1483,7 @@ export class LangGraphExecutor {
 
     // Enforce absolute maximum
     if (parsed > ABSOLUTE_MAX) {
-      console.warn(`While loop max iterations ${parsed} exceeds limit, capping at ${ABSOLUTE_MAX}`);
+      this.log.warn(`While loop max iterations ${parsed} exceeds limit, capping at ${ABSOLUTE_MAX}`);
       return ABSOLUTE_MAX;
     }
 
@@ -814,7 +1504,7 @@ export class LangGraphExecutor {
 
     // Add absolute safety check
     if (previousIteration > ABSOLUTE_MAX) {
-      console.error(`While loop ${node.id} exceeded absolute limit of ${ABSOLUTE_MAX}`);
+      this.nodeLog(node.id).error(`While loop exceeded absolute limit of ${ABSOLUTE_MAX}`);
       return {
         condition: false,
         iteration: previousIteration,
@@ -839,21 +1529,8 @@ export class LangGraphExecutor {
 
     try {
       const evaluationIteration = previousIteration + 1;
-      const evalFunction = new Function(
-        'input',
-        'state',
-        'lastOutput',
-        'iteration',
-        `return ${conditionExpr}`
-      );
-
       const shouldContinue = Boolean(
-        evalFunction(
-          state.variables.input,
-          langGraphState,
-          state.variables.lastOutput,
-          evaluationIteration
-        )
+        evaluateWorkflowExpression(conditionExpr, langGraphState, { iteration: evaluationIteration })
       );
 
       const nextIteration = shouldContinue ? evaluationIteration : previousIteration;
@@ -864,7 +1541,7 @@ export class LangGraphExecutor {
       const accumulatedResults = langGraphState.variables[loopResultsKey] || [];
 
       if (!shouldContinue) {
-        console.log(`Loop breaking, passing ${accumulatedResults.length} results to next node`);
+        this.nodeLog(node.id).info(`Loop breaking, passing ${accumulatedResults.length} results to next node`);
       }
 
       return {
@@ -882,16 +1559,205 @@ export class LangGraphExecutor {
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`ERROR: While loop ${node.id}: condition evaluation failed`, error);
+      this.nodeLog(node.id).error('While loop condition evaluation failed', error);
       throw new Error(`While loop ${node.id} condition evaluation failed: ${message}`);
     }
   }
 
+  /**
+   * Run the for-each body once per item, at most forEachConcurrency items at a
+   * time, and return the per-item results in item order
+   */
+  private async executeForEachNode(
+    node: WorkflowNode,
+    state: typeof WorkflowStateAnnotation.State,
+    signal?: AbortSignal
+  ): Promise<ForEachItemResult[]> {
+    const data: any = node.data || {};
+    const itemsExpr = data.forEachItems || 'lastOutput';
+
+    let value: unknown;
+    try {
+      value = evaluateWorkflowExpression(itemsExpr, state);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new ValidationError(`For-each items expression failed: ${message}`, node.id);
+    }
+
+    const items = toForEachItems(value, node.id);
+    if (items.length === 0) {
+      return [];
+    }
+
+    let graphs = this.forEachGraphs.get(node.id);
+    if (!graphs) {
+      const body = this.buildForEachBodyGraph(node.id);
+      graphs = { body, map: this.buildForEachMapGraph(body) };
+      this.forEachGraphs.set(node.id, graphs);
+    }
+
+    const concurrency = parseForEachConcurrency(data.forEachConcurrency);
+    this.nodeLog(node.id).info(`For-each over ${items.length} items, concurrency ${concurrency}`);
+
+    const finalState = await graphs.map.invoke(
+      { items, parent: state },
+      { signal, maxConcurrency: concurrency }
+    );
+
+    return [...(finalState.results as ForEachItemResult[])].sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Fan-out graph: one Send per item to a worker that runs the body graph.
+   * maxConcurrency on invoke bounds how many workers run at once.
+   */
+  private buildForEachMapGraph(bodyGraph: any) {
+    const builder = new StateGraph(ForEachMapAnnotation)
+      .addNode('item', async (task: any, config?: LangGraphRunnableConfig) => ({
+        results: [await this.runForEachItem(bodyGraph, task, config?.signal)],
+      }))
+      .addConditionalEdges(START, (state: typeof ForEachMapAnnotation.State) =>
+        state.items.map((item, index) => new Send('item', { index, item, parent: state.parent }))
+      )
+      .addEdge('item', END);
+
+    // No checkpointer: items are not resumable and must not inherit the parent run's
+    return builder.compile({ checkpointer: false });
+  }
+
+  /**
+   * Run the body for one item. Failures are recorded on the item instead of
+   * failing the for-each node; cancellation and run timeouts still stop everything.
+   */
+  private async runForEachItem(
+    bodyGraph: any,
+    task: { index: number; item: any; parent: typeof WorkflowStateAnnotation.State },
+    signal?: AbortSignal
+  ): Promise<ForEachItemResult> {
+    const { index, item, parent } = task;
+
+    try {
+      const finalState = await bodyGraph.invoke(
+        {
+          variables: { ...parent.variables, item, index, lastOutput: item },
+          chatHistory: parent.chatHistory,
+          currentNodeId: '',
+          nodeResults: {},
+          pendingAuth: null,
+          testMode: parent.testMode,
+        },
+        {
+          signal,
+          recursionLimit: 100, // Support up to 100 graph steps (default: 25)
+        }
+      );
+
+      return { index, item, status: 'completed', output: finalState.variables?.lastOutput };
+    } catch (error) {
+      if (isCancellation(error, signal)) {
+        throw error;
+      }
+
+      return {
+        index,
+        item,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorCode: classifyError(error),
+      };
+    }
+  }
+
+  /**
+   * Compile a for-each body into its own graph, entered through the item handle.
+   * Edges looping back to the for-each node end the item's run. Nested for-each
+   * nodes run their own bodies, so those nodes are left out here.
+   */
+  private buildForEachBodyGraph(forEachId: string) {
+    const body = this.forEachBodies.get(forEachId) || new Set<string>();
+    const nestedBodyNodeIds = new Set<string>();
+    for (const id of Array.from(body)) {
+      for (const nestedId of Array.from(this.forEachBodies.get(id) || [])) {
+        nestedBodyNodeIds.add(nestedId);
+      }
+    }
+    const nodeIds = Array.from(body).filter(id => !nestedBodyNodeIds.has(id));
+
+    const builder = new StateGraph(WorkflowStateAnnotation);
+    const inGraph = (nodeId: string) => body.has(nodeId) && !nestedBodyNodeIds.has(nodeId);
+    const isRoutable = (edge: WorkflowEdge) => edge.target === forEachId || body.has(edge.target);
+    const toBodyTarget = (edge: WorkflowEdge): WorkflowEdge =>
+      edge.target === forEachId ? { ...edge, target: END } : edge;
+
+    for (const id of nodeIds) {
+      const node = this.workflow.nodes.find(n => n.id === id)!;
+      const nodeType = (node.data as any)?.nodeType || node.type;
+      if (nodeType === 'merge') {
+        // Looping back to the for-each node just ends the item's run
+        const targets = this.getRoutableTargets(id).filter(target => target !== forEachId);
+        const errorTargets = this.getRoutableTargets(id, ERROR_HANDLE).filter(target => target !== forEachId);
+        const merge = this.createMergeNodeExecutor(node, targets, errorTargets, inGraph);
+        builder.addNode(id, merge.executor, { ends: merge.ends });
+      } else {
+        builder.addNode(id, this.createNodeExecutor(node));
+      }
+    }
+
+    for (const edge of this.edgesBySource.get(forEachId) || []) {
+      if (edge.sourceHandle === FOR_EACH_ITEM_HANDLE && body.has(edge.target)) {
+        builder.addEdge(START, edge.target as any);
+      }
+    }
+
+    for (const id of nodeIds) {
+      const node = this.workflow.nodes.find(n => n.id === id);
+      const nodeType = (node?.data as any)?.nodeType || node?.type;
+      const edges = (this.edgesBySource.get(id) || [])
+        .filter(edge => nodeType !== 'for-each' || edge.sourceHandle !== FOR_EACH_ITEM_HANDLE)
+        .filter(isRoutable)
+        .map(toBodyTarget);
+
+      if (nodeType === 'merge') {
+        continue;
+      } else if (edges.length === 0) {
+        builder.addEdge(id as any, END);
+      } else if (nodeType === 'while') {
+        builder.addConditionalEdges(id as any, this.createWhileLoopRouter(id), this.buildWhilePathMap(id, edges) as any);
+      } else if (nodeType === 'if-else' || nodeType === 'if / else') {
+        const pathMap: Record<string, string> = this.buildMergeTriggerPathMap(edges, inGraph);
+        for (const edge of edges) {
+          pathMap[edge.sourceHandle || 'default'] = edge.target;
+        }
+        builder.addConditionalEdges(id as any, this.createConditionalRouter(id, edges, inGraph), pathMap as any);
+      } else if (nodeType === 'switch') {
+        const pathMap: Record<string, string> = { [END]: END, ...this.buildMergeTriggerPathMap(edges, inGraph) };
+        for (const edge of edges) {
+          pathMap[edge.target] = edge.target;
+        }
+        builder.addConditionalEdges(id as any, this.createSwitchRouter(id, edges, inGraph), pathMap as any);
+      } else if (edges.some(edge => isFailureHandle(edge.sourceHandle))) {
+        const pathMap: Record<string, string> = { [END]: END, ...this.buildMergeTriggerPathMap(edges, inGraph) };
+        for (const edge of edges) {
+          pathMap[edge.target] = edge.target;
+        }
+        builder.addConditionalEdges(id as any, this.createFailureRouter(id, edges, inGraph), pathMap as any);
+      } else {
+        for (const edge of edges) {
+          builder.addEdge(id as any, edge.target as any);
+        }
+      }
+    }
+
+    // No checkpointer: approval and authorization pauses can't happen inside a body
+    return builder.compile({ checkpointer: false });
+  }
+
   private async handleArcadePendingAuth(
     node: WorkflowNode,
     result: NodeExecutionResult,
     pending: ArcadePendingResponse,
     state: WorkflowState,
+    signal?: AbortSignal,
   ) {
     const message = pending.message ?? `Authorization required for ${pending.toolName}`;
     const pendingAuth: WorkflowPendingAuth = {
@@ -952,7 +1818,8 @@ export class LangGraphExecutor {
     delete result.completedAt;
     this.onNodeUpdate?.(node.id, result);
 
-    return await executeArcadeNode(node, state, this.apiKeys?.arcade);
+    // The resumed call stays cancellable and under the node's timeout
+    return await executeArcadeNode(node, state, this.getApiKeys()?.arcade, signal, this.cassette);
   }
 
   private async handlePendingApproval(
@@ -1005,7 +1872,7 @@ export class LangGraphExecutor {
   /**
    * Execute individual node using existing executors
    */
-  private async executeNode(node: WorkflowNode, state: WorkflowState): Promise<any> {
+  private async executeNode(node: WorkflowNode, state: WorkflowState, signal?: AbortSignal): Promise<any> {
     const nodeType = (node.data as any).nodeType || node.type;
 
     switch (nodeType) {
@@ -1018,19 +1885,20 @@ export class LangGraphExecutor {
         };
 
       case 'agent':
-        return await executeAgentNode(node, state, this.apiKeys);
+        return await executeAgentNode(node, state, this.getApiKeys(), signal, this.cassette, this.agentStreamHandlers(node.id));
 
       case 'extract':
-        return await executeExtractNode(node, state, this.apiKeys);
+        return await executeExtractNode(node, state, this.getApiKeys(), signal, this.cassette);
 
       case 'arcade':
-        return await executeArcadeNode(node, state, this.apiKeys?.arcade);
+        return await executeArcadeNode(node, state, this.getApiKeys()?.arcade, signal, this.cassette);
 
       case 'mcp':
-        return await executeMCPNode(node, state, this.apiKeys?.firecrawl);
+        return await executeMCPNode(node, state, this.getApiKeys()?.firecrawl, signal, this.cassette);
 
       case 'if-else':
       case 'if / else':
+      case 'switch':
       case 'while':
       case 'user-approval':
       case 'user approval':
@@ -1041,7 +1909,7 @@ export class LangGraphExecutor {
       case 'data-transform':
       case 'set-state':
       case 'set state':
-        return await executeDataNode(node, state);
+        return await executeDataNode(node, state, signal);
 
       case 'file-search':
       case 'file search':
@@ -1051,7 +1919,7 @@ export class LangGraphExecutor {
 
       case 'http':
       case 'http-request':
-        return await executeHTTPNode(node, state);
+        return await executeHTTPNode(node, state, signal, this.cassette);
 
       case 'note':
         return { message: 'Note node (visual only)' };
@@ -1060,20 +1928,21 @@ export class LangGraphExecutor {
         return { message: 'Workflow completed' };
 
       default:
-        return await executeAgentNode(node, state);
+        return await executeAgentNode(node, state, undefined, signal, this.cassette);
     }
   }
 
   /**
    * Execute workflow with streaming support
    */
-  async executeStream(input: any, config?: { threadId?: string; executionId?: string }) {
+  async executeStream(input: any, config?: { threadId?: string; executionId?: string; signal?: AbortSignal; testMode?: boolean; cassette?: Cassette }) {
     const threadId = config?.threadId || `thread_${Date.now()}`;
     this.activeThreadId = threadId;
     if (config?.executionId) {
       this.activeExecutionId = config.executionId;
     }
     this.pendingAuth = null;
+    this.cassette = config?.cassette;
 
     const initialState = {
       variables: {
@@ -1084,40 +1953,250 @@ export class LangGraphExecutor {
       currentNodeId: '',
       nodeResults: {},
       pendingAuth: null,
+      testMode: config?.testMode ?? false,
     };
 
     this.lastStreamState = initialState;
 
-    const rawStream = await this.graph.stream(initialState, {
-      configurable: { thread_id: threadId },
-      streamMode: "values" as const,
-      recursionLimit: 100, // Support up to 100 graph steps (default: 25)
-    });
+    const runSpan = this.startRunSpan('run', { 'workflow.test_mode': config?.testMode });
+    const deadline = this.createWorkflowDeadline(config?.signal);
+    try {
+      const rawStream = await this.graph.stream(initialState, {
+        configurable: { thread_id: threadId },
+        streamMode: "values" as const,
+        recursionLimit: 100, // Support up to 100 graph steps (default: 25)
+        signal: deadline.signal,
+      });
 
-    return this.wrapStreamWithInterruptHandling(rawStream, initialState);
+      return this.wrapStreamWithInterruptHandling(rawStream, initialState, deadline.signal, deadline.clear);
+    } catch (error) {
+      deadline.clear();
+      this.endRunSpan(runSpan, null, error);
+      throw error;
+    }
   }
 
-  async resumeFromAuth(threadId: string, resumeValue?: any, options?: { executionId?: string }) {
+  /**
+   * Run this workflow from inside a parent's sub-workflow node. Must be called
+   * within the parent's node so the graph runs as its subgraph.
+   */
+  async runAsSubWorkflow(input: any, options: { threadId?: string; executionId?: string; testMode?: boolean; signal?: AbortSignal; cassette?: Cassette }) {
+    this.activeThreadId = options.threadId;
+    this.activeExecutionId = options.executionId;
+    this.pendingAuth = null;
+    this.cassette = options.cassette;
+
+    // Started inside the parent's node, so the run nests under that node's span
+    const runSpan = this.startRunSpan('sub_workflow', { 'workflow.test_mode': options.testMode });
+    try {
+      const finalState = await this.graph.invoke({
+        variables: {
+          input,
+          lastOutput: typeof input === 'string' ? input : '',
+        },
+        chatHistory: [],
+        currentNodeId: '',
+        nodeResults: {},
+        pendingAuth: null,
+        testMode: options.testMode ?? false,
+      }, {
+        signal: options.signal,
+        recursionLimit: 100,
+      });
+      this.endRunSpan(runSpan, finalState);
+      return finalState;
+    } catch (error) {
+      if (isGraphInterrupt(error)) {
+        this.endRunSpan(runSpan, { pendingAuth: true });
+      } else {
+        this.endRunSpan(runSpan, null, error);
+      }
+      throw error;
+    }
+  }
+
+  async resumeFromAuth(threadId: string, resumeValue?: any, options?: { executionId?: string; signal?: AbortSignal }) {
     this.activeThreadId = threadId;
     if (options?.executionId) {
       this.activeExecutionId = options.executionId;
     }
 
+    // This executor may not be the one that paused the thread (restart or
+    // another instance), so seed the fallback from the persisted checkpoint
+    let fallback = this.lastStreamState;
+    if (!fallback) {
+      const snapshot = await this.graph.getState({ configurable: { thread_id: threadId } });
+      fallback = snapshot?.values && Object.keys(snapshot.values).length > 0
+        ? snapshot.values
+        : {
+            variables: {},
+            nodeResults: {},
+            pendingAuth: null,
+            currentNodeId: '',
+          };
+    }
+
     const command = new Command({ resume: resumeValue });
-    const rawStream = await this.graph.stream(command, {
-      configurable: { thread_id: threadId },
-      streamMode: "values" as const,
-      recursionLimit: 100, // Support up to 100 graph steps (default: 25)
-    });
+    const runSpan = this.startRunSpan('resume');
+    const deadline = this.createWorkflowDeadline(options?.signal);
+    try {
+      const rawStream = await this.graph.stream(command, {
+        configurable: { thread_id: threadId },
+        streamMode: "values" as const,
+        recursionLimit: 100, // Support up to 100 graph steps (default: 25)
+        signal: deadline.signal,
+      });
 
-    const fallback = this.lastStreamState ?? {
-      variables: {},
-      nodeResults: {},
-      pendingAuth: null,
+      return this.wrapStreamWithInterruptHandling(rawStream, fallback, deadline.signal, deadline.clear);
+    } catch (error) {
+      deadline.clear();
+      this.endRunSpan(runSpan, null, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-run a node and everything downstream of it, reusing the outputs its
+   * upstream nodes produced in a previous run (thread) instead of executing them again
+   */
+  async executeFromNode(
+    nodeId: string,
+    options: { sourceThreadId: string; threadId: string; executionId?: string; signal?: AbortSignal; testMode?: boolean; cassette?: Cassette }
+  ) {
+    if (!this.workflow.nodes.some(n => n.id === nodeId)) {
+      throw new ValidationError(`Node ${nodeId} not found in workflow`, nodeId);
+    }
+    for (const [forEachId, body] of Array.from(this.forEachBodies.entries())) {
+      if (body.has(nodeId)) {
+        throw new ValidationError(`Node ${nodeId} runs inside for-each ${forEachId}; run from the for-each node instead`, nodeId);
+      }
+    }
+
+    const snapshot = await this.graph.getState({ configurable: { thread_id: options.sourceThreadId } });
+    const previous = snapshot?.values;
+    if (!previous?.nodeResults || Object.keys(previous.nodeResults).length === 0) {
+      throw new ValidationError(`No previous run found for thread ${options.sourceThreadId}`, nodeId);
+    }
+
+    const seedState = {
+      ...this.buildSeedState(nodeId, previous),
+      testMode: options.testMode ?? previous.testMode ?? false,
+    };
+
+    this.activeThreadId = options.threadId;
+    if (options.executionId) {
+      this.activeExecutionId = options.executionId;
+    }
+    this.pendingAuth = null;
+    this.cassette = options.cassette;
+    this.lastStreamState = seedState;
+
+    const runSpan = this.startRunSpan('run_from_node', { 'workflow.from_node_id': nodeId, 'workflow.test_mode': seedState.testMode });
+    const deadline = this.createWorkflowDeadline(options.signal);
+    try {
+      // Jump straight to the node with upstream state already in place
+      const rawStream = await this.graph.stream(new Command({ goto: nodeId, update: seedState }), {
+        configurable: { thread_id: options.threadId },
+        streamMode: "values" as const,
+        recursionLimit: 100, // Support up to 100 graph steps (default: 25)
+        signal: deadline.signal,
+      });
+
+      return this.wrapStreamWithInterruptHandling(rawStream, seedState, deadline.signal, deadline.clear);
+    } catch (error) {
+      deadline.clear();
+      this.endRunSpan(runSpan, null, error);
+      throw error;
+    }
+  }
+
+  /**
+   * State a node would have seen in the previous run: completed upstream results
+   * are kept, anything the node or its descendants produced is dropped
+   */
+  private buildSeedState(nodeId: string, previous: typeof WorkflowStateAnnotation.State) {
+    const downstream = this.collectReachable(nodeId, edge => edge.source, edge => edge.target);
+    const upstream = this.collectReachable(nodeId, edge => edge.target, edge => edge.source);
+
+    const nodeResults: Record<string, NodeExecutionResult> = {};
+    for (const [id, result] of Object.entries(previous.nodeResults || {})) {
+      if (upstream.has(id) && !downstream.has(id) && result?.status === 'completed') {
+        nodeResults[id] = result;
+      }
+    }
+
+    const targetNode = this.workflow.nodes.find(n => n.id === nodeId);
+    const targetType = (targetNode?.data as any)?.nodeType || targetNode?.type;
+    if (targetType !== 'start' && Object.keys(nodeResults).length === 0) {
+      throw new ValidationError('No completed upstream nodes in the previous run to start from', nodeId);
+    }
+
+    const variables: Record<string, any> = { ...(previous.variables || {}) };
+    for (const id of Array.from(downstream)) {
+      const node = this.workflow.nodes.find(n => n.id === id);
+      const nodeKey = (node?.data as any)?.nodeName || (node?.data as any)?.name || id;
+      delete variables[id];
+      delete variables[nodeKey];
+      delete variables[`${id}__iterationCount`];
+    }
+
+    // lastOutput is whatever the most recent direct predecessor produced
+    const predecessor = this.workflow.edges
+      .filter(edge => edge.target === nodeId && nodeResults[edge.source])
+      .map(edge => nodeResults[edge.source])
+      .sort((a, b) => String(b.completedAt || '').localeCompare(String(a.completedAt || '')))[0];
+    if (predecessor) {
+      variables.lastOutput = predecessor.output;
+    }
+
+    return {
+      variables,
+      chatHistory: previous.chatHistory || [],
       currentNodeId: '',
+      nodeResults,
+      pendingAuth: null,
+      loopResults: previous.loopResults || [],
     };
+  }
 
-    return this.wrapStreamWithInterruptHandling(rawStream, fallback);
+  private collectReachable(
+    nodeId: string,
+    from: (edge: WorkflowEdge) => string,
+    to: (edge: WorkflowEdge) => string
+  ): Set<string> {
+    const reachable = new Set<string>([nodeId]);
+    const queue = [nodeId];
+
+    while (queue.length > 0) {
+      const currentId = queue.shift()!;
+      for (const edge of this.workflow.edges) {
+        if (from(edge) === currentId && !reachable.has(to(edge))) {
+          reachable.add(to(edge));
+          queue.push(to(edge));
+        }
+      }
+    }
+
+    return reachable;
+  }
+
+  /**
+   * Provider keys for executors; a replayed run doesn't need real ones
+   */
+  private getApiKeys() {
+    return withReplayKeys(this.apiKeys, this.cassette);
+  }
+
+  /**
+   * Workflow-level deadline from workflow settings. Time spent paused for
+   * approval or authorization doesn't count; each run segment gets the full limit.
+   */
+  private createWorkflowDeadline(signal?: AbortSignal) {
+    const timeoutMs = parseTimeoutMinutes(this.workflow.settings?.timeoutMinutes);
+    return createDeadline(signal, timeoutMs, () => new TimeoutError(
+      `Workflow timed out after ${formatTimeout(timeoutMs!)}`,
+      timeoutMs!
+    ));
   }
 
   /**
@@ -1151,8 +2230,14 @@ export class LangGraphExecutor {
     };
   }
 
-  private wrapStreamWithInterruptHandling(rawStream: AsyncIterable<any>, fallbackState: any) {
+  private wrapStreamWithInterruptHandling(
+    rawStream: AsyncIterable<any>,
+    fallbackState: any,
+    signal?: AbortSignal,
+    onDone?: () => void
+  ) {
     const self = this;
+    const runSpan = this.runSpan;
 
     return (async function* () {
       let latestState = fallbackState;
@@ -1184,16 +2269,33 @@ export class LangGraphExecutor {
           yield enrichedChunk;
         }
       } catch (streamError) {
-        console.error('ERROR: Stream iteration error in wrapStreamWithInterruptHandling:', streamError);
+        if (isCancellation(streamError, signal)) {
+          const abortError = toAbortError(signal?.reason);
+          const abortedState = {
+            ...(latestState ?? {}),
+            error: abortError.message,
+            errorCode: abortError.code,
+            status: abortError instanceof TimeoutError ? 'timeout' : 'cancelled'
+          };
+          self.lastStreamState = abortedState;
+          yield abortedState;
+          return;
+        }
+
+        self.log.error('Workflow stream failed', streamError);
         // Yield error state instead of throwing
         const errorState = {
           ...(latestState ?? {}),
           error: streamError instanceof Error ? streamError.message : 'Stream error',
+          errorCode: classifyError(streamError),
           status: 'failed'
         };
         self.lastStreamState = errorState;
         yield errorState;
         return;
+      } finally {
+        onDone?.();
+        self.endRunSpan(runSpan, self.lastStreamState);
       }
 
       self.pendingAuth = null;
@@ -1235,38 +2337,135 @@ export class LangGraphExecutor {
       const graphDrawable = this.graph.getGraph();
       return graphDrawable.drawMermaid();
     } catch (error) {
-      console.error('Failed to generate Mermaid diagram:', error);
+      this.log.error('Failed to generate Mermaid diagram', error);
       return '';
     }
   }
 
   /**
-   * Get state checkpoints for a thread
+   * Get state checkpoints for a thread, oldest first
    */
-  async getCheckpoints(threadId: string) {
+  async getCheckpoints(threadId: string): Promise<WorkflowCheckpoint[]> {
     const config = { configurable: { thread_id: threadId } };
-    const checkpoints: any[] = [];
+    const checkpoints: WorkflowCheckpoint[] = [];
+
+    for await (const snapshot of this.graph.getStateHistory(config)) {
+      let values = snapshot.values ?? {};
+      if (snapshot.metadata?.source === 'input') {
+        // The input step's state is still its pending input
+        const tuple = await this.checkpointer.getTuple(snapshot.config);
+        values = { ...values, ...(tuple?.checkpoint.channel_values as any)?.[START] };
+      }
+      checkpoints.push({
+        checkpointId: snapshot.config?.configurable?.checkpoint_id,
+        parentCheckpointId: snapshot.parentConfig?.configurable?.checkpoint_id,
+        step: snapshot.metadata?.step ?? -1,
+        source: snapshot.metadata?.source ?? 'loop',
+        createdAt: snapshot.createdAt,
+        writes: [],
+        next: snapshot.next ?? [],
+        state: {
+          variables: values.variables ?? {},
+          chatHistory: values.chatHistory ?? [],
+          currentNodeId: values.currentNodeId ?? '',
+          nodeResults: values.nodeResults ?? {},
+          pendingAuth: values.pendingAuth ?? null,
+          loopResults: values.loopResults ?? [],
+        },
+      });
+    }
 
-    for await (const checkpoint of this.checkpointer.list(config)) {
-      checkpoints.push(checkpoint);
+    // A checkpoint holds the output of the nodes its parent scheduled next
+    const nextById = new Map(checkpoints.map(checkpoint => [checkpoint.checkpointId, checkpoint.next]));
+    for (const checkpoint of checkpoints) {
+      checkpoint.writes = (checkpoint.parentCheckpointId && nextById.get(checkpoint.parentCheckpointId)) || [];
     }
 
-    return checkpoints;
+    // History comes back newest first
+    return checkpoints.reverse();
   }
 
   /**
-   * Resume from a specific checkpoint
+   * Fork a new run from a past checkpoint.
+   * The checkpoint is copied into a fresh thread so the original run's history
+   * stays intact; variable edits are applied on top before execution continues.
+   * Test mode is inherited from the checkpoint unless `testMode` is given.
    */
-  async resumeFromCheckpoint(threadId: string, checkpointId: string, input: any) {
-    const config = {
-      configurable: {
-        thread_id: threadId,
-        checkpoint_id: checkpointId,
-      },
-      recursionLimit: 100, // Support up to 100 graph steps (default: 25)
+  async forkFromCheckpoint(
+    sourceThreadId: string,
+    checkpointId: string,
+    options: { threadId: string; executionId?: string; variables?: Record<string, any>; signal?: AbortSignal; testMode?: boolean; cassette?: Cassette }
+  ) {
+    const tuple = await this.checkpointer.getTuple({
+      configurable: { thread_id: sourceThreadId, checkpoint_ns: '', checkpoint_id: checkpointId },
+    });
+    if (!tuple) {
+      throw new ValidationError(`Checkpoint ${checkpointId} not found in thread ${sourceThreadId}`);
+    }
+
+    const { threadId } = options;
+    this.activeThreadId = threadId;
+    if (options.executionId) {
+      this.activeExecutionId = options.executionId;
+    }
+    this.pendingAuth = null;
+    this.cassette = options.cassette;
+
+    await this.checkpointer.put(
+      { configurable: { thread_id: threadId, checkpoint_ns: '' } },
+      copyCheckpoint(tuple.checkpoint),
+      { ...tuple.metadata, source: 'fork', step: tuple.metadata?.step ?? -1, parents: {} },
+      tuple.checkpoint.channel_versions
+    );
+
+    let edits: Record<string, any> = {
+      ...(options.variables && Object.keys(options.variables).length > 0 && { variables: options.variables }),
+      ...(options.testMode !== undefined && { testMode: options.testMode }),
     };
 
-    return await this.graph.invoke(input, config);
+    // The run's input checkpoint (step -1) hasn't applied its input yet, and an
+    // edit would replace it, so the edits go over that pending input instead
+    const pendingInput = tuple.metadata?.source === 'input' ? (tuple.checkpoint.channel_values as any)?.[START] : undefined;
+    if (pendingInput && Object.keys(edits).length > 0) {
+      edits = {
+        ...pendingInput,
+        ...edits,
+        variables: { ...pendingInput.variables, ...edits.variables },
+      };
+    }
+
+    if (Object.keys(edits).length > 0) {
+      // LangGraph attributes the edit to the node that produced the checkpoint,
+      // so the same nodes still run next
+      await this.graph.updateState(
+        { configurable: { thread_id: threadId } },
+        edits
+      );
+    }
+
+    const snapshot = await this.graph.getState({ configurable: { thread_id: threadId } });
+    this.lastStreamState = snapshot?.values ?? null;
+
+    const runSpan = this.startRunSpan('fork', {
+      'workflow.source_thread_id': sourceThreadId,
+      'workflow.checkpoint_id': checkpointId,
+      'workflow.test_mode': this.lastStreamState?.testMode,
+    });
+    const deadline = this.createWorkflowDeadline(options.signal);
+    try {
+      const rawStream = await this.graph.stream(null, {
+        configurable: { thread_id: threadId },
+        streamMode: "values" as const,
+        recursionLimit: 100, // Support up to 100 graph steps (default: 25)
+        signal: deadline.signal,
+      });
+
+      return this.wrapStreamWithInterruptHandling(rawStream, this.lastStreamState, deadline.signal, deadline.clear);
+    } catch (error) {
+      deadline.clear();
+      this.endRunSpan(runSpan, null, error);
+      throw error;
+    }
   }
 }
 
@@ -0,0 +1,147 @@
+import 'server-only';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { inspect } from 'node:util';
+import type { WorkflowLogEntry, WorkflowLogLevel } from './types';
+import { redactSecrets, redactText, toSecretList } from './redaction';
+
+/**
+ * Workflow Logger
+ * Leveled, structured logging for workflow runs. Every entry is redacted
+ * before it is written: values of secret-looking environment variables, the
+ * run's own API keys, credential fields and key-shaped strings never reach the
+ * console or the per-execution log stream.
+ *
+ * LOG_LEVEL sets the threshold (debug, info, warn, error; default info) and
+ * LOG_FORMAT picks one JSON object per line ("json", the production default)
+ * or readable lines ("pretty").
+ */
+
+const LEVELS: Record<WorkflowLogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Node outputs can be whole scraped pages; keep log entries readable
+const MAX_STRING_LENGTH = 2000;
+
+// Environment variables whose values are scrubbed from every entry
+const SECRET_ENV_NAME = /(KEY|TOKEN|SECRET|PASSWORD)$/i;
+
+export interface LogContext {
+  workflowId?: string;
+  executionId?: string;
+  nodeId?: string;
+}
+
+export interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, data?: unknown): void;
+  child(context: LogContext): Logger;
+}
+
+export interface LoggerOptions {
+  context?: LogContext;
+  secrets?: Array<string | undefined | null>; // e.g. the user's API keys for this run
+  onLog?: (entry: WorkflowLogEntry) => void; // per-execution log stream
+  level?: WorkflowLogLevel;
+}
+
+let envSecrets: string[] | undefined;
+
+function getEnvSecrets(): string[] {
+  envSecrets ??= toSecretList(
+    Object.entries(process.env)
+      .filter(([name]) => SECRET_ENV_NAME.test(name))
+      .map(([, value]) => value)
+  );
+  return envSecrets;
+}
+
+export function getLogLevel(): WorkflowLogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  return level && level in LEVELS ? (level as WorkflowLogLevel) : 'info';
+}
+
+function getLogFormat(): 'json' | 'pretty' {
+  const format = process.env.LOG_FORMAT?.toLowerCase();
+  if (format === 'json' || format === 'pretty') return format;
+  return process.env.NODE_ENV === 'production' ? 'json' : 'pretty';
+}
+
+function write(entry: WorkflowLogEntry) {
+  const out = entry.level === 'error' ? console.error : entry.level === 'warn' ? console.warn : console.log;
+
+  if (getLogFormat() === 'json') {
+    out(JSON.stringify(entry));
+    return;
+  }
+
+  const scope = entry.nodeId ? ` [${entry.nodeId}]` : '';
+  const line = `${entry.timestamp} ${entry.level.toUpperCase().padEnd(5)}${scope} ${entry.message}`;
+  if (entry.data === undefined) {
+    out(line);
+  } else {
+    out(line, inspect(entry.data, { depth: 6, breakLength: 120 }));
+  }
+}
+
+/**
+ * Create a logger. Children share the parent's secrets, threshold and stream
+ * and add to its context (workflow, execution, node).
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const secrets = toSecretList([...getEnvSecrets(), ...(options.secrets || [])]);
+  const threshold = LEVELS[options.level ?? getLogLevel()];
+  const context = Object.fromEntries(
+    Object.entries(options.context || {}).filter(([, value]) => value !== undefined)
+  ) as LogContext;
+
+  const log = (level: WorkflowLogLevel, message: string, data?: unknown) => {
+    if (LEVELS[level] < threshold) return;
+
+    const entry: WorkflowLogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message: redactText(message, secrets),
+      ...context,
+    };
+    if (data !== undefined) {
+      entry.data = redactSecrets(data, secrets, { maxStringLength: MAX_STRING_LENGTH });
+    }
+
+    write(entry);
+    try {
+      options.onLog?.(entry);
+    } catch {
+      // A closed stream must not fail the run
+    }
+  };
+
+  return {
+    debug: (message, data) => log('debug', message, data),
+    info: (message, data) => log('info', message, data),
+    warn: (message, data) => log('warn', message, data),
+    error: (message, data) => log('error', message, data),
+    child: (childContext) => createLogger({
+      ...options,
+      context: { ...context, ...childContext },
+      secrets,
+    }),
+  };
+}
+
+// Process-wide logger, for code that runs outside a workflow run
+export const logger = createLogger();
+
+const activeLogger = new AsyncLocalStorage<Logger>();
+
+/**
+ * Logger of the node currently executing, so executors log into the run's
+ * stream without it being passed through every call. Falls back to `logger`.
+ */
+export function getLogger(): Logger {
+  return activeLogger.getStore() ?? logger;
+}
+
+export function withLogger<T>(log: Logger, fn: () => T): T {
+  return activeLogger.run(log, fn);
+}
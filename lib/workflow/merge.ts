@@ -0,0 +1,69 @@
+import type { MergeStrategy } from './types';
+
+/**
+ * Merge Node
+ * Joins parallel branches. Each branch's output is read from its own node
+ * result rather than `lastOutput`, so the combined value doesn't depend on
+ * which branch happened to write last. A branch that failed onto its error
+ * branch, or that an if-else or switch didn't take, is combined as a marker
+ * (see missingBranchOutput) instead of holding the merge up.
+ */
+
+export const DEFAULT_MERGE_STRATEGY: MergeStrategy = 'wait-all';
+
+export const MERGE_STRATEGIES: Array<{ value: MergeStrategy; label: string; description: string }> = [
+  { value: 'wait-all', label: 'Wait for all', description: 'Array of every branch output, in connection order' },
+  { value: 'first-completed', label: 'First completed', description: 'Output of the first branch to finish; later branches are ignored' },
+  { value: 'object', label: 'Object by branch name', description: 'Object keyed by each branch node name' },
+  { value: 'concat', label: 'Concatenate arrays', description: 'Branch outputs flattened into a single array' },
+];
+
+export function normalizeMergeStrategy(value: unknown): MergeStrategy {
+  return MERGE_STRATEGIES.some(strategy => strategy.value === value)
+    ? value as MergeStrategy
+    : DEFAULT_MERGE_STRATEGY;
+}
+
+// How a branch into a merge stands: arrived ('completed' or 'failed'),
+// unable to run this time ('skipped') or still to come ('pending')
+export type MergeBranchStatus = 'completed' | 'failed' | 'skipped' | 'pending';
+
+/**
+ * Stands in for the output of a branch that failed or was skipped
+ */
+export function missingBranchOutput(status: 'failed' | 'skipped', error?: string) {
+  return status === 'failed' ? { status, error } : { status };
+}
+
+export interface MergeBranch {
+  nodeId: string;
+  name: string;
+  output: any;
+}
+
+/**
+ * Combine branch outputs (already in connection order, or completion order for first-completed)
+ */
+export function combineBranchOutputs(strategy: MergeStrategy, branches: MergeBranch[]): any {
+  switch (strategy) {
+    case 'first-completed':
+      return branches[0]?.output;
+
+    case 'object': {
+      const merged: Record<string, any> = {};
+      for (const branch of branches) {
+        // Two branches with the same name fall back to node IDs
+        const key = branch.name in merged ? branch.nodeId : branch.name;
+        merged[key] = branch.output;
+      }
+      return merged;
+    }
+
+    case 'concat':
+      return branches.flatMap(branch => Array.isArray(branch.output) ? branch.output : [branch.output]);
+
+    case 'wait-all':
+    default:
+      return branches.map(branch => branch.output);
+  }
+}
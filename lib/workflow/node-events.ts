@@ -0,0 +1,103 @@
+import type { NodeExecutionResult, NodeToolCall } from './types';
+
+/**
+ * Node Update Events
+ * Translates LangGraphExecutor node updates into the SSE events the
+ * execution routes stream to the builder.
+ */
+
+export type SendEvent = (event: string, data: any) => void;
+
+export function createNodeEventHandler(
+  workflow: { nodes: any[] },
+  sendEvent: SendEvent,
+  nodeResults: Record<string, NodeExecutionResult>
+) {
+  return (nodeId: string, result: NodeExecutionResult) => {
+    nodeResults[nodeId] = result;
+
+    const node = workflow.nodes.find((n: any) => n.id === nodeId);
+    const nodeName = node?.data?.nodeName || node?.data?.label || nodeId;
+    const timestamp = new Date().toISOString();
+
+    if (result.status === 'running') {
+      sendEvent('node_started', {
+        nodeId,
+        nodeName,
+        nodeType: node?.type || 'unknown',
+        timestamp,
+      });
+    } else if (result.status === 'completed') {
+      sendEvent('node_completed', {
+        nodeId,
+        nodeName,
+        result,
+        timestamp,
+      });
+    } else if (result.status === 'retrying') {
+      sendEvent('node_retrying', {
+        nodeId,
+        nodeName,
+        attempt: result.attempt,
+        maxAttempts: result.maxAttempts,
+        error: result.error,
+        errorCode: result.errorCode,
+        nextRetryAt: result.nextRetryAt,
+        result,
+        timestamp,
+      });
+    } else if (result.status === 'failed') {
+      sendEvent('node_failed', {
+        nodeId,
+        nodeName,
+        error: result.error,
+        errorCode: result.errorCode,
+        timestamp,
+      });
+    } else if (result.status === 'timeout') {
+      sendEvent('node_timeout', {
+        nodeId,
+        nodeName,
+        error: result.error,
+        errorCode: result.errorCode,
+        result,
+        timestamp,
+      });
+    } else if (result.status === 'cancelled') {
+      sendEvent('node_cancelled', {
+        nodeId,
+        nodeName,
+        timestamp,
+      });
+    } else if (result.status === 'pending-authorization' || result.status === 'pending-approval') {
+      sendEvent('node_paused', {
+        nodeId,
+        nodeName,
+        status: result.status,
+        timestamp,
+      });
+    }
+  };
+}
+
+/**
+ * Streams agent output as `node_token` events while the node runs; the
+ * complete output still arrives with node_completed. With `reset` the token
+ * replaces the text so far (an agent falling back to another model takes
+ * back the failed model's partial output).
+ */
+export function createNodeTokenHandler(sendEvent: SendEvent) {
+  return (nodeId: string, token: string, reset?: boolean) => {
+    sendEvent('node_token', { nodeId, token, ...(reset && { reset: true }) });
+  };
+}
+
+/**
+ * Sends each agent tool call as a `node_tool_call` event once its result is
+ * in, so multi-step agents show progress before they answer
+ */
+export function createNodeToolCallHandler(sendEvent: SendEvent) {
+  return (nodeId: string, toolCall: NodeToolCall) => {
+    sendEvent('node_tool_call', { nodeId, toolCall });
+  };
+}
@@ -0,0 +1,40 @@
+import type { NodeData } from './types';
+
+/**
+ * Pinned Node Outputs
+ * Nodes that call an external service can carry a pinned output. Runs started
+ * in test mode return it instead of calling the service.
+ */
+
+// Node types whose output comes from an external service (or another workflow)
+export const PINNABLE_NODE_TYPES = ['agent', 'mcp', 'http', 'http-request', 'arcade', 'extract', 'sub-workflow'];
+
+export function isPinnableNodeType(nodeType: string | undefined): boolean {
+  return !!nodeType && PINNABLE_NODE_TYPES.includes(nodeType);
+}
+
+/**
+ * The node's pinned output, if pinning is switched on.
+ * Wrapped so a pinned value of null/false is still distinguishable from "not pinned".
+ */
+export function getPinnedOutput(data: Partial<NodeData> | undefined): { output: any } | undefined {
+  if (!data?.pinOutput || data.pinnedOutput === undefined) return undefined;
+  return { output: data.pinnedOutput };
+}
+
+/**
+ * Parse pinned output text from the editor: JSON when it parses, otherwise the raw string
+ */
+export function parsePinnedOutput(text: string): any {
+  if (text.trim() === '') return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export function formatPinnedOutput(value: any): string {
+  if (value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
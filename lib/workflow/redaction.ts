@@ -0,0 +1,75 @@
+/**
+ * Secret Redaction
+ * Removes credentials from anything that leaves the executor: log entries,
+ * recorded cassettes and the log stream shown in the execution panel.
+ * Known secret values are replaced wherever they appear; fields, headers and
+ * query parameters that usually carry credentials are masked by name, and
+ * strings that look like provider keys are masked by shape.
+ */
+
+export const REDACTED = '[redacted]';
+
+// Object keys and header names whose values are always credentials
+export const SENSITIVE_FIELD = /^(authorization|proxy[-_]?authorization|authorization[-_]?token|auth[-_]?token|access[-_]?token|refresh[-_]?token|id[-_]?token|x-api-key|api[-_]?key|apikey|client[-_]?secret|private[-_]?key|cookie|set-cookie|password|passwd|secret)$/i;
+
+// Provider key formats: Anthropic, OpenAI, Groq, Firecrawl, Arcade, E2B
+const KEY_PATTERN = /\b(?:sk-(?:ant-|proj-)?|gsk_|fc-|arc_|e2b_)[A-Za-z0-9_-]{16,}/g;
+const AUTH_SCHEME_PATTERN = /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/g;
+const QUERY_SECRET_PATTERN = /([?&](?:api[-_]?key|key|token|access[-_]?token|auth|secret|password)=)[^&#\s"']+/gi;
+
+// Shorter values are too likely to match ordinary text
+const MIN_SECRET_LENGTH = 8;
+
+export interface RedactOptions {
+  maxStringLength?: number; // truncate long strings (log output, not cassettes)
+}
+
+/**
+ * Values worth scrubbing: set, and long enough not to collide with ordinary text
+ */
+export function toSecretList(secrets: Array<string | undefined | null>): string[] {
+  return Array.from(new Set(secrets.filter((secret): secret is string => !!secret && secret.length >= MIN_SECRET_LENGTH)));
+}
+
+/**
+ * Redact credentials from a string
+ */
+export function redactText(text: string, secrets: string[] = []): string {
+  const scrubbed = secrets.reduce((result, secret) => result.split(secret).join(REDACTED), text);
+  return scrubbed
+    .replace(AUTH_SCHEME_PATTERN, `$1 ${REDACTED}`)
+    .replace(QUERY_SECRET_PATTERN, `$1${REDACTED}`)
+    .replace(KEY_PATTERN, REDACTED);
+}
+
+/**
+ * JSON-safe copy of `value` with credentials removed. Errors keep their name
+ * and message; values that can't be serialized become a redacted string.
+ */
+export function redactSecrets(value: unknown, secrets: string[] = [], options: RedactOptions = {}): unknown {
+  if (value === undefined) return undefined;
+
+  const redactString = (text: string) => {
+    const redacted = redactText(text, secrets);
+    const max = options.maxStringLength;
+    return max && redacted.length > max ? `${redacted.slice(0, max)}… (${redacted.length - max} more chars)` : redacted;
+  };
+
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(value, (key, item) => {
+      if (key && SENSITIVE_FIELD.test(key) && item !== undefined && item !== null && item !== '') return REDACTED;
+      if (item instanceof Error) {
+        return { name: item.name, message: redactString(item.message), ...(item.stack ? { stack: redactString(item.stack) } : {}) };
+      }
+      if (typeof item === 'string') return redactString(item);
+      if (typeof item === 'bigint') return item.toString();
+      return item;
+    });
+  } catch {
+    // Circular structures and the like
+    return redactString(String(value));
+  }
+
+  return json === undefined ? undefined : JSON.parse(json);
+}
@@ -0,0 +1,177 @@
+import { WorkflowError, ErrorCodes, type ErrorCode } from '@/lib/errors';
+import { NodeRetryPolicy } from './types';
+import { isCancellation, sleep } from './cancellation';
+
+/**
+ * Node Retry Policies
+ * Classifies executor errors and retries transient ones with backoff
+ */
+
+// Error codes a node can be configured to retry on
+export const RETRYABLE_ERROR_CODES: Array<{ code: ErrorCode; label: string }> = [
+  { code: ErrorCodes.RATE_LIMIT_ERROR, label: 'Rate limited (429)' },
+  { code: ErrorCodes.OVERLOADED_ERROR, label: 'Overloaded (529)' },
+  { code: ErrorCodes.SERVER_ERROR, label: 'Server error (5xx)' },
+  { code: ErrorCodes.TIMEOUT_ERROR, label: 'Timeout' },
+  { code: ErrorCodes.NETWORK_ERROR, label: 'Network error' },
+];
+
+export const DEFAULT_RETRY_POLICY: Required<NodeRetryPolicy> = {
+  maxAttempts: 1,
+  backoff: 'exponential',
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: true,
+  retryOn: RETRYABLE_ERROR_CODES.map(({ code }) => code),
+};
+
+const MAX_ATTEMPTS_LIMIT = 10;
+
+/**
+ * Fill in defaults and clamp user-provided values
+ */
+export function normalizeRetryPolicy(policy?: Partial<NodeRetryPolicy> | null): Required<NodeRetryPolicy> {
+  if (!policy) return DEFAULT_RETRY_POLICY;
+
+  const maxAttempts = Number.parseInt(String(policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts), 10);
+  const initialDelayMs = Number(policy.initialDelayMs ?? DEFAULT_RETRY_POLICY.initialDelayMs);
+  const maxDelayMs = Number(policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs);
+
+  return {
+    maxAttempts: Number.isFinite(maxAttempts) ? Math.min(Math.max(maxAttempts, 1), MAX_ATTEMPTS_LIMIT) : 1,
+    backoff: policy.backoff === 'fixed' ? 'fixed' : 'exponential',
+    initialDelayMs: Number.isFinite(initialDelayMs) && initialDelayMs >= 0 ? initialDelayMs : DEFAULT_RETRY_POLICY.initialDelayMs,
+    maxDelayMs: Number.isFinite(maxDelayMs) && maxDelayMs >= 0 ? maxDelayMs : DEFAULT_RETRY_POLICY.maxDelayMs,
+    jitter: policy.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+    retryOn: Array.isArray(policy.retryOn) ? policy.retryOn : DEFAULT_RETRY_POLICY.retryOn,
+  };
+}
+
+/**
+ * Map an executor error to an error code.
+ * Executors rethrow provider errors with a friendlier message and keep the
+ * original as `cause`, so the whole cause chain is searched for an HTTP status,
+ * provider error type or socket error code. Message text is only trusted for
+ * network failures, which often carry nothing else.
+ */
+export function classifyError(error: unknown): string {
+  if (isCancellation(error)) {
+    return ErrorCodes.EXECUTION_CANCELLED;
+  }
+
+  const chain = getCauseChain(error);
+  for (const cause of chain) {
+    const code = classifyCause(cause);
+    if (code) return code;
+  }
+
+  const workflowError = chain.find((cause): cause is WorkflowError => cause instanceof WorkflowError);
+  if (workflowError) {
+    return workflowError.code;
+  }
+
+  if (chain.some(cause => NETWORK_MESSAGE.test(String(cause?.message || cause || '')))) {
+    return ErrorCodes.NETWORK_ERROR;
+  }
+
+  return ErrorCodes.NODE_EXECUTION_ERROR;
+}
+
+const NETWORK_MESSAGE = /econnreset|econnrefused|enotfound|eai_again|socket hang up|fetch failed|network error/i;
+
+const NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+const TIMEOUT_CODES = ['ETIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT'];
+
+// The error and its causes, outermost first
+function getCauseChain(error: unknown): any[] {
+  const chain: any[] = [];
+  for (let current: any = error; current && chain.length < 5 && !chain.includes(current); current = current.cause) {
+    chain.push(current);
+  }
+  return chain;
+}
+
+function classifyCause(err: any): string | undefined {
+  const fromStatus = classifyStatus(Number(err?.status ?? err?.statusCode ?? err?.response?.status));
+  if (fromStatus) return fromStatus;
+
+  // Anthropic puts the type on the response body's `error`
+  const errorType = String(err?.error?.error?.type || err?.error?.type || '');
+  if (errorType === 'rate_limit_error') return ErrorCodes.RATE_LIMIT_ERROR;
+  if (errorType === 'overloaded_error') return ErrorCodes.OVERLOADED_ERROR;
+
+  // SDK connection errors, AbortSignal.timeout() and Node socket errors
+  const name = String(err?.name || '');
+  const code = String(err?.code || '');
+  if (name === 'APIConnectionTimeoutError' || name === 'TimeoutError' || TIMEOUT_CODES.includes(code)) {
+    return ErrorCodes.TIMEOUT_ERROR;
+  }
+  if (name === 'APIConnectionError' || NETWORK_CODES.includes(code)) {
+    return ErrorCodes.NETWORK_ERROR;
+  }
+  return undefined;
+}
+
+function classifyStatus(status: number): string | undefined {
+  if (!Number.isFinite(status)) return undefined;
+  if (status === 429) return ErrorCodes.RATE_LIMIT_ERROR;
+  if (status === 529) return ErrorCodes.OVERLOADED_ERROR;
+  if (status === 408 || status === 504) return ErrorCodes.TIMEOUT_ERROR;
+  if (status >= 500 && status < 600) return ErrorCodes.SERVER_ERROR;
+  return undefined;
+}
+
+/**
+ * Delay before the next attempt (attempt is the 1-based attempt that just failed)
+ */
+export function getRetryDelay(policy: Required<NodeRetryPolicy>, attempt: number): number {
+  const base = policy.backoff === 'fixed'
+    ? policy.initialDelayMs
+    : policy.initialDelayMs * Math.pow(2, attempt - 1);
+  const capped = Math.min(base, policy.maxDelayMs);
+
+  // Full jitter keeps parallel branches from retrying in lockstep
+  return policy.jitter ? Math.round(Math.random() * capped) : capped;
+}
+
+export interface RetryAttemptInfo {
+  attempt: number;
+  maxAttempts: number;
+  error: unknown;
+  errorCode: string;
+  delayMs: number;
+}
+
+/**
+ * Run fn, retrying per policy. onRetry fires before each backoff wait.
+ * shouldAbort lets callers skip retries for control-flow errors (e.g. interrupts);
+ * a fired signal stops retrying and cuts the backoff wait short.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: Required<NodeRetryPolicy>,
+  options?: {
+    onRetry?: (info: RetryAttemptInfo) => void;
+    shouldAbort?: (error: unknown) => boolean;
+    signal?: AbortSignal;
+  }
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (options?.shouldAbort?.(error) || isCancellation(error, options?.signal) || attempt >= policy.maxAttempts) {
+        throw error;
+      }
+
+      const errorCode = classifyError(error);
+      if (!policy.retryOn.includes(errorCode)) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(policy, attempt);
+      options?.onRetry?.({ attempt, maxAttempts: policy.maxAttempts, error, errorCode, delayMs });
+      await sleep(delayMs, options?.signal);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import 'server-only';
+import { ValidationError } from '@/lib/errors';
+import { getConvexClient, isConvexConfigured, api } from '@/lib/convex/client';
+import type { Workflow, WorkflowState } from './types';
+import { evaluateWorkflowExpression } from './expressions';
+
+/**
+ * Sub-Workflow Node
+ * Runs another saved workflow with a nested executor. Parent state is mapped
+ * into the child's Start node input variables and the child's End output
+ * becomes this node's output.
+ */
+
+// Workflows calling workflows deeper than this are almost certainly a mistake
+export const MAX_SUB_WORKFLOW_DEPTH = 5;
+
+/**
+ * Load a workflow from Convex by custom ID, falling back to its Convex ID
+ */
+export async function loadSubWorkflow(workflowId: string | undefined, nodeId: string): Promise<Workflow> {
+  if (!workflowId) {
+    throw new ValidationError('Sub-workflow node has no workflow selected', nodeId);
+  }
+  if (!isConvexConfigured()) {
+    throw new ValidationError('Convex must be configured to run sub-workflows', nodeId);
+  }
+
+  const convex = getConvexClient();
+  let workflowDoc = await convex.query(api.workflows.getWorkflowByCustomId, { customId: workflowId });
+
+  if (!workflowDoc && workflowId.startsWith('j')) {
+    try {
+      workflowDoc = await convex.query(api.workflows.getWorkflow, { id: workflowId as any });
+    } catch {
+      // Not a valid Convex ID
+    }
+  }
+
+  if (!workflowDoc) {
+    throw new ValidationError(`Sub-workflow ${workflowId} not found`, nodeId);
+  }
+
+  return {
+    ...workflowDoc,
+    id: workflowDoc.customId || workflowDoc._id,
+  } as unknown as Workflow;
+}
+
+/**
+ * Guard against a workflow calling itself (directly or through others) and
+ * against runaway nesting. `path` holds the IDs of the calling workflows, outermost first.
+ */
+export function assertSubWorkflowDepth(path: string[], workflowId: string, nodeId: string) {
+  if (path.includes(workflowId)) {
+    throw new ValidationError(
+      `Sub-workflow recursion: ${[...path, workflowId].join(' → ')}`,
+      nodeId
+    );
+  }
+  if (path.length >= MAX_SUB_WORKFLOW_DEPTH) {
+    throw new ValidationError(
+      `Sub-workflows can be nested at most ${MAX_SUB_WORKFLOW_DEPTH} levels deep`,
+      nodeId
+    );
+  }
+}
+
+/**
+ * Build the child's input from its Start node variables. Each variable takes its
+ * mapped expression, then a parent input of the same name, then its default.
+ * A child without declared inputs receives the parent's last output.
+ */
+export function buildSubWorkflowInput(
+  workflow: Workflow,
+  mappings: Record<string, string> | undefined,
+  state: WorkflowState,
+  nodeId: string
+): any {
+  const startNode = workflow.nodes.find(n => ((n.data as any)?.nodeType || n.type) === 'start');
+  const inputVariables = startNode?.data?.inputVariables || [];
+  const { input: parentInput, lastOutput } = state.variables;
+
+  if (inputVariables.length === 0) {
+    return lastOutput;
+  }
+
+  const input: Record<string, any> = {};
+  for (const variable of inputVariables) {
+    const expr = mappings?.[variable.name]?.trim();
+    let value: any;
+
+    if (expr) {
+      try {
+        value = evaluateWorkflowExpression(expr, state);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new ValidationError(`Sub-workflow input "${variable.name}" mapping failed: ${message}`, nodeId);
+      }
+    } else if (parentInput && typeof parentInput === 'object') {
+      value = parentInput[variable.name];
+    }
+
+    if (value === undefined) {
+      value = variable.defaultValue;
+    }
+    if (value === undefined && variable.required) {
+      throw new ValidationError(`Sub-workflow input "${variable.name}" is required but has no value`, nodeId);
+    }
+    if (value !== undefined) {
+      input[variable.name] = value;
+    }
+  }
+
+  return input;
+}
+
+/**
+ * The child's result: the final output of the End node it finished on,
+ * or its last output when it ended without reaching one
+ */
+export function getSubWorkflowOutput(workflow: Workflow, finalState: any): any {
+  const endNodeIds = workflow.nodes
+    .filter(n => ((n.data as any)?.nodeType || n.type) === 'end')
+    .map(n => n.id);
+
+  const finishedEnds = endNodeIds
+    .map(id => finalState?.nodeResults?.[id])
+    .filter(result => result?.status === 'completed')
+    .sort((a, b) => String(a.completedAt || '').localeCompare(String(b.completedAt || '')));
+
+  const lastEnd = finishedEnds[finishedEnds.length - 1];
+  if (lastEnd?.output && typeof lastEnd.output === 'object' && 'finalOutput' in lastEnd.output) {
+    return lastEnd.output.finalOutput;
+  }
+
+  return finalState?.variables?.lastOutput;
+}
@@ -0,0 +1,39 @@
+import type { SwitchCase, WorkflowState } from './types';
+import { evaluateWorkflowExpression } from './expressions';
+
+/**
+ * Switch Node
+ * Routes to one of N named cases. Cases are checked in order and the first
+ * expression that is truthy wins; when none match the 'default' handle is taken.
+ */
+
+export const SWITCH_DEFAULT_HANDLE = 'default';
+
+export function createSwitchCase(index: number): SwitchCase {
+  return {
+    id: `case-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    label: `Case ${index + 1}`,
+    expression: '',
+  };
+}
+
+export function getSwitchCases(data: { switchCases?: SwitchCase[] } | undefined): SwitchCase[] {
+  const cases = data?.switchCases;
+  return Array.isArray(cases) ? cases : [];
+}
+
+/**
+ * Evaluate the cases against the current state.
+ * An invalid expression throws, the same as an if-else condition.
+ */
+export function evaluateSwitch(cases: SwitchCase[], state: WorkflowState) {
+  for (const switchCase of cases) {
+    if (!switchCase.expression?.trim()) continue;
+
+    if (evaluateWorkflowExpression(switchCase.expression, state)) {
+      return { branch: switchCase.id, matchedCase: switchCase.label };
+    }
+  }
+
+  return { branch: SWITCH_DEFAULT_HANDLE, matchedCase: null };
+}
@@ -0,0 +1,125 @@
+import { ExpressionError } from '@/lib/errors';
+import { EXPRESSION_FUNCTIONS } from './expressions';
+
+/**
+ * Template Filters
+ * Pipe filters and built-in values for {{ }} substitution, e.g.
+ * {{lastOutput.items | join:", " | truncate:200}} or {{env.COMPANY_NAME | default:"Acme"}}.
+ * Filter arguments are expressions, so `default:input.fallback` works too.
+ */
+
+// Comma-separated names of environment variables templates may read as {{env.NAME}}
+export const TEMPLATE_ENV_ALLOWLIST_VAR = 'WORKFLOW_TEMPLATE_ENV';
+
+export interface TemplateFilterCall {
+  name: string;
+  // Argument expressions after the colon, e.g. `", "` in join:", "
+  args: string;
+}
+
+const truncateText = (text: string, maxLength: number) =>
+  text.length > maxLength ? `${text.substring(0, maxLength)}...` : text;
+
+const toText = (value: unknown) => EXPRESSION_FUNCTIONS.string(value) as string;
+
+export const TEMPLATE_FILTERS: Record<string, (value: any, ...args: any[]) => unknown> = {
+  json: (value, indent) => JSON.stringify(value, null, indent === undefined ? undefined : Number(indent)),
+  default: (value, fallback = '') =>
+    value === null || value === undefined || value === '' ? fallback : value,
+  join: (value, separator = ', ') => (Array.isArray(value) ? value.map(toText).join(String(separator)) : toText(value)),
+  truncate: (value, maxLength = 200) => truncateText(toText(value), Math.max(0, Number(maxLength) || 0)),
+  length: value => EXPRESSION_FUNCTIONS.len(value),
+  upper: value => toText(value).toUpperCase(),
+  lower: value => toText(value).toLowerCase(),
+  trim: value => toText(value).trim(),
+};
+
+/**
+ * Split `expr | filter:args | filter` into the expression and its filters.
+ * `||` and pipes inside strings belong to the expression.
+ */
+export function splitTemplateFilters(source: string): { expression: string; filters: TemplateFilterCall[] } {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '|') {
+      if (source[index + 1] === '|') {
+        index++;
+        continue;
+      }
+      parts.push(source.slice(start, index));
+      start = index + 1;
+    }
+  }
+  parts.push(source.slice(start));
+
+  const [expression, ...filterParts] = parts.map(part => part.trim());
+  const filters = filterParts.map((part) => {
+    const colon = part.indexOf(':');
+    const name = (colon === -1 ? part : part.slice(0, colon)).trim();
+    const args = colon === -1 ? '' : part.slice(colon + 1).trim();
+
+    if (!Object.prototype.hasOwnProperty.call(TEMPLATE_FILTERS, name)) {
+      throw new ExpressionError(`Unknown filter "${name}"`, source);
+    }
+    return { name, args };
+  });
+
+  return { expression, filters };
+}
+
+/**
+ * Apply filters in order. A missing value skips every filter except `default`,
+ * so an unresolved reference stays visible in the output.
+ */
+export function applyTemplateFilters(value: unknown, filters: Array<{ name: string; args: unknown[] }>): unknown {
+  return filters.reduce((current, filter) => {
+    if ((current === null || current === undefined) && filter.name !== 'default') {
+      return current;
+    }
+    return TEMPLATE_FILTERS[filter.name](current, ...filter.args);
+  }, value);
+}
+
+/**
+ * Allow-listed environment variables. Anything not listed reads as undefined,
+ * so API keys can't be pulled into prompts or request bodies.
+ */
+export function getTemplateEnv(): Record<string, string> {
+  const names = (process.env[TEMPLATE_ENV_ALLOWLIST_VAR] || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  const env: Record<string, string> = {};
+  for (const name of names) {
+    const value = process.env[name];
+    if (value !== undefined) env[name] = value;
+  }
+  return env;
+}
+
+/**
+ * Values available in every template: {{now}}, {{uuid}} and {{env.NAME}}
+ */
+export function getTemplateBuiltins(): Record<string, unknown> {
+  return {
+    now: new Date().toISOString(),
+    uuid: globalThis.crypto.randomUUID(),
+    env: getTemplateEnv(),
+  };
+}
+
+export const TEMPLATE_BUILTIN_NAMES = ['now', 'uuid', 'env'];
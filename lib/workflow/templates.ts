@@ -250,7 +250,7 @@ return result;`,
           instructions: `Create a professional stock analysis summary report using the company data from lastOutput.
 
 The lastOutput contains:
-{{JSON.stringify(lastOutput, null, 2)}}
+{{lastOutput | json:2}}
 
 Use the actual company names, tickers, and research summaries from this data to create a comprehensive report.
 
@@ -1078,7 +1078,7 @@ return {
 Properties analyzed: {{lastOutput.totalAnalyzed}}
 
 Property data:
-{{JSON.stringify(lastOutput.properties, null, 2)}}
+{{lastOutput.properties | json:2}}
 
 Format as:
 
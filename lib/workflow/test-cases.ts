@@ -0,0 +1,197 @@
+import type { WorkflowNode, WorkflowTestAssertion } from './types';
+
+/**
+ * Workflow Test Cases
+ * Assertion checks for test runs: JSON-path lookups into a node's output,
+ * equality, containment and JSON Schema matching. LLM-judge assertions are
+ * graded by the runner (test-runner.ts) since they call a model.
+ */
+
+// Assertion target meaning the workflow's End output rather than a node's
+export const TEST_OUTPUT_TARGET = 'output';
+
+export const TEST_ASSERTION_TYPES: Array<{ type: WorkflowTestAssertion['type']; label: string }> = [
+  { type: 'equals', label: 'Equals' },
+  { type: 'contains', label: 'Contains' },
+  { type: 'matches-schema', label: 'Matches schema' },
+  { type: 'llm-judge', label: 'LLM judge' },
+];
+
+/**
+ * Read a JSON path such as `$.items[0].title`, `items[0].title` or `$["key with spaces"]`.
+ * Missing segments read as undefined.
+ */
+export function readJsonPath(value: unknown, path?: string): unknown {
+  const source = (path || '').trim().replace(/^\$/, '');
+  if (!source) return value;
+
+  const segmentPattern = /\.?([^.[\]]+)|\[(\d+)\]|\["((?:[^"\\]|\\.)*)"\]/g;
+  let current: any = value;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = segmentPattern.exec(source)) !== null) {
+    if (match.index !== consumed) {
+      throw new Error(`Invalid JSON path "${path}"`);
+    }
+    consumed = segmentPattern.lastIndex;
+
+    const key = match[1] ?? (match[2] !== undefined ? Number(match[2]) : JSON.parse(`"${match[3]}"`));
+    if (current === null || current === undefined) return undefined;
+    current = Object.prototype.hasOwnProperty.call(Object(current), key) ? current[key] : undefined;
+  }
+
+  if (consumed !== source.length) {
+    throw new Error(`Invalid JSON path "${path}"`);
+  }
+  return current;
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length
+    && aKeys.every(key => deepEqual((a as any)[key], (b as any)[key]));
+}
+
+function schemaType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check a value against a JSON Schema (type, enum, const, properties,
+ * required, additionalProperties: false and items). Returns the violations.
+ */
+export function validateJsonSchema(value: unknown, schema: any, at = '$'): string[] {
+  if (!schema || typeof schema !== 'object') return [];
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = schemaType(value);
+    const matches = types.some(type =>
+      type === actual || (type === 'integer' && Number.isInteger(value)) || (type === 'number' && actual === 'number')
+    );
+    if (!matches) {
+      return [`${at} should be ${types.join(' or ')}, got ${actual}`];
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => deepEqual(option, value))) {
+    errors.push(`${at} should be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${at} should be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) errors.push(`${at}.${key} is required`);
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined) errors.push(...validateJsonSchema(record[key], propertySchema, `${at}.${key}`));
+    }
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(record)) {
+        if (!schema.properties?.[key]) errors.push(`${at}.${key} is not allowed`);
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items, `${at}[${index}]`)));
+  }
+
+  return errors;
+}
+
+function containsValue(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === 'string') {
+    return actual.includes(typeof expected === 'string' ? expected : JSON.stringify(expected));
+  }
+  if (Array.isArray(actual)) {
+    return actual.some(item => deepEqual(item, expected));
+  }
+  // Objects contain every key/value of the expected object
+  if (actual && typeof actual === 'object' && expected && typeof expected === 'object') {
+    return Object.entries(expected).every(([key, value]) => deepEqual((actual as any)[key], value));
+  }
+  return false;
+}
+
+const preview = (value: unknown) => {
+  const text = value === undefined ? 'undefined' : JSON.stringify(value);
+  return text.length > 120 ? `${text.substring(0, 120)}...` : text;
+};
+
+/**
+ * Check an equals, contains or matches-schema assertion against the value it targets
+ */
+export function checkAssertion(assertion: WorkflowTestAssertion, actual: unknown): { passed: boolean; message: string } {
+  switch (assertion.type) {
+    case 'equals': {
+      const passed = deepEqual(actual, assertion.expected);
+      return { passed, message: passed ? 'Values are equal' : `Expected ${preview(assertion.expected)}, got ${preview(actual)}` };
+    }
+
+    case 'contains': {
+      const passed = containsValue(actual, assertion.expected);
+      return { passed, message: passed ? `Contains ${preview(assertion.expected)}` : `${preview(actual)} doesn't contain ${preview(assertion.expected)}` };
+    }
+
+    case 'matches-schema': {
+      const errors = validateJsonSchema(actual, assertion.schema);
+      return { passed: errors.length === 0, message: errors.length === 0 ? 'Matches schema' : errors.join('; ') };
+    }
+
+    default:
+      return { passed: false, message: `Unsupported assertion type "${assertion.type}"` };
+  }
+}
+
+/**
+ * One-line summary for the builder, e.g. `output $.title equals "Hello"`
+ */
+export function describeAssertion(assertion: WorkflowTestAssertion): string {
+  const target = `${assertion.target || TEST_OUTPUT_TARGET}${assertion.path ? ` ${assertion.path}` : ''}`;
+
+  switch (assertion.type) {
+    case 'equals':
+      return `${target} equals ${preview(assertion.expected)}`;
+    case 'contains':
+      return `${target} contains ${preview(assertion.expected)}`;
+    case 'matches-schema':
+      return `${target} matches schema`;
+    case 'llm-judge':
+      return `${target} judged: ${assertion.criteria || '(no criteria)'}`;
+    default:
+      return target;
+  }
+}
+
+/**
+ * The test's pinned outputs replace node pins from the builder, so a test
+ * only ever uses the outputs it declares
+ */
+export function applyTestPinnedOutputs(nodes: WorkflowNode[], pinnedOutputs: Record<string, any> = {}): WorkflowNode[] {
+  return nodes.map((node) => {
+    const pinned = Object.prototype.hasOwnProperty.call(pinnedOutputs, node.id);
+    if (!pinned && !node.data?.pinOutput) return node;
+
+    return {
+      ...node,
+      data: {
+        ...node.data,
+        pinOutput: pinned,
+        pinnedOutput: pinned ? pinnedOutputs[node.id] : node.data.pinnedOutput,
+      },
+    };
+  });
+}
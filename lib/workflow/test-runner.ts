@@ -0,0 +1,163 @@
+import 'server-only';
+import type {
+  NodeExecutionResult,
+  Workflow,
+  WorkflowNode,
+  WorkflowTestAssertion,
+  WorkflowTestAssertionResult,
+  WorkflowTestCase,
+  WorkflowTestRunResult,
+} from './types';
+import { LangGraphExecutor } from './langgraph';
+import { createLogger } from './logger';
+import { executeAgentNode } from './executors/agent';
+import { getSubWorkflowOutput } from './sub-workflow';
+import { applyTestPinnedOutputs, checkAssertion, readJsonPath, TEST_OUTPUT_TARGET } from './test-cases';
+
+/**
+ * Workflow Test Runner
+ * Runs a test case's inputs through the workflow (test mode, with the test's
+ * pinned outputs) and checks its assertions against the final state.
+ */
+
+type ApiKeys = { anthropic?: string; groq?: string; openai?: string; firecrawl?: string; arcade?: string };
+
+const DEFAULT_JUDGE_MODEL = 'anthropic/claude-sonnet-4-5-20250929';
+
+export async function runWorkflowTest(
+  workflow: Workflow,
+  testCase: WorkflowTestCase,
+  apiKeys: ApiKeys,
+  options?: { signal?: AbortSignal }
+): Promise<WorkflowTestRunResult> {
+  const startedAt = new Date().toISOString();
+  const started = Date.now();
+  const result = (fields: Omit<WorkflowTestRunResult, 'testId' | 'testName' | 'durationMs' | 'startedAt'>): WorkflowTestRunResult => ({
+    testId: testCase.id,
+    testName: testCase.name,
+    durationMs: Date.now() - started,
+    startedAt,
+    ...fields,
+  });
+
+  let finalState: any;
+  try {
+    const testWorkflow = { ...workflow, nodes: applyTestPinnedOutputs(workflow.nodes, testCase.pinnedOutputs) };
+    const nodeResults: Record<string, NodeExecutionResult> = {};
+    const executor = new LangGraphExecutor(testWorkflow, (nodeId, nodeResult) => {
+      nodeResults[nodeId] = nodeResult;
+    }, apiKeys, { logger: createLogger({ secrets: Object.values(apiKeys) }) });
+
+    const stream = await executor.executeStream(testCase.inputs || {}, {
+      threadId: `test_${testCase.id}_${Date.now()}`,
+      signal: options?.signal,
+      testMode: true,
+    });
+
+    for await (const state of stream) {
+      finalState = { ...state, nodeResults: { ...state.nodeResults, ...nodeResults } };
+    }
+  } catch (error) {
+    return result({ status: 'error', assertions: [], error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  if (finalState?.pendingAuth) {
+    return result({ status: 'error', assertions: [], error: 'Run paused waiting for approval or authorization' });
+  }
+  if (['failed', 'cancelled', 'timeout'].includes(finalState?.status)) {
+    return result({ status: 'error', assertions: [], error: finalState.error || `Run ${finalState.status}` });
+  }
+
+  const output = getSubWorkflowOutput(workflow, finalState);
+  const assertions: WorkflowTestAssertionResult[] = [];
+  for (const assertion of testCase.assertions || []) {
+    assertions.push(await evaluateTestAssertion(assertion, workflow.nodes, finalState, output, apiKeys, options?.signal));
+  }
+
+  return result({
+    status: assertions.every(assertion => assertion.passed) ? 'passed' : 'failed',
+    assertions,
+    output,
+  });
+}
+
+async function evaluateTestAssertion(
+  assertion: WorkflowTestAssertion,
+  nodes: WorkflowNode[],
+  finalState: any,
+  output: unknown,
+  apiKeys: ApiKeys,
+  signal?: AbortSignal
+): Promise<WorkflowTestAssertionResult> {
+  const target = assertion.target || TEST_OUTPUT_TARGET;
+
+  let actual: unknown;
+  try {
+    if (target === TEST_OUTPUT_TARGET) {
+      actual = readJsonPath(output, assertion.path);
+    } else {
+      if (!nodes.some(node => node.id === target)) {
+        return { assertion, passed: false, message: `Node ${target} not found in workflow` };
+      }
+      const nodeResult = finalState?.nodeResults?.[target];
+      if (!nodeResult || nodeResult.status !== 'completed') {
+        return { assertion, passed: false, message: `Node ${target} didn't complete (${nodeResult?.status || 'not run'})` };
+      }
+      actual = readJsonPath(nodeResult.output, assertion.path);
+    }
+  } catch (error) {
+    return { assertion, passed: false, message: error instanceof Error ? error.message : 'Invalid path' };
+  }
+
+  if (assertion.type !== 'llm-judge') {
+    return { assertion, actual, ...checkAssertion(assertion, actual) };
+  }
+
+  try {
+    return { assertion, actual, ...(await judgeWithLLM(assertion, actual, apiKeys, signal)) };
+  } catch (error) {
+    return { assertion, actual, passed: false, message: `LLM judge failed: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+}
+
+/**
+ * Ask a model whether the output meets the assertion's criteria.
+ * Goes through the agent executor so it uses the same providers and keys as agent nodes.
+ */
+async function judgeWithLLM(
+  assertion: WorkflowTestAssertion,
+  actual: unknown,
+  apiKeys: ApiKeys,
+  signal?: AbortSignal
+): Promise<{ passed: boolean; message: string }> {
+  if (!assertion.criteria?.trim()) {
+    return { passed: false, message: 'LLM judge assertion has no criteria' };
+  }
+
+  const outputText = typeof actual === 'string' ? actual : JSON.stringify(actual, null, 2);
+  const judgeNode: WorkflowNode = {
+    id: 'test_judge',
+    type: 'agent',
+    position: { x: 0, y: 0 },
+    data: {
+      label: 'Test judge',
+      nodeType: 'agent',
+      model: assertion.model || DEFAULT_JUDGE_MODEL,
+      outputFormat: 'JSON',
+      instructions: [
+        'You are grading the output of an automated workflow test.',
+        `Criteria: ${assertion.criteria}`,
+        `Output:\n${(outputText ?? 'undefined').substring(0, 8000)}`,
+        'Reply with only JSON: {"pass": true|false, "reason": "<one sentence>"}',
+      ].join('\n\n'),
+    },
+  };
+
+  const response = await executeAgentNode(judgeNode, { variables: {}, chatHistory: [] }, apiKeys, signal);
+  const verdict = response?.__agentValue;
+  if (!verdict || typeof verdict !== 'object' || typeof verdict.pass !== 'boolean') {
+    return { passed: false, message: `Judge gave no verdict: ${String(typeof verdict === 'string' ? verdict : JSON.stringify(verdict)).substring(0, 200)}` };
+  }
+
+  return { passed: verdict.pass, message: String(verdict.reason || (verdict.pass ? 'Meets criteria' : 'Does not meet criteria')) };
+}
@@ -0,0 +1,71 @@
+import { TimeoutError } from '@/lib/errors';
+
+/**
+ * Node & Workflow Timeouts
+ * Deadlines are enforced by aborting a signal with a TimeoutError, so every
+ * executor that already honours cancellation stops on timeout too.
+ */
+
+// Source handle for the optional branch taken when a node times out
+export const TIMEOUT_HANDLE = 'timeout';
+
+// Longest timer setTimeout supports (~24.8 days)
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+/**
+ * Parse a timeoutMinutes value (number or numeric string) into milliseconds.
+ * Empty, zero or invalid values mean "no timeout".
+ */
+export function parseTimeoutMinutes(value: number | string | undefined | null): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const minutes = typeof value === 'number' ? value : Number.parseFloat(value);
+  if (!Number.isFinite(minutes) || minutes <= 0) return undefined;
+
+  return Math.min(Math.round(minutes * 60_000), MAX_TIMEOUT_MS);
+}
+
+export function formatTimeout(timeoutMs: number): string {
+  if (timeoutMs < 60_000) return `${Math.round(timeoutMs / 1000)}s`;
+  const minutes = timeoutMs / 60_000;
+  return `${Number.isInteger(minutes) ? minutes : minutes.toFixed(1)} min`;
+}
+
+export interface Deadline {
+  signal?: AbortSignal;
+  clear: () => void;
+}
+
+/**
+ * Derive a signal that aborts when the parent aborts or when timeoutMs elapses.
+ * Without a timeout the parent signal is returned as-is.
+ * Call clear() once the guarded work settles to release the timer.
+ */
+export function createDeadline(
+  parent: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+  createError: () => TimeoutError
+): Deadline {
+  if (!timeoutMs) {
+    return { signal: parent, clear: () => {} };
+  }
+
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent?.reason);
+
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  const timer = setTimeout(() => controller.abort(createError()), timeoutMs);
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
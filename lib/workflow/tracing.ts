@@ -0,0 +1,198 @@
+import 'server-only';
+import { context, trace, SpanStatusCode, type Attributes, type Context, type Span } from '@opentelemetry/api';
+
+/**
+ * Workflow Tracing
+ * OpenTelemetry spans for workflow runs: workflow → node → LLM call, tool call
+ * or HTTP request. Spans are exported over OTLP when OTEL_EXPORTER_OTLP_ENDPOINT
+ * (or OTEL_EXPORTER_OTLP_TRACES_ENDPOINT) is set; otherwise the API is a no-op.
+ */
+
+const TRACER_NAME = 'open-agent-builder';
+
+interface TracerProviderHandle {
+  forceFlush(): Promise<void>;
+  shutdown(): Promise<void>;
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __workflowTracerProvider: TracerProviderHandle | undefined;
+}
+
+export function isTracingConfigured(): boolean {
+  return Boolean(process.env.OTEL_EXPORTER_OTLP_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT);
+}
+
+/**
+ * Register the OTLP trace exporter (once per process). The exporter reads the
+ * standard OTEL_EXPORTER_OTLP_* variables for its endpoint and headers.
+ */
+export async function initTracing(serviceName = process.env.OTEL_SERVICE_NAME || TRACER_NAME): Promise<void> {
+  if (globalThis.__workflowTracerProvider || !isTracingConfigured()) {
+    return;
+  }
+
+  const [{ NodeTracerProvider, BatchSpanProcessor }, { OTLPTraceExporter }, { resourceFromAttributes }, { ATTR_SERVICE_NAME }] = await Promise.all([
+    import('@opentelemetry/sdk-trace-node'),
+    import('@opentelemetry/exporter-trace-otlp-http'),
+    import('@opentelemetry/resources'),
+    import('@opentelemetry/semantic-conventions'),
+  ]);
+
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: serviceName }),
+    spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())],
+  });
+  provider.register();
+  globalThis.__workflowTracerProvider = provider;
+}
+
+/**
+ * Export any buffered spans and stop the exporter (for short-lived processes like the CLI)
+ */
+export async function shutdownTracing(): Promise<void> {
+  const provider = globalThis.__workflowTracerProvider;
+  if (!provider) return;
+
+  globalThis.__workflowTracerProvider = undefined;
+  await provider.shutdown();
+}
+
+function getTracer() {
+  return trace.getTracer(TRACER_NAME);
+}
+
+/**
+ * Start a span without making it active; the caller ends it
+ */
+export function startSpan(name: string, attributes: Attributes, parent: Context = context.active()): Span {
+  return getTracer().startSpan(name, { attributes: withoutEmpty(attributes) }, parent);
+}
+
+/**
+ * Trace ID of a span, or undefined when tracing is off
+ */
+export function getTraceId(span?: Span): string | undefined {
+  const spanContext = span?.spanContext();
+  return spanContext && trace.isSpanContextValid(spanContext) ? spanContext.traceId : undefined;
+}
+
+export function markSpanFailed(span: Span, error: unknown) {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Run `fn` inside an active span (so spans it starts nest under it) and end
+ * the span when it settles. `isFailure` decides whether a thrown error marks
+ * the span as failed, e.g. a workflow pause is thrown but isn't a failure.
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>,
+  options?: { parent?: Context; isFailure?: (error: unknown) => boolean }
+): Promise<T> {
+  const span = startSpan(name, attributes, options?.parent);
+  try {
+    return await context.with(trace.setSpan(options?.parent ?? context.active(), span), () => fn(span));
+  } catch (error) {
+    if (options?.isFailure?.(error) ?? true) {
+      markSpanFailed(span, error);
+    }
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Set token counts from a provider's usage object (Anthropic, OpenAI or LangChain naming)
+ */
+export function setTokenUsage(span: Span, usage: any) {
+  if (!usage || typeof usage !== 'object') return;
+
+  const inputTokens = usage.input_tokens ?? usage.prompt_tokens ?? usage.promptTokens;
+  const outputTokens = usage.output_tokens ?? usage.completion_tokens ?? usage.completionTokens;
+  if (typeof inputTokens === 'number') span.setAttribute('gen_ai.usage.input_tokens', inputTokens);
+  if (typeof outputTokens === 'number') span.setAttribute('gen_ai.usage.output_tokens', outputTokens);
+}
+
+/**
+ * Span for one model call. `getUsage` picks the usage object out of the response.
+ */
+export function traceLLMCall<T>(
+  provider: string,
+  model: string,
+  call: () => Promise<T>,
+  getUsage: (response: T) => unknown = (response: any) => response?.usage
+): Promise<T> {
+  return withSpan(`chat ${model}`, {
+    'gen_ai.operation.name': 'chat',
+    'gen_ai.system': provider,
+    'gen_ai.request.model': model,
+  }, async (span) => {
+    const response = await call();
+    setTokenUsage(span, getUsage(response));
+    const responseModel = (response as any)?.model;
+    if (typeof responseModel === 'string') span.setAttribute('gen_ai.response.model', responseModel);
+    return response;
+  });
+}
+
+/**
+ * Span for a tool the workflow runs itself (MCP tool, Firecrawl, Arcade, ...)
+ */
+export function traceToolCall<T>(toolName: string, call: () => Promise<T>, attributes: Attributes = {}): Promise<T> {
+  return withSpan(`execute_tool ${toolName}`, {
+    'gen_ai.operation.name': 'execute_tool',
+    'gen_ai.tool.name': toolName,
+    ...attributes,
+  }, () => call());
+}
+
+/**
+ * Span for an outgoing HTTP request. The query string is left out of the
+ * recorded URL since it often carries keys.
+ */
+export function traceHTTPRequest(method: string, url: string, call: () => Promise<Response>): Promise<Response> {
+  return withSpan(method.toUpperCase(), {
+    'http.request.method': method.toUpperCase(),
+    'url.full': stripQuery(url),
+  }, async (span) => {
+    const response = await call();
+    span.setAttribute('http.response.status_code', response.status);
+    if (response.status >= 400) {
+      span.setStatus({ code: SpanStatusCode.ERROR, message: `HTTP ${response.status}` });
+    }
+    return response;
+  });
+}
+
+/**
+ * Record the tools a model called on the current span (tools the provider ran
+ * server-side, like Anthropic MCP servers, don't get spans of their own)
+ */
+export function recordToolNames(toolCalls: Array<{ name?: string }> | undefined) {
+  const names = (toolCalls || []).map(call => call.name).filter((name): name is string => Boolean(name));
+  if (names.length > 0) {
+    trace.getActiveSpan()?.setAttribute('gen_ai.tool.names', names);
+  }
+}
+
+function stripQuery(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url.split('?')[0];
+  }
+}
+
+function withoutEmpty(attributes: Attributes): Attributes {
+  return Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined && value !== ''));
+}
@@ -2,7 +2,7 @@
 
 export interface WorkflowNode {
   id: string;
-  type: 'agent' | 'mcp' | 'if-else' | 'while' | 'user-approval' | 'transform' | 'set-state' | 'end' | 'start' | 'guardrails' | 'arcade' | 'note';
+  type: 'agent' | 'mcp' | 'if-else' | 'while' | 'user-approval' | 'transform' | 'set-state' | 'end' | 'start' | 'guardrails' | 'arcade' | 'for-each' | 'merge' | 'switch' | 'sub-workflow' | 'note';
   position: { x: number; y: number };
   data: NodeData;
 }
@@ -16,6 +16,7 @@ export interface NodeData {
   name?: string;
   instructions?: string;
   model?: string;
+  fallbackModels?: string[]; // Tried in order when the model's provider fails
   includeChatHistory?: boolean;
   tools?: string[]; // MCP server IDs
   outputFormat?: string;
@@ -24,6 +25,11 @@ export interface NodeData {
   jsonSchema?: any;
   mcpTools?: any[];
   systemPrompt?: string;
+  maxSteps?: number | string; // Model calls in the tool-use loop; 1 answers without tools
+
+  // Context budget (agent and extract nodes)
+  contextStrategy?: ContextStrategy; // How inputs over the model's context budget are reduced
+  contextTokenLimit?: number | string; // Caps the budget below the model's context window
 
   // MCP node data
   mcpServers?: MCPServer[];
@@ -55,6 +61,20 @@ export interface NodeData {
   trueLabel?: string;
   falseLabel?: string;
 
+  // For-each node data
+  forEachItems?: string; // Expression evaluating to the array to iterate over
+  forEachConcurrency?: number | string; // Items whose body runs at the same time
+
+  // Merge node data
+  mergeStrategy?: MergeStrategy;
+
+  // Switch node data
+  switchCases?: SwitchCase[]; // Checked in order; the first match wins, otherwise 'default'
+
+  // Sub-workflow node data
+  subWorkflowId?: string; // Custom or Convex ID of the workflow to run
+  subWorkflowInputs?: Record<string, string>; // Child input variable -> expression over the parent state
+
   // Transform node data
   transformScript?: string;
 
@@ -86,7 +106,45 @@ export interface NodeData {
   mapLimit?: number;
   actionOnViolation?: string;
   maxIterations?: number | string;
-  timeoutMinutes?: number | string;
+  timeoutMinutes?: number | string; // Per attempt; connect the 'timeout' handle to recover instead of failing
+
+  // Retry policy (applies to every node type)
+  retry?: NodeRetryPolicy;
+
+  // Pinned output, returned instead of calling the service in test-mode runs
+  pinOutput?: boolean;
+  pinnedOutput?: any;
+}
+
+export interface NodeRetryPolicy {
+  maxAttempts: number; // Total attempts, including the first one
+  backoff?: 'fixed' | 'exponential';
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  jitter?: boolean;
+  retryOn?: string[]; // Error codes from lib/errors that trigger a retry
+}
+
+// truncate-tail keeps the beginning, truncate-head keeps the end
+export type ContextStrategy = 'truncate-tail' | 'truncate-head' | 'map-reduce' | 'summarize';
+
+export type MergeStrategy = 'wait-all' | 'first-completed' | 'object' | 'concat';
+
+// One output of a switch node; the id doubles as the source handle
+export interface SwitchCase {
+  id: string;
+  label: string;
+  expression: string;
+}
+
+// One entry in a for-each node's output, in item order
+export interface ForEachItemResult {
+  index: number;
+  item: any;
+  status: 'completed' | 'failed';
+  output?: any;
+  error?: string;
+  errorCode?: string;
 }
 
 export interface MCPServer {
@@ -119,14 +177,19 @@ export interface Workflow {
   difficulty?: string;
   nodes: WorkflowNode[];
   edges: WorkflowEdge[];
+  settings?: WorkflowSettings;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface WorkflowSettings {
+  timeoutMinutes?: number | string; // Deadline for a run (each segment between approval/auth pauses)
+}
+
 export interface WorkflowExecution {
   id: string;
   workflowId: string;
-  status: 'running' | 'completed' | 'failed' | 'paused' | 'waiting-auth';
+  status: 'running' | 'completed' | 'failed' | 'paused' | 'waiting-auth' | 'cancelled' | 'timeout';
   currentNodeId?: string;
   nodeResults: Record<string, NodeExecutionResult>;
   startedAt: string;
@@ -137,20 +200,77 @@ export interface WorkflowExecution {
 
 export interface NodeExecutionResult {
   nodeId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'pending-authorization' | 'pending-approval';
+  status: 'pending' | 'running' | 'retrying' | 'completed' | 'failed' | 'cancelled' | 'timeout' | 'pending-authorization' | 'pending-approval';
   input?: any;
   output?: any;
   error?: string;
+  errorCode?: string;
+  attempt?: number;
+  maxAttempts?: number;
+  nextRetryAt?: string;
+  pinned?: boolean; // Output came from the node's pinned output (test mode)
   startedAt?: string;
   completedAt?: string;
-  toolCalls?: Array<{
-    name?: string;
-    arguments?: any;
-    output?: any;
-  }>;
+  toolCalls?: NodeToolCall[];
+  model?: string; // Model that served an agent response, e.g. a fallback
+  warnings?: string[]; // e.g. inputs reduced to fit the model's context
   pendingAuth?: WorkflowPendingAuth;
 }
 
+export interface NodeToolCall {
+  id?: string;
+  name?: string;
+  server_name?: string;
+  arguments?: any;
+  output?: any;
+  step?: number; // Agent tool-use loop step that made the call
+}
+
+export type WorkflowLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// One structured log line from a run, already redacted
+export interface WorkflowLogEntry {
+  timestamp: string;
+  level: WorkflowLogLevel;
+  message: string;
+  nodeId?: string;
+  workflowId?: string;
+  executionId?: string;
+  data?: unknown;
+}
+
+// One step in a run's LangGraph checkpoint history (time-travel timeline)
+export interface WorkflowCheckpoint {
+  checkpointId: string;
+  parentCheckpointId?: string;
+  step: number;
+  source: 'input' | 'loop' | 'update' | 'fork';
+  createdAt?: string;
+  writes: string[]; // Nodes whose output produced this checkpoint
+  next: string[]; // Nodes that run after this checkpoint
+  state: {
+    variables: Record<string, any>;
+    chatHistory: Array<{ role: string; content: string }>;
+    currentNodeId: string;
+    nodeResults: Record<string, NodeExecutionResult>;
+    pendingAuth?: WorkflowPendingAuth | null;
+    loopResults?: any[];
+  };
+}
+
+// Start a new run from a past checkpoint of an earlier run
+export interface WorkflowForkRequest {
+  executionId: string;
+  checkpointId: string;
+  variables?: Record<string, any>; // Merged into state.variables before continuing
+}
+
+// Re-run a node and its descendants on top of a previous run's upstream outputs
+export interface WorkflowRunFromNode {
+  nodeId: string;
+  threadId: string; // Thread of the previous run
+}
+
 export interface WorkflowState {
   variables: Record<string, any>;
   chatHistory: Array<{ role: string; content: string }>;
@@ -167,3 +287,43 @@ export interface WorkflowPendingAuth {
   threadId?: string;
   executionId?: string;
 }
+
+// Named test case attached to a workflow
+export interface WorkflowTestCase {
+  id: string;
+  workflowId: string;
+  name: string;
+  inputs: Record<string, any>; // Values for the Start node's input variables
+  pinnedOutputs?: Record<string, any>; // Node ID -> output returned instead of calling the service
+  assertions: WorkflowTestAssertion[];
+}
+
+export type WorkflowTestAssertionType = 'equals' | 'contains' | 'matches-schema' | 'llm-judge';
+
+export interface WorkflowTestAssertion {
+  type: WorkflowTestAssertionType;
+  target?: string; // 'output' (the End output, default) or a node ID
+  path?: string; // JSON path into the target, e.g. $.items[0].title
+  expected?: any; // equals / contains
+  schema?: any; // matches-schema (JSON Schema: type, properties, required, items, enum)
+  criteria?: string; // llm-judge: what a passing output looks like
+  model?: string; // llm-judge model as provider/model
+}
+
+export interface WorkflowTestAssertionResult {
+  assertion: WorkflowTestAssertion;
+  passed: boolean;
+  actual?: any;
+  message: string;
+}
+
+export interface WorkflowTestRunResult {
+  testId: string;
+  testName: string;
+  status: 'passed' | 'failed' | 'error'; // 'error' = the run itself failed
+  assertions: WorkflowTestAssertionResult[];
+  output?: any;
+  error?: string;
+  durationMs: number;
+  startedAt: string;
+}
@@ -1,4 +1,6 @@
 import { Workflow, WorkflowNode } from './types';
+import { getSwitchCases } from './switch';
+import { getExpressionError } from './expressions';
 
 export interface ValidationError {
   nodeId: string;
@@ -87,8 +89,39 @@ export function validateNode(node: WorkflowNode): ValidationError[] {
       }
       break;
 
+    case 'switch': {
+      const cases = getSwitchCases(node.data);
+      if (cases.length === 0) {
+        errors.push({
+          nodeId: node.id,
+          field: 'switchCases',
+          message: 'Switch must have at least one case',
+        });
+      }
+      cases.forEach((switchCase) => {
+        if (!switchCase.expression || switchCase.expression.trim() === '') {
+          errors.push({
+            nodeId: node.id,
+            field: 'switchCases',
+            message: `Case "${switchCase.label}" must have a condition`,
+          });
+        }
+      });
+      break;
+    }
+
+    case 'sub-workflow':
+      if (!node.data.subWorkflowId) {
+        errors.push({
+          nodeId: node.id,
+          field: 'subWorkflowId',
+          message: 'Sub-workflow must have a workflow selected',
+        });
+      }
+      break;
+
     case 'while':
-      if (!node.data.condition || node.data.condition.trim() === '') {
+      if (!(node.data.whileCondition || node.data.condition)?.trim()) {
         errors.push({
           nodeId: node.id,
           field: 'condition',
@@ -98,7 +131,7 @@ export function validateNode(node: WorkflowNode): ValidationError[] {
       break;
 
     case 'transform':
-      if (!node.data.transformScript || node.data.transformScript.trim() === '') {
+      if (!(node.data.transformScript || (node.data as any).transformation)?.trim()) {
         errors.push({
           nodeId: node.id,
           field: 'transformScript',
@@ -119,9 +152,64 @@ export function validateNode(node: WorkflowNode): ValidationError[] {
       break;
   }
 
+  errors.push(...validateNodeExpressions(node));
+
+  return errors;
+}
+
+/**
+ * Syntax errors in a node's conditions and mapping expressions
+ */
+export function validateNodeExpressions(node: WorkflowNode): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const data: any = node.data || {};
+  const nodeType = data.nodeType || node.type;
+
+  const check = (field: string, expression: unknown, label: string) => {
+    if (typeof expression !== 'string' || expression.trim() === '') return;
+    const message = getExpressionError(expression);
+    if (message) {
+      errors.push({ nodeId: node.id, field, message: `${label}: ${message}` });
+    }
+  };
+
+  switch (nodeType) {
+    case 'if-else':
+    case 'if / else':
+      check('condition', data.condition, 'Condition');
+      break;
+
+    case 'while':
+      check(data.whileCondition ? 'whileCondition' : 'condition', data.whileCondition || data.condition, 'Condition');
+      break;
+
+    case 'switch':
+      getSwitchCases(data).forEach((switchCase) => {
+        check('switchCases', switchCase.expression, `Case "${switchCase.label}"`);
+      });
+      break;
+
+    case 'for-each':
+      check('forEachItems', data.forEachItems, 'Items');
+      break;
+
+    case 'sub-workflow':
+      Object.entries(data.subWorkflowInputs || {}).forEach(([name, expression]) => {
+        check('subWorkflowInputs', expression, `Input "${name}"`);
+      });
+      break;
+  }
+
   return errors;
 }
 
+/**
+ * Expression syntax errors across the whole workflow, reported when it is saved
+ */
+export function validateWorkflowExpressions(workflow: Pick<Workflow, 'nodes'>): ValidationError[] {
+  return (workflow.nodes || []).flatMap(node => validateNodeExpressions(node));
+}
+
 export function getNodeValidationStatus(node: WorkflowNode): 'valid' | 'warning' | 'error' {
   const errors = validateNode(node);
 
@@ -1,53 +1,114 @@
 import { WorkflowState } from './types';
+import { evaluateWorkflowExpression, getExpressionIdentifiers } from './expressions';
+import {
+  applyTemplateFilters,
+  getTemplateBuiltins,
+  splitTemplateFilters,
+  TEMPLATE_BUILTIN_NAMES,
+} from './template-filters';
+
+// Plain references like node_1.items[0].price (node IDs may contain hyphens)
+const PATH_PATTERN = /^[\w$-]+(\[\d+\])?(\.[\w$-]+(\[\d+\])?)*$/;
+
+export interface SubstitutionOptions {
+  // Replaces a value before it goes into the text (context budgets swap in reduced content)
+  transformValue?: (value: string, reference: string) => string;
+}
 
 /**
- * Replace variable references like {{state.variables.node_1.price}} with actual values
+ * Replace variable references like {{state.variables.node_1.price}} with actual values.
+ * References can be piped through filters: {{lastOutput.items | join:", " | truncate:2000}}
  */
-export function substituteVariables(text: string, state: WorkflowState): string {
+export function substituteVariables(text: string, state: WorkflowState, options: SubstitutionOptions = {}): string {
   if (!text) return text;
 
   // Find all {{variable}} patterns
   const pattern = /\{\{([^}]+)\}\}/g;
 
   return text.replace(pattern, (match, expression) => {
-    try {
-      // Clean up the expression
-      const cleanExpr = expression.trim();
+    const reference = expression.trim();
+    const rendered = renderReference(reference, state);
+    if (rendered === undefined) {
+      return match; // Keep original if not found or on error
+    }
+    return options.transformValue ? options.transformValue(rendered.text, reference) : rendered.text;
+  });
+}
 
-      // Evaluate the expression against state
-      const value = evaluateExpression(cleanExpr, state);
+/**
+ * The values a text's references substitute, once per reference, for sizing
+ * them before they go into a prompt. `limited` marks references that set their
+ * own length with | truncate.
+ */
+export function collectTemplateValues(
+  text: string,
+  state: WorkflowState
+): Array<{ reference: string; value: string; limited: boolean }> {
+  const values = new Map<string, { reference: string; value: string; limited: boolean }>();
+
+  for (const reference of extractVariableReferences(text)) {
+    if (values.has(reference)) continue;
+    const rendered = renderReference(reference, state);
+    if (rendered !== undefined) {
+      values.set(reference, { reference, value: rendered.text, limited: rendered.truncated });
+    }
+  }
 
-      // Convert value to string
-      if (value === null || value === undefined) {
-        return match; // Keep original if not found
-      }
+  return Array.from(values.values());
+}
 
-      if (typeof value === 'object') {
-        const jsonStr = JSON.stringify(value);
-        // Truncate large objects to avoid rate limits (max 8000 chars)
-        if (jsonStr.length > 8000) {
-          return jsonStr.substring(0, 8000) + '...[truncated]';
-        }
-        return jsonStr;
-      }
+/**
+ * A reference's value as text (objects as JSON), or undefined to leave it as written
+ */
+function renderReference(reference: string, state: WorkflowState): { text: string; truncated: boolean } | undefined {
+  try {
+    const { value, truncated } = resolveTemplateReference(reference, state);
 
-      const strValue = String(value);
-      // Truncate large strings to avoid rate limits (max 8000 chars)
-      if (strValue.length > 8000) {
-        return strValue.substring(0, 8000) + '\n\n[Content truncated to save tokens...]';
-      }
-      return strValue;
-    } catch (e) {
-      console.warn(`Failed to substitute variable: ${expression}`, e);
-      return match; // Keep original on error
+    if (value === null || value === undefined) {
+      return undefined;
     }
-  });
+
+    return { text: typeof value === 'object' ? JSON.stringify(value) : String(value), truncated };
+  } catch (e) {
+    console.warn(`Failed to substitute variable: ${reference}`, e);
+    return undefined;
+  }
+}
+
+/**
+ * Evaluate a reference and run it through its filters
+ */
+function resolveTemplateReference(reference: string, state: WorkflowState): { value: any; truncated: boolean } {
+  const { expression, filters } = splitTemplateFilters(reference);
+  const value = evaluateExpression(expression, state);
+
+  if (filters.length === 0) {
+    return { value, truncated: false };
+  }
+
+  const calls = filters.map(filter => ({
+    name: filter.name,
+    args: filter.args
+      ? evaluateWorkflowExpression(`[${filter.args}]`, state, getTemplateBuiltins()) as unknown[]
+      : [],
+  }));
+
+  return {
+    value: applyTemplateFilters(value, calls),
+    truncated: filters.some(filter => filter.name === 'truncate'),
+  };
 }
 
 /**
- * Safely evaluate expression like "state.variables.node_1.price" or simpler "node_1.price"
+ * Safely evaluate expression like "state.variables.node_1.price" or simpler "node_1.price".
+ * Anything beyond a plain path (comparisons, helpers, ...) uses the expression language.
  */
 function evaluateExpression(expression: string, state: WorkflowState): any {
+  const root = expression.split(/[.[]/)[0];
+  if (!PATH_PATTERN.test(expression) || TEMPLATE_BUILTIN_NAMES.includes(root)) {
+    return evaluateWorkflowExpression(expression, state, getTemplateBuiltins());
+  }
+
   // Support both patterns:
   // 1. Full: "state.variables.node_1.price"
   // 2. Simple: "node_1.price" (auto-adds state.variables prefix)
@@ -137,6 +198,20 @@ export function extractVariableReferences(text: string): string[] {
   return matches;
 }
 
+/**
+ * Top-level names a reference reads, e.g. "analyze-task" for {{analyze-task.risk | upper}}.
+ * `state.variables.X` counts as X. Throws ExpressionError for invalid references.
+ */
+export function getTemplateReferenceRoots(reference: string): string[] {
+  const { expression } = splitTemplateFilters(reference);
+
+  if (PATH_PATTERN.test(expression)) {
+    const parts = expression.split('.').map(part => part.replace(/\[\d+\]$/, ''));
+    return parts[0] === 'state' && parts[1] === 'variables' && parts[2] ? [parts[2]] : [parts[0]];
+  }
+  return getExpressionIdentifiers(expression);
+}
+
 /**
  * Validate that all variable references exist in state
  */
@@ -149,7 +224,7 @@ export function validateVariableReferences(
 
   for (const ref of references) {
     try {
-      const value = evaluateExpression(ref, state);
+      const { value } = resolveTemplateReference(ref, state);
       if (value === undefined) {
         missing.push(ref);
       }
@@ -17,6 +17,8 @@ const nextConfig = {
     '@redis/client',
     '@e2b/code-interpreter',
     'e2b',
+    '@opentelemetry/sdk-trace-node',
+    '@opentelemetry/exporter-trace-otlp-http',
   ],
 }
 
@@ -0,0 +1,18 @@
+/**
+ * Preload for the open-agent CLI. Workflow modules import `server-only` to
+ * keep them out of client bundles; outside Next.js that guard always throws,
+ * so resolve it to the package's no-op entry instead.
+ */
+
+const Module = require('module');
+const path = require('path');
+
+const serverOnlyEmpty = path.join(path.dirname(require.resolve('server-only')), 'empty.js');
+const resolveFilename = Module._resolveFilename;
+
+Module._resolveFilename = function (request, ...args) {
+  if (request === 'server-only') {
+    return serverOnlyEmpty;
+  }
+  return resolveFilename.call(this, request, ...args);
+};
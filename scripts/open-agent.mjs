@@ -0,0 +1,28 @@
+#!/usr/bin/env node
+/**
+ * Launcher for the open-agent CLI (scripts/open-agent.ts).
+ * Runs it through tsx, with a preload that lets the workflow modules'
+ * `server-only` guard load outside Next.js.
+ */
+
+import { spawn } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+
+const entry = fileURLToPath(new URL('./open-agent.ts', import.meta.url));
+const preload = fileURLToPath(new URL('./open-agent-preload.cjs', import.meta.url));
+// The "@/" import alias comes from the repo's tsconfig, wherever the CLI is run from
+const tsconfig = fileURLToPath(new URL('../tsconfig.json', import.meta.url));
+
+const child = spawn(
+  process.execPath,
+  ['--require', preload, '--import', import.meta.resolve('tsx'), entry, ...process.argv.slice(2)],
+  { stdio: 'inherit', env: { ...process.env, TSX_TSCONFIG_PATH: tsconfig } }
+);
+
+// Ctrl+C reaches the child directly; don't let it kill the launcher first
+process.on('SIGINT', () => {});
+process.on('SIGTERM', () => child.kill('SIGTERM'));
+
+child.on('exit', (code, signal) => {
+  process.exit(code ?? (signal === 'SIGINT' ? 130 : 1));
+});
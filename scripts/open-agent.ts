@@ -0,0 +1,388 @@
+/**
+ * Open Agent CLI
+ * Runs a workflow definition headlessly with LangGraphExecutor - no Next.js
+ * server, Clerk or Convex needed. Node progress streams to stderr and the
+ * final state is written as JSON to stdout (or --output), so runs can be
+ * scripted and checked in CI.
+ *
+ * Usage: npx open-agent run workflow.json --input q="latest AI news"
+ * Launched through scripts/open-agent.mjs, which loads tsx.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LangGraphExecutor, langGraphJSONToWorkflow } from '@/lib/workflow/langgraph';
+import { createNodeEventHandler } from '@/lib/workflow/node-events';
+import { getSubWorkflowOutput } from '@/lib/workflow/sub-workflow';
+import { getTemplate, listTemplates } from '@/lib/workflow/templates';
+import { createCassette, loadCassette, saveCassette, type Cassette } from '@/lib/workflow/cassettes';
+import { initTracing, shutdownTracing } from '@/lib/workflow/tracing';
+import type { NodeExecutionResult, Workflow } from '@/lib/workflow/types';
+
+// Exit codes, so CI can tell a failed run from a bad invocation
+const EXIT_CODES = {
+  SUCCESS: 0,
+  FAILED: 1, // The workflow ran and failed
+  USAGE: 2, // Bad arguments or an unreadable workflow file
+  PAUSED: 3, // Stopped at an approval or authorization step
+  TIMEOUT: 4,
+  CANCELLED: 130, // Interrupted with Ctrl+C
+} as const;
+
+const USAGE = `Usage: open-agent run <workflow.json | template-id> [options]
+       open-agent templates
+
+Options:
+  -i, --input <key=value>   Set an input variable (repeatable). Without "=" the
+                            value is passed as the plain text input
+      --input-file <file>   Read inputs from a JSON file
+  -o, --output <file>       Write the final state JSON to a file instead of stdout
+      --test-mode           Use nodes' pinned outputs instead of running them
+      --cassette <mode>     "record" or "replay" external calls (see README)
+      --cassette-id <id>    Cassette to record to or replay from
+  -v, --verbose             Show executor logs
+  -q, --quiet               Only print the final state
+  -h, --help                Show this help
+
+Provider keys are read from ANTHROPIC_API_KEY, OPENAI_API_KEY, GROQ_API_KEY,
+FIRECRAWL_API_KEY and ARCADE_API_KEY. Set OTEL_EXPORTER_OTLP_ENDPOINT to export
+a trace of the run.
+
+Exit codes: 0 completed, 1 failed, 2 usage error, 3 paused for approval or
+authorization, 4 timed out, 130 interrupted.`;
+
+class UsageError extends Error {}
+
+interface RunOptions {
+  source: string;
+  inputs: Record<string, any>;
+  textInput?: string;
+  inputFile?: string;
+  output?: string;
+  testMode: boolean;
+  cassetteMode?: 'record' | 'replay';
+  cassetteId?: string;
+  verbose: boolean;
+  quiet: boolean;
+}
+
+function parseRunArgs(args: string[]): RunOptions {
+  const options: RunOptions = { source: '', inputs: {}, testMode: false, verbose: false, quiet: false };
+
+  const takeValue = (flag: string, index: number) => {
+    const value = args[index + 1];
+    if (value === undefined || value.startsWith('-')) {
+      throw new UsageError(`${flag} needs a value`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '-i':
+      case '--input': {
+        const value = takeValue(arg, i++);
+        const separator = value.indexOf('=');
+        if (separator > 0) {
+          options.inputs[value.slice(0, separator)] = value.slice(separator + 1);
+        } else {
+          options.textInput = value;
+        }
+        break;
+      }
+      case '--input-file':
+        options.inputFile = takeValue(arg, i++);
+        break;
+      case '-o':
+      case '--output':
+        options.output = takeValue(arg, i++);
+        break;
+      case '--test-mode':
+        options.testMode = true;
+        break;
+      case '--cassette': {
+        const mode = takeValue(arg, i++);
+        if (mode !== 'record' && mode !== 'replay') {
+          throw new UsageError('--cassette must be "record" or "replay"');
+        }
+        options.cassetteMode = mode;
+        break;
+      }
+      case '--cassette-id':
+        options.cassetteId = takeValue(arg, i++);
+        break;
+      case '-v':
+      case '--verbose':
+        options.verbose = true;
+        break;
+      case '-q':
+      case '--quiet':
+        options.quiet = true;
+        break;
+      default:
+        if (arg.startsWith('-') || options.source) {
+          throw new UsageError(`Unexpected argument "${arg}"`);
+        }
+        options.source = arg;
+    }
+  }
+
+  if (!options.source) {
+    throw new UsageError('Missing workflow file or template ID');
+  }
+  if (options.cassetteMode === 'replay' && !options.cassetteId) {
+    throw new UsageError('--cassette replay needs --cassette-id');
+  }
+
+  return options;
+}
+
+/**
+ * Load a workflow from a JSON file (a saved workflow or a LangGraph export)
+ * or, failing that, a built-in template ID
+ */
+async function loadWorkflow(source: string): Promise<Workflow> {
+  let text: string;
+  try {
+    text = await fs.readFile(path.resolve(source), 'utf8');
+  } catch (error: any) {
+    const template = error?.code === 'ENOENT' ? getTemplate(source) : null;
+    if (template) return template;
+    throw new UsageError(error?.code === 'ENOENT' ? `No workflow file or template named "${source}"` : `Can't read ${source}: ${error.message}`);
+  }
+
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new UsageError(`${source} is not valid JSON`);
+  }
+
+  if (!Array.isArray(json?.nodes) || !Array.isArray(json?.edges)) {
+    throw new UsageError(`${source} is not a workflow: expected "nodes" and "edges" arrays`);
+  }
+
+  if (json.id) {
+    return json as Workflow;
+  }
+  return langGraphJSONToWorkflow({
+    ...json,
+    metadata: { ...json.metadata, workflowId: json.metadata?.workflowId || path.basename(source, path.extname(source)) },
+  });
+}
+
+async function buildInput(options: RunOptions): Promise<any> {
+  let inputs: Record<string, any> = {};
+  if (options.inputFile) {
+    try {
+      inputs = JSON.parse(await fs.readFile(path.resolve(options.inputFile), 'utf8'));
+    } catch (error) {
+      throw new UsageError(`Can't read inputs from ${options.inputFile}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  inputs = { ...inputs, ...options.inputs };
+
+  if (options.textInput !== undefined) {
+    if (Object.keys(inputs).length === 0) return options.textInput;
+    inputs.input = options.textInput;
+  }
+
+  // Same shape the execute routes pass to the executor
+  return inputs.input || inputs;
+}
+
+function createProgressPrinter(workflow: Workflow, quiet: boolean) {
+  const nodeResults: Record<string, NodeExecutionResult> = {};
+  const startedAt: Record<string, number> = {};
+
+  const handler = createNodeEventHandler(workflow, (event, data) => {
+    if (quiet) return;
+
+    const name = data.nodeName;
+    switch (event) {
+      case 'node_started':
+        startedAt[data.nodeId] = Date.now();
+        process.stderr.write(`▶ ${name}\n`);
+        break;
+      case 'node_completed': {
+        const elapsed = startedAt[data.nodeId] ? ` (${((Date.now() - startedAt[data.nodeId]) / 1000).toFixed(1)}s)` : '';
+        process.stderr.write(`✓ ${name}${data.result?.pinned ? ' [pinned]' : ''}${elapsed}\n`);
+        break;
+      }
+      case 'node_retrying':
+        process.stderr.write(`↻ ${name} retrying (attempt ${data.attempt}/${data.maxAttempts}): ${data.error}\n`);
+        break;
+      case 'node_failed':
+        process.stderr.write(`✗ ${name}: ${data.error}\n`);
+        break;
+      case 'node_timeout':
+        process.stderr.write(`✗ ${name} timed out: ${data.error}\n`);
+        break;
+      case 'node_cancelled':
+        process.stderr.write(`■ ${name} cancelled\n`);
+        break;
+      case 'node_paused':
+        process.stderr.write(`⏸ ${name} waiting for ${data.status === 'pending-approval' ? 'approval' : 'authorization'}\n`);
+        break;
+    }
+  }, nodeResults);
+
+  return { handler, nodeResults };
+}
+
+async function run(args: string[]): Promise<number> {
+  const options = parseRunArgs(args);
+
+  // The executor logs every step (to stdout, which would mix with the state
+  // JSON) and its own stack traces for node failures the progress output already shows
+  if (options.verbose) {
+    console.log = console.info = console.debug = console.error;
+  } else {
+    console.log = console.info = console.debug = console.warn = console.error = () => {};
+  }
+
+  const workflow = await loadWorkflow(options.source);
+  const input = await buildInput(options);
+
+  const apiKeys = {
+    anthropic: process.env.ANTHROPIC_API_KEY,
+    groq: process.env.GROQ_API_KEY,
+    openai: process.env.OPENAI_API_KEY,
+    firecrawl: process.env.FIRECRAWL_API_KEY,
+    arcade: process.env.ARCADE_API_KEY,
+  };
+
+  const executionId = `cli_${Date.now()}`;
+  let cassette: Cassette | undefined;
+  if (options.cassetteMode === 'record') {
+    cassette = createCassette(options.cassetteId || executionId, {
+      workflowId: workflow.id,
+      secrets: Object.values(apiKeys),
+    });
+  } else if (options.cassetteMode === 'replay') {
+    cassette = await loadCassette(options.cassetteId!);
+  }
+
+  // First Ctrl+C cancels the run cleanly, a second one exits immediately
+  const abortController = new AbortController();
+  process.on('SIGINT', () => {
+    if (abortController.signal.aborted) process.exit(EXIT_CODES.CANCELLED);
+    process.stderr.write('\nCancelling run...\n');
+    abortController.abort();
+  });
+
+  if (!options.quiet) {
+    process.stderr.write(`Running ${workflow.name || workflow.id} (${workflow.nodes.length} nodes)${options.testMode ? ' in test mode' : ''}\n`);
+  }
+
+  await initTracing();
+
+  const started = Date.now();
+  const progress = createProgressPrinter(workflow, options.quiet);
+  const executor = new LangGraphExecutor(workflow, progress.handler, apiKeys);
+
+  let finalState: any = null;
+  try {
+    const stream = await executor.executeStream(input, {
+      threadId: `thread_${workflow.id}_${Date.now()}`,
+      executionId,
+      signal: abortController.signal,
+      testMode: options.testMode,
+      cassette,
+    });
+
+    for await (const state of stream) {
+      finalState = { ...state, nodeResults: { ...state.nodeResults, ...progress.nodeResults } };
+      if (finalState.pendingAuth) break;
+    }
+  } catch (error) {
+    finalState = {
+      ...(finalState ?? {}),
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errorCode: (error as any)?.code,
+    };
+  } finally {
+    if (cassette?.mode === 'record') {
+      const filePath = await saveCassette(cassette);
+      if (!options.quiet) process.stderr.write(`Cassette saved to ${filePath}\n`);
+    }
+    // Export the run's spans before the process exits
+    await shutdownTracing();
+  }
+
+  const status: string = finalState?.pendingAuth
+    ? 'paused'
+    : finalState?.status && finalState.status !== 'running'
+      ? finalState.status
+      : 'completed';
+
+  const result = {
+    workflowId: workflow.id,
+    executionId,
+    traceId: executor.getTraceId(),
+    ...finalState,
+    status,
+    output: status === 'completed' ? getSubWorkflowOutput(workflow, finalState) : undefined,
+    durationMs: Date.now() - started,
+  };
+
+  const json = JSON.stringify(result, null, 2);
+  if (options.output) {
+    await fs.writeFile(path.resolve(options.output), `${json}\n`);
+  } else {
+    process.stdout.write(`${json}\n`);
+  }
+
+  if (!options.quiet) {
+    const seconds = ((Date.now() - started) / 1000).toFixed(1);
+    const detail = result.error ? `: ${result.error}` : '';
+    process.stderr.write(`Run ${status} in ${seconds}s${detail}${options.output ? ` - state written to ${options.output}` : ''}\n`);
+  }
+
+  switch (status) {
+    case 'completed':
+      return EXIT_CODES.SUCCESS;
+    case 'paused':
+      return EXIT_CODES.PAUSED;
+    case 'timeout':
+      return EXIT_CODES.TIMEOUT;
+    case 'cancelled':
+      return EXIT_CODES.CANCELLED;
+    default:
+      return EXIT_CODES.FAILED;
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+
+  if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+    process.stdout.write(`${USAGE}\n`);
+    return command ? EXIT_CODES.SUCCESS : EXIT_CODES.USAGE;
+  }
+
+  try {
+    switch (command) {
+      case 'run':
+        return await run(args);
+      case 'templates':
+        for (const template of listTemplates()) {
+          process.stdout.write(`${template.id}\t${template.name}\n`);
+        }
+        return EXIT_CODES.SUCCESS;
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+      return EXIT_CODES.USAGE;
+    }
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+    return EXIT_CODES.FAILED;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => process.exit(code));